@@ -0,0 +1,93 @@
+import { parseCardDocument } from "../../src/lib/card-document";
+import { hasUnresolvedComparisons, resolveComparisons } from "../../src/lib/card-generation";
+import { refreshOgImages, storedOgImage, storeOgImages } from "../../src/lib/og-storage";
+import { OG_FORMATS, OgFormat } from "../../src/lib/og-images";
+import { getRepositories } from "../../src/lib/repositories";
+import { CachedCard } from "../../src/lib/supabase";
+import { loadCards, parseWhere } from "./cards";
+import { CliOptions } from "./options";
+import { runJob } from "./runner";
+
+// texture backfill calibration | comparisons | og-images
+//   calibration: re-parse card_document with the current extractor, and fill in
+//     calibration_sentence where it's empty. A stored sentence that differs from
+//     the parsed one may be an admin's pick, so it's kept unless --force.
+//   comparisons: the same, and re-resolve comparison titles on TMDB for cards
+//     saved while TMDB was unavailable (every card with --all)
+//   og-images: render and store share images that are missing or stale
+export async function backfillCommand(target: string | undefined, options: CliOptions): Promise<void> {
+  if (target === "og-images") {
+    return backfillOgImages(options);
+  }
+  if (target !== "calibration" && target !== "comparisons") {
+    throw new Error('Usage: texture backfill <calibration|comparisons|og-images>');
+  }
+
+  const cards = (await loadCards(parseWhere(options.where)))
+    .filter((card) => target !== "comparisons" || options.all || hasUnresolvedComparisons(card))
+    .slice(0, options.limit ?? undefined);
+  const items = cards.map((card) => ({ key: card.id, label: card.title, card }));
+
+  await runJob(
+    `backfill ${target} ${options.where.join(" ")}`,
+    items,
+    async ({ card }) => {
+      const cardDocument = parseCardDocument(card.card_content);
+      const fields: Partial<CachedCard> = { card_document: cardDocument };
+      const parsed = cardDocument.calibration?.text || null;
+
+      // Never clear a sentence the extractor can't find
+      if (parsed && parsed !== card.calibration_sentence) {
+        if (!card.calibration_sentence || options.force) {
+          fields.calibration_sentence = parsed;
+        } else {
+          console.log(`  ${card.title}: keeping "${card.calibration_sentence}" (parsed "${parsed}"; --force to overwrite)`);
+        }
+      }
+
+      if (target === "comparisons") {
+        const { comparisons, failed } = await resolveComparisons(cardDocument.comparisons);
+        if (failed.length > 0) {
+          // Leave the card as it is and let the next run retry it
+          throw new Error(`TMDB unavailable for ${failed.length} comparisons`);
+        }
+        fields.comparisons = comparisons.length > 0 ? comparisons : null;
+        console.log(`  ${card.title}: resolved ${comparisons.length}/${cardDocument.comparisons.length} comparisons`);
+      } else if (fields.calibration_sentence) {
+        console.log(`  ${card.title}: "${card.calibration_sentence}" -> "${fields.calibration_sentence}"`);
+      } else if (card.card_document) {
+        return "skipped"; // Already parsed and the sentence isn't changing
+      }
+
+      if (!options.dryRun) {
+        await getRepositories().cards.update(card.id, fields);
+        // A new sentence or comparisons change what the images show
+        await refreshOgImages(card.id);
+      }
+      return "done";
+    },
+    options
+  );
+}
+
+async function backfillOgImages(options: CliOptions): Promise<void> {
+  const formats = Object.keys(OG_FORMATS) as OgFormat[];
+  const cards = (await loadCards(parseWhere(options.where))).slice(0, options.limit ?? undefined);
+  const items = cards.map((card) => ({ key: card.id, label: card.title, card }));
+
+  await runJob(
+    `backfill og-images ${options.where.join(" ")}`,
+    items,
+    async ({ card }) => {
+      const stale = formats.filter((format) => !storedOgImage(card, format));
+      if (stale.length === 0) return "skipped";
+
+      console.log(`  ${card.title}: ${stale.join(", ")}`);
+      if (!options.dryRun) {
+        await storeOgImages(card, stale);
+      }
+      return "done";
+    },
+    options
+  );
+}
@@ -0,0 +1,89 @@
+import { CURRENT_PROMPT } from "../../src/lib/prompts";
+import { completeWithFallback, getProviderChain } from "../../src/lib/llm";
+import { getMediaById, getMediaScope } from "../../src/lib/tmdb";
+import { CardScope } from "../../src/lib/card-scope";
+import { CachedCard, saveCard } from "../../src/lib/supabase";
+import { getRepositories } from "../../src/lib/repositories";
+import { refreshOgImages } from "../../src/lib/og-storage";
+import { buildCardRequest, resolveComparisons, validateAndRepair } from "../../src/lib/card-generation";
+
+const PAGE_SIZE = 200;
+
+// Columns `--where key=value` can filter on ("null" matches a missing value)
+const WHERE_COLUMNS = ["provider", "prompt_version", "media_type", "year", "slug", "tmdb_id", "scope"] as const;
+type WhereColumn = (typeof WHERE_COLUMNS)[number];
+
+export type CardFilter = Partial<Record<WhereColumn, string>>;
+
+export function parseWhere(clauses: string[]): CardFilter {
+  const filter: CardFilter = {};
+  for (const clause of clauses) {
+    const [column, ...rest] = clause.split("=");
+    if (!(WHERE_COLUMNS as readonly string[]).includes(column) || rest.length === 0) {
+      throw new Error(`Invalid --where "${clause}" (expected one of ${WHERE_COLUMNS.join(", ")} as key=value)`);
+    }
+    filter[column as WhereColumn] = rest.join("=");
+  }
+  return filter;
+}
+
+function matches(card: CachedCard, filter: CardFilter): boolean {
+  return Object.entries(filter).every(([column, expected]) => {
+    const value = card[column as WhereColumn];
+    return expected === "null" ? value === null : String(value) === expected;
+  });
+}
+
+// Every card (newest first) matching the filter
+export async function loadCards(filter: CardFilter = {}): Promise<CachedCard[]> {
+  const cards: CachedCard[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getRepositories().cards.list({ limit: PAGE_SIZE, offset });
+    cards.push(...page.filter((card) => matches(card, filter)));
+    if (page.length < PAGE_SIZE) break;
+  }
+  return cards;
+}
+
+// Generate a card with the current prompt and save it (replacing any card for the same title
+// and scope), then store its share images. The same steps as /api/generate, without the streaming.
+export async function generateAndSaveCard(
+  tmdbId: number,
+  mediaType: "movie" | "tv",
+  scope: CardScope | null = null
+): Promise<{ title: string; slug: string }> {
+  const media = await getMediaById(tmdbId, mediaType);
+  if (!media) {
+    throw new Error(`TMDB ${mediaType} ${tmdbId} not found`);
+  }
+  if (scope) {
+    media.scope = await getMediaScope(tmdbId, scope);
+  }
+
+  const { provider, text } = await completeWithFallback(buildCardRequest(media.title, media), getProviderChain("card"));
+  const { cardContent, cardDocument, validation } = await validateAndRepair(text, media.title);
+  const { comparisons, failed } = await resolveComparisons(cardDocument.comparisons);
+  if (failed.length > 0) {
+    console.log(`  ${media.title}: ${failed.length} comparisons stored unlinked (TMDB unavailable), run \`backfill comparisons\` later`);
+  }
+
+  const saved = await saveCard({
+    tmdbId: media.id,
+    scope,
+    scopeName: media.scope?.name || null,
+    title: media.title,
+    mediaType: media.mediaType,
+    year: media.year,
+    posterUrl: media.scope?.posterUrl || media.posterUrl,
+    genres: media.genres,
+    cardContent,
+    cardDocument,
+    comparisons: comparisons.length > 0 ? comparisons : null,
+    provider: provider.model,
+    promptVersion: CURRENT_PROMPT.version,
+    validation,
+  });
+  await refreshOgImages(saved.id);
+
+  return { title: media.title, slug: saved.slug };
+}
@@ -0,0 +1,41 @@
+import { generateAndSaveCard } from "./cards";
+import { CliOptions } from "./options";
+import { runJob } from "./runner";
+import { confirmCollision, findCollisionCandidates, restoreCollision } from "../../src/lib/card-collisions";
+import { parseScope } from "../../src/lib/card-scope";
+import { getRepositories } from "../../src/lib/repositories";
+
+// texture restore-collisions [--dry-run]
+// Moves posts of cards overwritten under the old (tmdb_id, scope) key back to
+// their own card, once TMDB confirms the other media type's id is the posted title.
+// The overwritten card is generated again first if it doesn't exist.
+export async function restoreCollisionsCommand(options: CliOptions): Promise<void> {
+  const candidates = (await findCollisionCandidates()).slice(0, options.limit ?? undefined);
+  const items = candidates.map((candidate) => ({
+    key: `${candidate.card.id}/${candidate.slug}`,
+    label: `${candidate.title} (${candidate.mediaType}, ${candidate.posts.length} posts on "${candidate.card.title}")`,
+    candidate,
+  }));
+
+  await runJob(
+    "restore-collisions",
+    items,
+    async ({ candidate }) => {
+      if (!(await confirmCollision(candidate))) {
+        console.log(`  ${candidate.mediaType} ${candidate.card.tmdb_id} isn't "${candidate.title}" on TMDB, skipping`);
+        return "skipped";
+      }
+      if (options.dryRun) return "done";
+
+      const { card, mediaType } = candidate;
+      if (!(await getRepositories().cards.getByTmdbId(card.tmdb_id!, mediaType, card.scope))) {
+        const { slug } = await generateAndSaveCard(card.tmdb_id!, mediaType, parseScope(card.scope));
+        console.log(`  generated ${slug}`);
+      }
+      const cardId = await restoreCollision(candidate);
+      console.log(`  moved to card ${cardId}`);
+      return "done";
+    },
+    options
+  );
+}
@@ -0,0 +1,25 @@
+import fs from "fs";
+import { loadCards, parseWhere } from "./cards";
+import { CliOptions } from "./options";
+
+// texture export [--format json|jsonl] [--out cards.json]
+// Dumps matching cards to a file, or stdout without --out
+export async function exportCommand(options: CliOptions): Promise<void> {
+  const cards = (await loadCards(parseWhere(options.where))).slice(0, options.limit ?? undefined);
+  const output =
+    options.format === "jsonl"
+      ? cards.map((card) => JSON.stringify(card)).join("\n") + "\n"
+      : JSON.stringify(cards, null, 2) + "\n";
+
+  if (!options.out) {
+    process.stdout.write(output);
+    return;
+  }
+
+  if (options.dryRun) {
+    console.error(`[dry run] Would write ${cards.length} cards to ${options.out}`);
+    return;
+  }
+  fs.writeFileSync(options.out, output);
+  console.error(`Wrote ${cards.length} cards to ${options.out}`);
+}
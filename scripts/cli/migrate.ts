@@ -0,0 +1,84 @@
+import fs from "fs";
+import path from "path";
+import { Client } from "pg";
+import { CliOptions } from "./options";
+
+// texture migrate
+// Applies pending SQL files from supabase/migrations in filename order, each
+// in its own transaction, and records them in schema_migrations.
+// Needs DATABASE_URL (Supabase → Project Settings → Database → Connection string).
+// --dry-run lists the pending migrations and prints their SQL instead.
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "supabase", "migrations");
+
+interface Migration {
+  version: string; // Filename without .sql, e.g. "0002_bluesky"
+  sql: string;
+}
+
+function readMigrations(): Migration[] {
+  return fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith(".sql"))
+    .sort()
+    .map((file) => ({
+      version: file.replace(/\.sql$/, ""),
+      sql: fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"),
+    }));
+}
+
+async function appliedVersions(client: Client): Promise<Set<string>> {
+  await client.query(
+    "CREATE TABLE IF NOT EXISTS schema_migrations (version TEXT PRIMARY KEY, applied_at TIMESTAMPTZ NOT NULL DEFAULT now())"
+  );
+  const { rows } = await client.query<{ version: string }>("SELECT version FROM schema_migrations");
+  return new Set(rows.map((row) => row.version));
+}
+
+export async function migrateCommand(options: CliOptions): Promise<void> {
+  const migrations = readMigrations();
+
+  if (!process.env.DATABASE_URL) {
+    if (!options.dryRun) {
+      throw new Error("DATABASE_URL is not set (use --dry-run to print the SQL instead)");
+    }
+    // Without a database we can't tell what's applied, so print everything
+    migrations.forEach((m) => console.log(`-- ${m.version}\n${m.sql}`));
+    return;
+  }
+
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  try {
+    const applied = await appliedVersions(client);
+    const pending = migrations.filter((m) => !applied.has(m.version));
+
+    if (pending.length === 0) {
+      console.log(`Up to date (${migrations.length} migrations applied)`);
+      return;
+    }
+
+    for (let i = 0; i < pending.length; i++) {
+      const { version, sql } = pending[i];
+      const prefix = `[${i + 1}/${pending.length}]`;
+
+      if (options.dryRun) {
+        console.log(`${prefix} would apply ${version}\n${sql}`);
+        continue;
+      }
+
+      try {
+        await client.query("BEGIN");
+        await client.query(sql);
+        await client.query("INSERT INTO schema_migrations (version) VALUES ($1)", [version]);
+        await client.query("COMMIT");
+        console.log(`${prefix} ✅ ${version}`);
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new Error(`${version} failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  } finally {
+    await client.end();
+  }
+}
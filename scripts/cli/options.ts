@@ -0,0 +1,12 @@
+import { JobOptions } from "./runner";
+
+// Flags shared by every subcommand (parsed in scripts/texture.ts)
+export interface CliOptions extends JobOptions {
+  where: string[];
+  limit: number | null;
+  pages: { movie: number; tv: number };
+  out: string | null;
+  format: "json" | "jsonl";
+  force: boolean;
+  all: boolean;
+}
@@ -0,0 +1,32 @@
+import { generateAndSaveCard, loadCards, parseWhere } from "./cards";
+import { CliOptions } from "./options";
+import { runJob } from "./runner";
+import { parseScope } from "../../src/lib/card-scope";
+
+// texture regenerate --where provider=gemini-2.5-flash-lite-preview-06-17 [--where prompt_version=v1]
+// Rewrites matching cards with the current prompt and provider chain
+export async function regenerateCommand(options: CliOptions): Promise<void> {
+  if (options.where.length === 0) {
+    throw new Error("regenerate needs at least one --where filter (use --where tmdb_id=... for a single card)");
+  }
+
+  const cards = (await loadCards(parseWhere(options.where))).slice(0, options.limit ?? undefined);
+  const items = cards.map((card) => ({ key: card.id, label: card.scope ? `${card.title} ${card.scope}` : card.title, card }));
+
+  await runJob(
+    `regenerate ${options.where.join(" ")}`,
+    items,
+    async ({ card }) => {
+      // Cards are replaced by TMDB id and scope, so ones saved without an id can't be regenerated in place
+      if (card.tmdb_id === null || (card.media_type !== "movie" && card.media_type !== "tv")) {
+        console.log(`  ${card.title}: no TMDB id, skipping`);
+        return "skipped";
+      }
+      if (!options.dryRun) {
+        await generateAndSaveCard(card.tmdb_id, card.media_type, parseScope(card.scope));
+      }
+      return "done";
+    },
+    options
+  );
+}
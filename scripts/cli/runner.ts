@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+
+// Runs a maintenance job over a list of items with a concurrency limit,
+// [n/total] progress lines, and a checkpoint file so an interrupted run
+// picks up where it stopped. Dry runs never touch the checkpoint.
+
+const CHECKPOINT_DIR = path.join(process.cwd(), ".texture", "checkpoints");
+
+export interface JobOptions {
+  dryRun: boolean;
+  concurrency: number;
+  fresh: boolean; // Ignore (and replace) an existing checkpoint
+}
+
+export type JobResult = "done" | "skipped";
+
+export interface JobItem {
+  key: string; // Stable id recorded in the checkpoint
+  label: string; // Shown in progress output
+}
+
+interface Checkpoint {
+  job: string;
+  updatedAt: string;
+  done: string[];
+}
+
+export interface JobSummary {
+  done: number;
+  skipped: number;
+  failed: number;
+  resumed: number;
+}
+
+function checkpointPath(job: string): string {
+  const file = job.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return path.join(CHECKPOINT_DIR, `${file}.json`);
+}
+
+function readCheckpoint(job: string): Set<string> {
+  try {
+    const checkpoint: Checkpoint = JSON.parse(fs.readFileSync(checkpointPath(job), "utf8"));
+    return new Set(checkpoint.done);
+  } catch {
+    return new Set();
+  }
+}
+
+function writeCheckpoint(job: string, done: Set<string>): void {
+  const checkpoint: Checkpoint = { job, updatedAt: new Date().toISOString(), done: Array.from(done) };
+  fs.mkdirSync(CHECKPOINT_DIR, { recursive: true });
+  fs.writeFileSync(checkpointPath(job), JSON.stringify(checkpoint, null, 2));
+}
+
+function clearCheckpoint(job: string): void {
+  fs.rmSync(checkpointPath(job), { force: true });
+}
+
+export async function runJob<T extends JobItem>(
+  job: string,
+  items: T[],
+  work: (item: T) => Promise<JobResult>,
+  options: JobOptions
+): Promise<JobSummary> {
+  const completed = options.dryRun || options.fresh ? new Set<string>() : readCheckpoint(job);
+  const pending = items.filter((item) => !completed.has(item.key));
+  const summary: JobSummary = { done: 0, skipped: 0, failed: 0, resumed: items.length - pending.length };
+
+  if (summary.resumed > 0) {
+    console.log(`Resuming "${job}": ${summary.resumed} of ${items.length} already done (--fresh to start over)`);
+  }
+  console.log(`${options.dryRun ? "[dry run] " : ""}${job}: ${pending.length} item(s), concurrency ${options.concurrency}\n`);
+
+  let next = 0;
+  let finished = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const item = pending[next++];
+      let status: string;
+      try {
+        const result = await work(item);
+        summary[result]++;
+        status = result === "done" ? "✅" : "⏭️ ";
+        if (!options.dryRun) {
+          completed.add(item.key);
+          writeCheckpoint(job, completed);
+        }
+      } catch (error) {
+        summary.failed++;
+        status = "❌";
+        console.error(`  ${item.label}:`, error instanceof Error ? error.message : error);
+      }
+      finished++;
+      console.log(`[${finished}/${pending.length}] ${status} ${item.label}`);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+
+  // Keep the checkpoint around while there are failures to retry
+  if (!options.dryRun && summary.failed === 0) {
+    clearCheckpoint(job);
+  }
+
+  console.log(`\n${summary.done} done, ${summary.skipped} skipped, ${summary.failed} failed`);
+  return summary;
+}
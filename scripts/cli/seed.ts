@@ -0,0 +1,35 @@
+import { getPopularTitles, MediaPreview } from "../../src/lib/tmdb";
+import { getCachedCard } from "../../src/lib/supabase";
+import { generateAndSaveCard } from "./cards";
+import { CliOptions } from "./options";
+import { runJob } from "./runner";
+
+// texture seed [--movie-pages N] [--tv-pages N]
+// Generates cards for TMDB's popular titles that don't have one yet
+export async function seedCommand(options: CliOptions): Promise<void> {
+  const titles: MediaPreview[] = [];
+  for (const mediaType of ["movie", "tv"] as const) {
+    for (let page = 1; page <= options.pages[mediaType]; page++) {
+      titles.push(...(await getPopularTitles(mediaType, page)));
+    }
+  }
+
+  const items = titles
+    .slice(0, options.limit ?? titles.length)
+    .map((media) => ({ key: `${media.mediaType}:${media.id}`, label: `${media.title} (${media.year})`, media }));
+
+  await runJob(
+    "seed",
+    items,
+    async ({ media }) => {
+      if (await getCachedCard(media.id, media.mediaType)) {
+        return "skipped";
+      }
+      if (!options.dryRun) {
+        await generateAndSaveCard(media.id, media.mediaType);
+      }
+      return "done";
+    },
+    options
+  );
+}
@@ -0,0 +1,48 @@
+import { parseCardDocument } from "../../src/lib/card-document";
+import { CardRule, validateCard } from "../../src/lib/card-validation";
+import { getRepositories } from "../../src/lib/repositories";
+import { loadCards, parseWhere } from "./cards";
+import { CliOptions } from "./options";
+import { runJob } from "./runner";
+
+// texture validate-all
+// Re-checks every card against the current rules, stores the result in
+// validation.remaining and prints a per-rule summary
+export async function validateAllCommand(options: CliOptions): Promise<void> {
+  const cards = (await loadCards(parseWhere(options.where))).slice(0, options.limit ?? undefined);
+  const items = cards.map((card) => ({ key: card.id, label: card.title, card }));
+  const byRule = new Map<CardRule, number>();
+  let failing = 0;
+
+  await runJob(
+    `validate-all ${options.where.join(" ")}`,
+    items,
+    async ({ card }) => {
+      const remaining = validateCard(card.card_content, parseCardDocument(card.card_content), { title: card.title });
+      if (remaining.length > 0) {
+        failing++;
+        for (const violation of remaining) {
+          byRule.set(violation.rule, (byRule.get(violation.rule) || 0) + 1);
+          console.log(`  ${card.title}: ${violation.message}`);
+        }
+      }
+
+      if (!options.dryRun) {
+        await getRepositories().cards.update(card.id, {
+          validation: {
+            violations: card.validation?.violations ?? remaining,
+            repaired: card.validation?.repaired ?? false,
+            remaining,
+          },
+        });
+      }
+      return "done";
+    },
+    options
+  );
+
+  console.log(`\n${failing}/${cards.length} cards break at least one rule`);
+  Array.from(byRule.entries())
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([rule, count]) => console.log(`  ${rule}: ${count}`));
+}
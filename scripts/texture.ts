@@ -0,0 +1,126 @@
+import { parseArgs } from "util";
+import { config } from "dotenv";
+import { backfillCommand } from "./cli/backfill";
+import { restoreCollisionsCommand } from "./cli/collisions";
+import { exportCommand } from "./cli/export";
+import { migrateCommand } from "./cli/migrate";
+import { CliOptions } from "./cli/options";
+import { regenerateCommand } from "./cli/regenerate";
+import { seedCommand } from "./cli/seed";
+import { validateAllCommand } from "./cli/validate";
+
+// Maintenance CLI. Run with: npm run texture -- <command> [options]
+
+config({ path: ".env.local" });
+
+const USAGE = `Usage: npm run texture -- <command> [options]
+
+Commands:
+  seed                          Generate cards for TMDB's popular titles
+  backfill comparisons          Re-resolve comparisons TMDB couldn't look up at save time
+  backfill calibration          Re-parse cards and their calibration sentences
+  backfill og-images            Render and store missing or stale share images
+  regenerate --where k=v        Rewrite matching cards with the current prompt
+  validate-all                  Re-check every card against the card rules
+  restore-collisions            Give posts of movie/TV cards overwritten under the old
+                                TMDB id key back to their own card
+  export                        Dump cards as JSON
+  migrate                       Apply pending SQL migrations (needs DATABASE_URL)
+
+Options:
+  --dry-run                     Show what would change without writing
+  --concurrency <n>             Items processed in parallel (default 2)
+  --fresh                       Ignore the checkpoint left by an interrupted run
+  --force                       backfill calibration: overwrite stored sentences
+                                that differ from the parsed one
+  --all                         backfill comparisons: re-resolve every card, not
+                                just those with unresolved comparisons
+  --where <column=value>        Filter cards (repeatable): provider, prompt_version,
+                                media_type, year, slug, tmdb_id, scope ("s2", "s2e6";
+                                empty for whole-title cards); "null" matches empty
+  --limit <n>                   Process at most n items
+  --movie-pages <n>             seed: pages of popular movies (20 per page, default 1)
+  --tv-pages <n>                seed: pages of popular shows (default 1)
+  --format <json|jsonl>         export: output format (default json)
+  --out <file>                  export: write to a file instead of stdout
+`;
+
+function positiveInt(value: string | undefined, name: string, fallback: number | null): number | null {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "dry-run": { type: "boolean", default: false },
+      concurrency: { type: "string" },
+      fresh: { type: "boolean", default: false },
+      force: { type: "boolean", default: false },
+      all: { type: "boolean", default: false },
+      where: { type: "string", multiple: true, default: [] },
+      limit: { type: "string" },
+      "movie-pages": { type: "string" },
+      "tv-pages": { type: "string" },
+      format: { type: "string", default: "json" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, subcommand] = positionals;
+  if (!command || values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.format !== "json" && values.format !== "jsonl") {
+    throw new Error("--format must be json or jsonl");
+  }
+
+  const options: CliOptions = {
+    dryRun: values["dry-run"]!,
+    concurrency: positiveInt(values.concurrency, "concurrency", 2)!,
+    fresh: values.fresh!,
+    where: values.where!,
+    limit: positiveInt(values.limit, "limit", null),
+    pages: {
+      movie: positiveInt(values["movie-pages"], "movie-pages", 1)!,
+      tv: positiveInt(values["tv-pages"], "tv-pages", 1)!,
+    },
+    out: values.out || null,
+    format: values.format,
+    force: values.force!,
+    all: values.all!,
+  };
+
+  switch (command) {
+    case "seed":
+      return seedCommand(options);
+    case "backfill":
+      return backfillCommand(subcommand, options);
+    case "regenerate":
+      return regenerateCommand(options);
+    case "validate-all":
+      return validateAllCommand(options);
+    case "restore-collisions":
+      return restoreCollisionsCommand(options);
+    case "export":
+      return exportCommand(options);
+    case "migrate":
+      return migrateCommand(options);
+    default:
+      console.error(`Unknown command "${command}"\n`);
+      console.log(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
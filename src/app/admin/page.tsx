@@ -1,6 +1,14 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import {
+  CalibrationLintViolation,
+  WEAK_CALIBRATION_SCORE,
+  isWeakCalibration,
+  lintCalibrationSentence,
+} from "@/lib/calibration-lint";
+import type { OgFormat } from "@/lib/og-images";
+import { OG_LAYOUTS, OG_THEMES, OgLayout, OgThemeName, resolveOgTemplate } from "@/lib/og-templates";
 
 interface Card {
   id: string;
@@ -10,6 +18,16 @@ interface Card {
   calibration_sentence: string | null;
   poster_url: string | null;
   genres: string[] | null;
+  provider?: string | null;
+  prompt_version?: string | null;
+  og_layout?: string | null;
+  og_theme?: string | null;
+}
+
+interface PromptVersionCount {
+  version: string; // "unversioned" for cards saved before prompt versioning
+  count: number;
+  current: boolean;
 }
 
 interface PendingPost {
@@ -38,8 +56,25 @@ interface DiscoveredPost {
   discovered_at: string;
 }
 
+interface SentenceCandidate {
+  sentence: string;
+  score: number;
+  violations: CalibrationLintViolation[];
+}
+
 type Tab = "pending" | "cards" | "discover";
 
+interface OgTemplate {
+  layout: OgLayout;
+  theme: OgThemeName;
+}
+
+const PREVIEW_FORMATS: OgFormat[] = ["landscape", "square", "story", "compact"];
+
+function cardTemplate(card: Card): OgTemplate {
+  return resolveOgTemplate({ og_layout: card.og_layout || null, og_theme: card.og_theme || null });
+}
+
 export default function AdminPage() {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
   const [password, setPassword] = useState("");
@@ -56,8 +91,13 @@ export default function AdminPage() {
   // Cards browser state
   const [cards, setCards] = useState<Card[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [promptVersion, setPromptVersion] = useState("");
+  const [promptVersions, setPromptVersions] = useState<PromptVersionCount[]>([]);
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
   const [cardsLoading, setCardsLoading] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState<OgTemplate | null>(null);
+  const [previewFormat, setPreviewFormat] = useState<OgFormat>("landscape");
+  const [savingTemplate, setSavingTemplate] = useState(false);
 
   // Discover state
   const [discoveredPosts, setDiscoveredPosts] = useState<DiscoveredPost[]>([]);
@@ -66,7 +106,7 @@ export default function AdminPage() {
 
   // Shared state
   const [regenerating, setRegenerating] = useState(false);
-  const [generatedSentences, setGeneratedSentences] = useState<string[]>([]);
+  const [generatedSentences, setGeneratedSentences] = useState<SentenceCandidate[]>([]);
   const [saving, setSaving] = useState(false);
 
   // Check authentication on mount
@@ -103,13 +143,16 @@ export default function AdminPage() {
     }
   }, [selectedPost]);
 
-  const fetchCards = async (search: string = "") => {
+  const fetchCards = async (search: string = "", version: string = "") => {
     setCardsLoading(true);
     try {
-      const res = await fetch(`/api/admin/cards?search=${encodeURIComponent(search)}&limit=30`);
+      const res = await fetch(
+        `/api/admin/cards?search=${encodeURIComponent(search)}&promptVersion=${encodeURIComponent(version)}&limit=30`
+      );
       if (res.ok) {
         const data = await res.json();
         setCards(data.cards || []);
+        setPromptVersions(data.versions || []);
       }
     } catch (error) {
       console.error("Failed to fetch cards:", error);
@@ -181,7 +224,7 @@ export default function AdminPage() {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    fetchCards(searchQuery);
+    fetchCards(searchQuery, promptVersion);
   };
 
   const handleLogin = async (e: React.FormEvent) => {
@@ -305,7 +348,7 @@ export default function AdminPage() {
 
       if (res.ok) {
         const data = await res.json();
-        setGeneratedSentences(data.sentences || []);
+        setGeneratedSentences(data.candidates || []);
       }
     } catch (error) {
       console.error("Failed to regenerate:", error);
@@ -362,6 +405,42 @@ export default function AdminPage() {
     }
   };
 
+  const openCard = (card: Card | null) => {
+    setSelectedCard(card);
+    setGeneratedSentences([]);
+    setTemplateDraft(card ? cardTemplate(card) : null);
+  };
+
+  // null resets the card to the default template
+  const handleSaveTemplate = async (cardId: string, template: OgTemplate | null) => {
+    setSavingTemplate(true);
+
+    try {
+      const res = await fetch(`/api/admin/cards/${cardId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          og_layout: template?.layout ?? null,
+          og_theme: template?.theme ?? null,
+        }),
+      });
+
+      if (res.ok) {
+        const saved = await res.json();
+        setCards(cards.map((c) => (c.id === cardId ? { ...c, ...saved } : c)));
+        if (selectedCard?.id === cardId) {
+          const updated = { ...selectedCard, ...saved };
+          setSelectedCard(updated);
+          setTemplateDraft(cardTemplate(updated));
+        }
+      }
+    } catch (error) {
+      console.error("Failed to save template:", error);
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
   const formatScheduledTime = (isoString: string) => {
     const date = new Date(isoString);
     return date.toLocaleString("en-US", {
@@ -574,14 +653,18 @@ export default function AdminPage() {
                           Select a new sentence:
                         </h3>
                         <div className="space-y-2">
-                          {generatedSentences.map((sentence, index) => (
+                          {generatedSentences.map(({ sentence, score, violations }, index) => (
                             <button
                               key={index}
                               onClick={() => handleSelectSentence(selectedPost.selected_card!.id, sentence)}
                               disabled={saving}
-                              className="w-full text-left bg-zinc-800 hover:bg-zinc-700 p-3 rounded-lg text-sm transition-colors disabled:opacity-50"
+                              title={violations.map((v) => v.message).join("\n")}
+                              className="w-full text-left bg-zinc-800 hover:bg-zinc-700 p-3 rounded-lg text-sm transition-colors disabled:opacity-50 flex items-start gap-3"
                             >
-                              {sentence}
+                              <span className="flex-1">{sentence}</span>
+                              <span className={`text-xs ${score >= WEAK_CALIBRATION_SCORE ? "text-green-400" : "text-yellow-400"}`}>
+                                {score}
+                              </span>
                             </button>
                           ))}
                         </div>
@@ -678,6 +761,23 @@ export default function AdminPage() {
                 placeholder="Search cards..."
                 className="flex-1 bg-zinc-900 border border-zinc-700 rounded-lg px-4 py-2 text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
               />
+              <select
+                value={promptVersion}
+                onChange={(e) => {
+                  setPromptVersion(e.target.value);
+                  setSelectedCard(null);
+                  fetchCards(searchQuery, e.target.value);
+                }}
+                className="bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-zinc-500"
+              >
+                <option value="">All prompts</option>
+                {promptVersions.map((v) => (
+                  <option key={v.version} value={v.version}>
+                    {v.version}
+                    {v.current ? " (current)" : ""} · {v.count}
+                  </option>
+                ))}
+              </select>
               <button
                 type="submit"
                 className="bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
@@ -692,21 +792,20 @@ export default function AdminPage() {
               /* Card Detail View */
               <div className="space-y-4">
                 <button
-                  onClick={() => {
-                    setSelectedCard(null);
-                    setGeneratedSentences([]);
-                  }}
+                  onClick={() => openCard(null)}
                   className="text-zinc-400 hover:text-white text-sm"
                 >
                   ← Back to list
                 </button>
 
                 <div className="bg-zinc-900 rounded-xl overflow-hidden">
-                  <img
-                    src={`/api/og/${selectedCard.slug}`}
-                    alt={selectedCard.title}
-                    className="w-full"
-                  />
+                  {templateDraft && (
+                    <img
+                      src={`/api/og/${selectedCard.slug}?format=${previewFormat}&layout=${templateDraft.layout}&theme=${templateDraft.theme}`}
+                      alt={selectedCard.title}
+                      className={previewFormat === "story" ? "w-1/2 mx-auto" : "w-full"}
+                    />
+                  )}
 
                   <div className="p-4">
                     <h2 className="text-xl font-semibold mb-1">
@@ -722,6 +821,24 @@ export default function AdminPage() {
                       &ldquo;{selectedCard.calibration_sentence || "No sentence"}&rdquo;
                     </p>
 
+                    <p className="text-zinc-500 text-xs mb-4">
+                      Prompt {selectedCard.prompt_version || "unversioned"} · {selectedCard.provider || "unknown model"}
+                    </p>
+
+                    {selectedCard.calibration_sentence && (() => {
+                      const lint = lintCalibrationSentence(selectedCard.calibration_sentence);
+                      if (lint.violations.length === 0) return null;
+                      return (
+                        <ul className="text-xs text-yellow-400 mb-4 space-y-1">
+                          {lint.violations.map((v, i) => (
+                            <li key={i}>
+                              {v.severity === "error" ? "✕" : "!"} {v.message}
+                            </li>
+                          ))}
+                        </ul>
+                      );
+                    })()}
+
                     <button
                       onClick={() => handleRegenerate(selectedCard.id)}
                       disabled={regenerating}
@@ -732,20 +849,104 @@ export default function AdminPage() {
                   </div>
                 </div>
 
+                {templateDraft && (
+                  <div className="bg-zinc-900 rounded-xl p-4 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-medium text-zinc-400">Share image template</h3>
+                      <select
+                        value={previewFormat}
+                        onChange={(e) => setPreviewFormat(e.target.value as OgFormat)}
+                        className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-white text-xs focus:outline-none focus:border-zinc-500"
+                      >
+                        {PREVIEW_FORMATS.map((format) => (
+                          <option key={format} value={format}>
+                            Preview {format}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                      {OG_LAYOUTS.map((layout) => (
+                        <button
+                          key={layout.name}
+                          onClick={() => setTemplateDraft({ ...templateDraft, layout: layout.name })}
+                          title={layout.description}
+                          className={`p-2 rounded-lg text-sm transition-colors ${
+                            templateDraft.layout === layout.name
+                              ? "bg-violet-600 text-white"
+                              : "bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+                          }`}
+                        >
+                          {layout.label}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(OG_THEMES) as OgThemeName[]).map((name) => (
+                        <button
+                          key={name}
+                          onClick={() => setTemplateDraft({ ...templateDraft, theme: name })}
+                          className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs border transition-colors ${
+                            templateDraft.theme === name ? "border-violet-500 text-white" : "border-zinc-700 text-zinc-400 hover:text-white"
+                          }`}
+                        >
+                          <span
+                            className="w-3 h-3 rounded-full border border-zinc-600"
+                            style={{ backgroundColor: OG_THEMES[name].background, boxShadow: `inset 0 -4px ${OG_THEMES[name].accent}` }}
+                          />
+                          {OG_THEMES[name].label}
+                          {OG_THEMES[name].kind !== "base" && (
+                            <span className="text-zinc-500">{OG_THEMES[name].kind}</span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleSaveTemplate(selectedCard.id, templateDraft)}
+                        disabled={
+                          savingTemplate ||
+                          (templateDraft.layout === cardTemplate(selectedCard).layout &&
+                            templateDraft.theme === cardTemplate(selectedCard).theme)
+                        }
+                        className="bg-violet-600 hover:bg-violet-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                      >
+                        {savingTemplate ? "Saving..." : "Use this template"}
+                      </button>
+                      {(selectedCard.og_layout || selectedCard.og_theme) && (
+                        <button
+                          onClick={() => handleSaveTemplate(selectedCard.id, null)}
+                          disabled={savingTemplate}
+                          className="text-zinc-400 hover:text-white text-sm px-2 disabled:opacity-50"
+                        >
+                          Reset to default
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {generatedSentences.length > 0 && (
                   <div className="bg-zinc-900 rounded-xl p-4">
                     <h3 className="text-sm font-medium text-zinc-400 mb-3">
                       Select a new sentence:
                     </h3>
                     <div className="space-y-2">
-                      {generatedSentences.map((sentence, index) => (
+                      {generatedSentences.map(({ sentence, score, violations }, index) => (
                         <button
                           key={index}
                           onClick={() => handleSelectSentence(selectedCard.id, sentence)}
                           disabled={saving}
-                          className="w-full text-left bg-zinc-800 hover:bg-zinc-700 p-3 rounded-lg text-sm transition-colors disabled:opacity-50"
+                          title={violations.map((v) => v.message).join("\n")}
+                          className="w-full text-left bg-zinc-800 hover:bg-zinc-700 p-3 rounded-lg text-sm transition-colors disabled:opacity-50 flex items-start gap-3"
                         >
-                          {sentence}
+                          <span className="flex-1">{sentence}</span>
+                          <span className={`text-xs ${score >= WEAK_CALIBRATION_SCORE ? "text-green-400" : "text-yellow-400"}`}>
+                            {score}
+                          </span>
                         </button>
                       ))}
                     </div>
@@ -763,10 +964,7 @@ export default function AdminPage() {
                   cards.map((card) => (
                     <button
                       key={card.id}
-                      onClick={() => {
-                        setSelectedCard(card);
-                        setGeneratedSentences([]);
-                      }}
+                      onClick={() => openCard(card)}
                       className="w-full text-left bg-zinc-900 hover:bg-zinc-800 p-3 rounded-lg transition-colors flex items-center gap-3"
                     >
                       {card.poster_url && (
@@ -789,6 +987,14 @@ export default function AdminPage() {
                           {card.calibration_sentence || "No sentence"}
                         </div>
                       </div>
+                      <span className="text-xs text-zinc-500" title={card.provider || undefined}>
+                        {card.prompt_version || "unversioned"}
+                      </span>
+                      {card.calibration_sentence && isWeakCalibration(lintCalibrationSentence(card.calibration_sentence)) && (
+                        <span className="text-xs bg-yellow-900/50 text-yellow-400 px-2 py-0.5 rounded">
+                          Weak
+                        </span>
+                      )}
                     </button>
                   ))
                 )}
@@ -1,14 +1,8 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
 import crypto from "crypto";
-
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
+import { getRepositories } from "@/lib/repositories";
+import { ADMIN_SESSION_COOKIE, verifyAdmin } from "@/lib/admin-auth";
 
 // POST: Login with password
 export async function POST(request: Request) {
@@ -22,18 +16,14 @@ export async function POST(request: Request) {
       );
     }
 
-    const supabase = getSupabase();
     const token = crypto.randomUUID();
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 7); // 7 day session
 
     // Create session in database
-    const { error } = await supabase.from("admin_sessions").insert({
-      token,
-      expires_at: expiresAt.toISOString(),
-    });
-
-    if (error) {
+    try {
+      await getRepositories().sessions.create(token, expiresAt);
+    } catch (error) {
       console.error("Failed to create session:", error);
       return NextResponse.json(
         { error: "Failed to create session" },
@@ -43,7 +33,7 @@ export async function POST(request: Request) {
 
     // Set cookie
     const cookieStore = await cookies();
-    cookieStore.set("admin_session", token, {
+    cookieStore.set(ADMIN_SESSION_COOKIE, token, {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax",
@@ -64,22 +54,7 @@ export async function POST(request: Request) {
 // GET: Validate session
 export async function GET() {
   try {
-    const cookieStore = await cookies();
-    const token = cookieStore.get("admin_session")?.value;
-
-    if (!token) {
-      return NextResponse.json({ valid: false }, { status: 401 });
-    }
-
-    const supabase = getSupabase();
-    const { data: session } = await supabase
-      .from("admin_sessions")
-      .select("*")
-      .eq("token", token)
-      .gt("expires_at", new Date().toISOString())
-      .single();
-
-    if (!session) {
+    if (!(await verifyAdmin())) {
       return NextResponse.json({ valid: false }, { status: 401 });
     }
 
@@ -94,14 +69,13 @@ export async function GET() {
 export async function DELETE() {
   try {
     const cookieStore = await cookies();
-    const token = cookieStore.get("admin_session")?.value;
+    const token = cookieStore.get(ADMIN_SESSION_COOKIE)?.value;
 
     if (token) {
-      const supabase = getSupabase();
-      await supabase.from("admin_sessions").delete().eq("token", token);
+      await getRepositories().sessions.delete(token);
     }
 
-    cookieStore.delete("admin_session");
+    cookieStore.delete(ADMIN_SESSION_COOKIE);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { getRepositories } from "@/lib/repositories";
+import { isOgLayout, isOgTheme } from "@/lib/og-templates";
+import { refreshOgImages } from "@/lib/og-storage";
+
+// PATCH: Set a card's OG image template. null resets a field to the default.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!(await verifyAdmin())) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await request.json();
+  const { og_layout, og_theme } = body;
+
+  if (og_layout === undefined && og_theme === undefined) {
+    return NextResponse.json({ error: "No updates provided" }, { status: 400 });
+  }
+  if (og_layout != null && !(typeof og_layout === "string" && isOgLayout(og_layout))) {
+    return NextResponse.json({ error: "Unknown layout" }, { status: 400 });
+  }
+  if (og_theme != null && !(typeof og_theme === "string" && isOgTheme(og_theme))) {
+    return NextResponse.json({ error: "Unknown theme" }, { status: 400 });
+  }
+
+  const { cards } = getRepositories();
+  const card = await cards.getById(id);
+  if (!card) {
+    return NextResponse.json({ error: "Card not found" }, { status: 404 });
+  }
+
+  try {
+    const updates = {
+      ...(og_layout !== undefined ? { og_layout } : {}),
+      ...(og_theme !== undefined ? { og_theme } : {}),
+    };
+    await cards.update(id, updates);
+    await refreshOgImages(id);
+    return NextResponse.json(updates);
+  } catch (error) {
+    console.error("Failed to update card template:", error);
+    return NextResponse.json(
+      { error: "Failed to update template" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,60 +1,61 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import { cookies } from "next/headers";
+import { verifyAdmin } from "@/lib/admin-auth";
+import { getRepositories } from "@/lib/repositories";
+import { CURRENT_PROMPT, PROMPT_VERSIONS } from "@/lib/prompts";
 
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
-
-async function verifyAdmin(): Promise<boolean> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get("admin_session")?.value;
-
-  if (!token) return false;
-
-  const supabase = getSupabase();
-  const { data: session } = await supabase
-    .from("admin_sessions")
-    .select("*")
-    .eq("token", token)
-    .gt("expires_at", new Date().toISOString())
-    .single();
-
-  return !!session;
-}
+// Filter value for cards saved before prompt versioning
+const UNVERSIONED = "unversioned";
 
 export async function GET(request: Request) {
   if (!(await verifyAdmin())) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const supabase = getSupabase();
   const url = new URL(request.url);
   const search = url.searchParams.get("search") || "";
   const limit = parseInt(url.searchParams.get("limit") || "20");
-
-  let query = supabase
-    .from("cards")
-    .select("id, title, slug, year, calibration_sentence, poster_url, genres, media_type")
-    .order("created_at", { ascending: false })
-    .limit(limit);
-
-  if (search) {
-    query = query.ilike("title", `%${search}%`);
-  }
-
-  const { data: cards, error } = await query;
-
-  if (error) {
+  const promptVersion = url.searchParams.get("promptVersion") || "";
+  const cardsRepo = getRepositories().cards;
+
+  try {
+    const [cards, versions] = await Promise.all([
+      cardsRepo.list({
+        search,
+        promptVersion: promptVersion === UNVERSIONED ? null : promptVersion,
+        limit,
+      }),
+      // Card counts per prompt version, so the admin can see what an old prompt still owns
+      Promise.all(
+        [...PROMPT_VERSIONS.map((p) => p.version), UNVERSIONED].map(async (version) => ({
+          version,
+          count: await cardsRepo.countByPromptVersion(version === UNVERSIONED ? null : version),
+          current: version === CURRENT_PROMPT.version,
+        }))
+      ),
+    ]);
+
+    return NextResponse.json({
+      cards: cards.map((card) => ({
+        id: card.id,
+        title: card.title,
+        slug: card.slug,
+        year: card.year,
+        calibration_sentence: card.calibration_sentence,
+        poster_url: card.poster_url,
+        genres: card.genres,
+        media_type: card.media_type,
+        provider: card.provider,
+        prompt_version: card.prompt_version,
+        og_layout: card.og_layout,
+        og_theme: card.og_theme,
+      })),
+      versions,
+    });
+  } catch (error) {
     console.error("Failed to fetch cards:", error);
     return NextResponse.json(
       { error: "Failed to fetch cards" },
       { status: 500 }
     );
   }
-
-  return NextResponse.json({ cards: cards || [] });
 }
@@ -1,32 +1,8 @@
 import { NextResponse } from "next/server";
 import { BskyAgent } from "@atproto/api";
-import { createClient } from "@supabase/supabase-js";
-import Anthropic from "@anthropic-ai/sdk";
-import { cookies } from "next/headers";
-
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
-
-async function verifyAdmin(): Promise<boolean> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get("admin_session")?.value;
-
-  if (!token) return false;
-
-  const supabase = getSupabase();
-  const { data: session } = await supabase
-    .from("admin_sessions")
-    .select("*")
-    .eq("token", token)
-    .gt("expires_at", new Date().toISOString())
-    .single();
-
-  return !!session;
-}
+import { verifyAdmin } from "@/lib/admin-auth";
+import { getRepositories } from "@/lib/repositories";
+import { completeWithFallback, getProviderChain } from "@/lib/llm";
 
 // Search phrases that indicate someone is describing the viewing experience
 const SEARCH_PHRASES = [
@@ -67,20 +43,13 @@ export async function GET() {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const supabase = getSupabase();
-
-  const { data: posts, error } = await supabase
-    .from("discovered_posts")
-    .select("*")
-    .eq("status", "pending")
-    .order("relevance_score", { ascending: false })
-    .limit(20);
-
-  if (error) {
+  try {
+    const posts = await getRepositories().discoveredPosts.listPending(20);
+    return NextResponse.json({ posts });
+  } catch (error) {
+    console.error("Failed to fetch discovered posts:", error);
     return NextResponse.json({ error: "Failed to fetch posts" }, { status: 500 });
   }
-
-  return NextResponse.json({ posts: posts || [] });
 }
 
 // POST: Run a discovery search
@@ -90,8 +59,6 @@ export async function POST() {
   }
 
   try {
-    const supabase = getSupabase();
-
     // Initialize Bluesky agent
     const agent = new BskyAgent({ service: "https://bsky.social" });
     await agent.login({
@@ -147,7 +114,7 @@ export async function POST() {
     }
 
     // Use AI to filter and score posts
-    const anthropic = new Anthropic();
+    const chain = getProviderChain("discover");
     const scoredPosts: Array<{
       post: typeof discoveredPosts[0];
       score: number;
@@ -156,12 +123,9 @@ export async function POST() {
 
     for (const post of discoveredPosts) {
       try {
-        const response = await anthropic.messages.create({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 200,
-          messages: [{
-            role: "user",
-            content: `Analyze this social media post. Is it describing the VIEWING EXPERIENCE of a specific movie or TV show (how it felt to watch, emotional impact, comparisons to other media)?
+        const { text } = await completeWithFallback({
+          maxTokens: 200,
+          prompt: `Analyze this social media post. Is it describing the VIEWING EXPERIENCE of a specific movie or TV show (how it felt to watch, emotional impact, comparisons to other media)?
 
 Post: "${post.content}"
 
@@ -173,10 +137,8 @@ Respond in JSON format:
 }
 
 Only mark isRelevant:true if the post is genuinely describing what it's like to watch something, not just mentioning a title.`
-          }]
-        });
+        }, chain);
 
-        const text = response.content[0].type === 'text' ? response.content[0].text : '';
         const jsonMatch = text.match(/\{[\s\S]*\}/);
 
         if (jsonMatch) {
@@ -197,9 +159,8 @@ Only mark isRelevant:true if the post is genuinely describing what it's like to
     // Insert scored posts into database (skip duplicates)
     let inserted = 0;
     for (const { post, score, detectedTitle } of scoredPosts) {
-      const { error: insertError } = await supabase
-        .from("discovered_posts")
-        .upsert({
+      try {
+        const isNew = await getRepositories().discoveredPosts.insertIfNew({
           platform: "bluesky",
           post_uri: post.uri,
           post_url: post.url,
@@ -210,12 +171,11 @@ Only mark isRelevant:true if the post is genuinely describing what it's like to
           relevance_score: score / 100,
           search_phrase: post.searchPhrase,
           status: "pending",
-        }, {
-          onConflict: "post_uri",
-          ignoreDuplicates: true,
         });
-
-      if (!insertError) inserted++;
+        if (isNew) inserted++;
+      } catch (insertError) {
+        console.error("Failed to save discovered post:", insertError);
+      }
     }
 
     return NextResponse.json({
@@ -245,17 +205,10 @@ export async function PATCH(request: Request) {
     return NextResponse.json({ error: "Missing id or status" }, { status: 400 });
   }
 
-  const supabase = getSupabase();
-
-  const { error } = await supabase
-    .from("discovered_posts")
-    .update({
-      status,
-      acted_on_at: new Date().toISOString(),
-    })
-    .eq("id", id);
-
-  if (error) {
+  try {
+    await getRepositories().discoveredPosts.updateStatus(id, status);
+  } catch (error) {
+    console.error("Failed to update discovered post:", error);
     return NextResponse.json({ error: "Failed to update" }, { status: 500 });
   }
 
@@ -1,30 +1,6 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import { cookies } from "next/headers";
-
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
-
-async function verifyAdmin(): Promise<boolean> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get("admin_session")?.value;
-
-  if (!token) return false;
-
-  const supabase = getSupabase();
-  const { data: session } = await supabase
-    .from("admin_sessions")
-    .select("*")
-    .eq("token", token)
-    .gt("expires_at", new Date().toISOString())
-    .single();
-
-  return !!session;
-}
+import { verifyAdmin } from "@/lib/admin-auth";
+import { getRepositories, PendingPost } from "@/lib/repositories";
 
 // GET: Fetch a single pending post with full card data
 export async function GET(
@@ -36,35 +12,18 @@ export async function GET(
   }
 
   const { id } = await params;
-  const supabase = getSupabase();
+  const { cards, pendingPosts } = getRepositories();
 
-  const { data: post, error } = await supabase
-    .from("pending_posts")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const post = await pendingPosts.getById(id);
 
-  if (error || !post) {
+  if (!post) {
     return NextResponse.json({ error: "Post not found" }, { status: 404 });
   }
 
-  // Fetch selected card
-  const { data: selectedCard } = await supabase
-    .from("cards")
-    .select("*")
-    .eq("id", post.selected_card_id)
-    .single();
-
-  // Fetch alternative cards
-  const { data: alternativeCards } = await supabase
-    .from("cards")
-    .select("*")
-    .in("id", post.alternative_card_ids || []);
-
   return NextResponse.json({
     ...post,
-    selected_card: selectedCard,
-    alternative_cards: alternativeCards || [],
+    selected_card: await cards.getById(post.selected_card_id),
+    alternative_cards: await cards.getByIds(post.alternative_card_ids || []),
   });
 }
 
@@ -79,21 +38,17 @@ export async function PATCH(
 
   const { id } = await params;
   const body = await request.json();
-  const supabase = getSupabase();
+  const { pendingPosts } = getRepositories();
 
   // Validate the post exists
-  const { data: existingPost, error: fetchError } = await supabase
-    .from("pending_posts")
-    .select("*")
-    .eq("id", id)
-    .single();
+  const existingPost = await pendingPosts.getById(id);
 
-  if (fetchError || !existingPost) {
+  if (!existingPost) {
     return NextResponse.json({ error: "Post not found" }, { status: 404 });
   }
 
   // Build update object
-  const updates: Record<string, unknown> = {};
+  const updates: Partial<PendingPost> = {};
 
   if (body.selected_card_id) {
     updates.selected_card_id = body.selected_card_id;
@@ -111,20 +66,14 @@ export async function PATCH(
     return NextResponse.json({ error: "No updates provided" }, { status: 400 });
   }
 
-  const { data: updatedPost, error: updateError } = await supabase
-    .from("pending_posts")
-    .update(updates)
-    .eq("id", id)
-    .select()
-    .single();
-
-  if (updateError) {
+  try {
+    const updatedPost = await pendingPosts.update(id, updates);
+    return NextResponse.json(updatedPost);
+  } catch (updateError) {
     console.error("Failed to update pending post:", updateError);
     return NextResponse.json(
       { error: "Failed to update post" },
       { status: 500 }
     );
   }
-
-  return NextResponse.json(updatedPost);
 }
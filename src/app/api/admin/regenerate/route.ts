@@ -1,31 +1,9 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import { cookies } from "next/headers";
-import Anthropic from "@anthropic-ai/sdk";
-
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
-
-async function verifyAdmin(): Promise<boolean> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get("admin_session")?.value;
-
-  if (!token) return false;
-
-  const supabase = getSupabase();
-  const { data: session } = await supabase
-    .from("admin_sessions")
-    .select("*")
-    .eq("token", token)
-    .gt("expires_at", new Date().toISOString())
-    .single();
-
-  return !!session;
-}
+import { verifyAdmin } from "@/lib/admin-auth";
+import { getRepositories } from "@/lib/repositories";
+import { rankCalibrationSentences } from "@/lib/calibration-lint";
+import { completeWithFallback, getProviderChain } from "@/lib/llm";
+import { refreshOgImages } from "@/lib/og-storage";
 
 const REGENERATE_PROMPT = `You are generating calibration sentences for a movie/TV show emotional preview app.
 
@@ -65,16 +43,10 @@ export async function POST(request: Request) {
       );
     }
 
-    const supabase = getSupabase();
-
     // Fetch the card
-    const { data: card, error } = await supabase
-      .from("cards")
-      .select("*")
-      .eq("id", card_id)
-      .single();
+    const card = await getRepositories().cards.getById(card_id);
 
-    if (error || !card) {
+    if (!card) {
       return NextResponse.json({ error: "Card not found" }, { status: 404 });
     }
 
@@ -86,23 +58,16 @@ Genres: ${(card.genres || []).join(", ") || "Unknown"}
 Current calibration sentence: ${card.calibration_sentence || "None"}
 `;
 
-    // Call Claude
-    const anthropic = new Anthropic();
-
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1024,
-      messages: [
+    let text: string;
+    try {
+      ({ text } = await completeWithFallback(
         {
-          role: "user",
-          content: `${REGENERATE_PROMPT}\n\n## CARD CONTEXT\n${context}\n\nGenerate 4 alternative calibration sentences for this title. Use different comparison titles than the current sentence.`,
+          prompt: `${REGENERATE_PROMPT}\n\n## CARD CONTEXT\n${context}\n\nGenerate 4 alternative calibration sentences for this title. Use different comparison titles than the current sentence.`,
         },
-      ],
-    });
-
-    // Extract text from response
-    const textBlock = response.content.find((block) => block.type === "text");
-    if (!textBlock || textBlock.type !== "text") {
+        getProviderChain("calibration")
+      ));
+    } catch (llmError) {
+      console.error("Sentence generation failed:", llmError);
       return NextResponse.json(
         { error: "Failed to generate sentences" },
         { status: 500 }
@@ -110,22 +75,30 @@ Current calibration sentence: ${card.calibration_sentence || "None"}
     }
 
     // Parse sentences (one per line)
-    const sentences = textBlock.text
+    let sentences = text
       .split("\n")
       .map((line) => line.trim())
       .filter((line) => line.startsWith("*") && line.endsWith("*"));
 
     if (sentences.length === 0) {
-      // If parsing failed, return the raw text split by newlines
-      const fallbackSentences = textBlock.text
+      // If parsing failed, fall back to the raw text split by newlines
+      sentences = text
         .split("\n")
         .map((line) => line.trim())
         .filter((line) => line.length > 20);
-
-      return NextResponse.json({ sentences: fallbackSentences.slice(0, 4) });
     }
 
-    return NextResponse.json({ sentences: sentences.slice(0, 4) });
+    // Drop candidates that break the hard constraints and put the strongest first
+    const ranked = rankCalibrationSentences(sentences).slice(0, 4);
+
+    return NextResponse.json({
+      sentences: ranked.map(({ sentence }) => sentence),
+      candidates: ranked.map(({ sentence, lint }) => ({
+        sentence,
+        score: lint.score,
+        violations: lint.violations,
+      })),
+    });
   } catch (error) {
     console.error("Regenerate error:", error);
     return NextResponse.json(
@@ -151,14 +124,9 @@ export async function PATCH(request: Request) {
       );
     }
 
-    const supabase = getSupabase();
-
-    const { error } = await supabase
-      .from("cards")
-      .update({ calibration_sentence })
-      .eq("id", card_id);
-
-    if (error) {
+    try {
+      await getRepositories().cards.update(card_id, { calibration_sentence });
+    } catch (error) {
       console.error("Failed to update calibration sentence:", error);
       return NextResponse.json(
         { error: "Failed to update" },
@@ -166,6 +134,9 @@ export async function PATCH(request: Request) {
       );
     }
 
+    // The share images show the sentence
+    await refreshOgImages(card_id);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Save sentence error:", error);
@@ -1,28 +1,20 @@
-import { createClient } from "@supabase/supabase-js";
-
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
+import { getRepositories } from "@/lib/repositories";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ token: string }> }
 ) {
   const { token } = await params;
-  const supabase = getSupabase();
+  const { cards, pendingPosts } = getRepositories();
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch";
 
   // Look up the pending post by token
-  const { data: pendingPost, error } = await supabase
-    .from("pending_posts")
-    .select("*, cards:selected_card_id(*)")
-    .eq("approval_token", token)
-    .single();
+  const pendingPost = await pendingPosts.getByApprovalToken(token).catch((error) => {
+    console.error("Failed to look up pending post:", error);
+    return null;
+  });
 
-  if (error || !pendingPost) {
+  if (!pendingPost) {
     return new Response(
       generateHTML({
         title: "Invalid Link",
@@ -68,16 +60,13 @@ export async function GET(
   }
 
   // Approve the post
-  const { error: updateError } = await supabase
-    .from("pending_posts")
-    .update({
+  try {
+    await pendingPosts.update(pendingPost.id, {
       status: "approved",
       approved_at: new Date().toISOString(),
       approved_via: "email",
-    })
-    .eq("id", pendingPost.id);
-
-  if (updateError) {
+    });
+  } catch (updateError) {
     console.error("Failed to approve post:", updateError);
     return new Response(
       generateHTML({
@@ -90,7 +79,8 @@ export async function GET(
     );
   }
 
-  const cardTitle = pendingPost.cards?.title || "Unknown";
+  const card = await cards.getById(pendingPost.selected_card_id).catch(() => null);
+  const cardTitle = card?.title || "Unknown";
 
   return new Response(
     generateHTML({
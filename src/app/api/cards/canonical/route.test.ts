@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import { saveCard } from "@/lib/supabase";
+import { GET } from "./route";
+
+async function lookup(path: string): Promise<Response> {
+  return GET(new Request(`https://example.test/api/cards/canonical?path=${encodeURIComponent(path)}`));
+}
+
+describe("GET /api/cards/canonical", () => {
+  let id: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setRepositories(createMemoryRepositories(createMemoryStore()));
+    const heat = {
+      tmdbId: 949,
+      title: "Heat",
+      mediaType: "movie",
+      year: "1995",
+      posterUrl: null,
+      genres: null,
+      cardContent: "",
+      provider: "mock",
+      promptVersion: "v1",
+    };
+    ({ id } = await saveCard(heat));
+    await saveCard({ ...heat, year: "1996" });
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.restoreAllMocks();
+  });
+
+  it("gives the current slug for an old slug, a UUID or the slug itself", async () => {
+    for (const path of ["heat-1995", id, "heat-1996"]) {
+      expect(await (await lookup(path)).json()).toEqual({ slug: "heat-1996" });
+    }
+  });
+
+  it("404s for paths no card has had", async () => {
+    const response = await lookup("nothing-here");
+    expect(response.status).toBe(404);
+    expect(response.headers.get("Cache-Control")).toContain("s-maxage");
+  });
+});
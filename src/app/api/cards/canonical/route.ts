@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getCardBySlugOrId, isSafeSlug } from "@/lib/supabase";
+
+// Misses are cached too, so the same unknown link doesn't reach the store each time
+const CACHE_HEADERS = { "Cache-Control": "public, s-maxage=60, stale-while-revalidate=600" };
+
+// GET /api/cards/canonical?path=heat-1995
+// The current slug of the card at a card path (a slug, an old slug or a UUID), so
+// src/middleware.ts can answer UUID links with a 301. null if the card has no slug.
+export async function GET(request: Request) {
+  const path = new URL(request.url).searchParams.get("path") || "";
+
+  try {
+    const card = path ? await getCardBySlugOrId(path) : null;
+    if (!card) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404, headers: CACHE_HEADERS });
+    }
+    return NextResponse.json(
+      { slug: card.slug && isSafeSlug(card.slug) ? card.slug : null },
+      { headers: CACHE_HEADERS }
+    );
+  } catch (error) {
+    console.error("Canonical card lookup failed:", error);
+    return NextResponse.json({ error: "Lookup failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import type { CachedCard } from "@/lib/supabase";
+import { makeCard } from "@/lib/test-fixtures";
+import { GET } from "./route";
+
+// A stand-in for the Bluesky client that records what would be posted
+const bluesky = vi.hoisted(() => ({
+  login: vi.fn(),
+  uploadBlob: vi.fn(),
+  post: vi.fn(),
+}));
+vi.mock("@atproto/api", () => ({
+  BskyAgent: class {
+    login = bluesky.login;
+    uploadBlob = bluesky.uploadBlob;
+    post = bluesky.post;
+  },
+  RichText: class {
+    facets = [];
+    constructor(public props: { text: string }) {}
+    get text() {
+      return this.props.text;
+    }
+    async detectFacets() {}
+  },
+}));
+
+function card(id: string, tmdbId: number, title: string, fields: Partial<CachedCard> = {}): CachedCard {
+  return makeCard({
+    id,
+    tmdb_id: tmdbId,
+    title,
+    slug: title.toLowerCase().replace(/\s+/g, "-"),
+    genres: ["Drama"],
+    calibration_sentence: `If Heat felt like a duel, ${title} feels like a riot in your chest.`,
+    ...fields,
+  });
+}
+
+function cronRequest(slot: string): Request {
+  return new Request(`https://example.test/api/cron/post-to-bluesky?slot=${slot}`, {
+    headers: { authorization: "Bearer cron-secret" },
+  });
+}
+
+describe("GET /api/cron/post-to-bluesky", () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    vi.stubEnv("CRON_SECRET", "cron-secret");
+    vi.stubEnv("TMDB_MOCK", "1");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    bluesky.login.mockReset();
+    bluesky.uploadBlob.mockReset().mockResolvedValue({ data: { blob: "blob-ref" } });
+    bluesky.post.mockReset().mockResolvedValue({ uri: "at://did:plc:texture/app.bsky.feed.post/abc123" });
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("posts the most popular card with its square image and records it", async () => {
+    store = createMemoryStore({
+      cards: [card("bear", 136315, "The Bear"), card("severance", 95396, "Severance")],
+    });
+    setRepositories(createMemoryRepositories(store));
+
+    const response = await GET(cronRequest("afternoon"));
+    expect(await response.json()).toMatchObject({
+      success: true,
+      platform: "bluesky",
+      title: "The Bear",
+      imageAttached: true,
+    });
+
+    const [png] = bluesky.uploadBlob.mock.calls[0];
+    expect((png as Buffer).subarray(1, 4).toString()).toBe("PNG");
+    const [post] = bluesky.post.mock.calls[0];
+    expect(post.text).toContain("https://texture.watch/card/the-bear");
+    expect(post.embed.images[0].image).toBe("blob-ref");
+
+    const bear = store.cards.find((c) => c.id === "bear")!;
+    expect(bear.last_posted_bluesky).not.toBeNull();
+    expect(bear.og_images?.square).toBeDefined();
+    expect(store.postLogs).toMatchObject([{ card_id: "bear", platform: "bluesky", tweet_id: "abc123", slot: "afternoon" }]);
+  });
+
+  it("does nothing when no card can be posted", async () => {
+    store = createMemoryStore({
+      cards: [
+        card("bear", 136315, "The Bear", { last_posted_bluesky: new Date().toISOString() }),
+        card("severance", 95396, "Severance", { calibration_sentence: null }),
+      ],
+    });
+    setRepositories(createMemoryRepositories(store));
+
+    const response = await GET(cronRequest("afternoon"));
+    expect(await response.json()).toEqual({ message: "No eligible cards to post" });
+    expect(bluesky.login).not.toHaveBeenCalled();
+    expect(bluesky.post).not.toHaveBeenCalled();
+    expect(store.postLogs).toEqual([]);
+  });
+});
@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
 import { BskyAgent, RichText } from "@atproto/api";
-import { createClient } from "@supabase/supabase-js";
-
-// Slot types for different times of day
-type PostSlot = "morning" | "afternoon" | "evening";
+import { getRepositories, PostSlot } from "@/lib/repositories";
+import type { CachedCard } from "@/lib/supabase";
+import { getTmdbPopularity } from "@/lib/tmdb";
+import { getOgImagePng } from "@/lib/og-storage";
 
 // Prestige genres for evening slot
 const PRESTIGE_GENRES = [
@@ -16,35 +16,6 @@ const PRESTIGE_GENRES = [
   "Documentary",
 ];
 
-// Lazy initialization to avoid build-time errors
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
-
-// Fetch OG image as Buffer for Bluesky upload
-async function fetchOgImageBuffer(slug: string): Promise<Buffer | null> {
-  try {
-    const ogImageUrl = `https://texture.watch/api/og/${slug}`;
-    console.log(`Fetching OG image: ${ogImageUrl}`);
-
-    const response = await fetch(ogImageUrl, { cache: "no-store" });
-
-    if (!response.ok) {
-      console.error(`OG image fetch failed: ${response.status}`);
-      return null;
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    return Buffer.from(arrayBuffer);
-  } catch (error) {
-    console.error("Failed to fetch OG image:", error);
-    return null;
-  }
-}
-
 // Verify this is a legitimate cron request
 function verifyCronRequest(request: Request): boolean {
   const authHeader = request.headers.get("authorization");
@@ -58,23 +29,6 @@ function verifyCronRequest(request: Request): boolean {
   return false;
 }
 
-// Get TMDB popularity score for a title
-async function getTmdbPopularity(
-  tmdbId: number,
-  mediaType: string
-): Promise<number> {
-  try {
-    const res = await fetch(
-      `https://api.themoviedb.org/3/${mediaType}/${tmdbId}`,
-      { headers: { Authorization: `Bearer ${process.env.TMDB_API_TOKEN}` } }
-    );
-    const data = await res.json();
-    return data.popularity || 0;
-  } catch {
-    return 0;
-  }
-}
-
 export async function GET(request: Request) {
   // Verify the request is from cron or has the secret
   if (!verifyCronRequest(request)) {
@@ -82,7 +36,7 @@ export async function GET(request: Request) {
   }
 
   try {
-    const supabase = getSupabase();
+    const { cards: cardsRepo, pendingPosts, postLogs } = getRepositories();
 
     // Parse slot from query params
     const url = new URL(request.url);
@@ -95,23 +49,16 @@ export async function GET(request: Request) {
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    const { data: pendingPost } = await supabase
-      .from("pending_posts")
-      .select("*, cards:selected_card_id(*)")
-      .eq("slot", slot)
-      .in("status", ["approved", "pending"])
-      .gte("scheduled_for", today.toISOString())
-      .lt("scheduled_for", tomorrow.toISOString())
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
-
-    let selectedCard;
+    const pendingPost = await pendingPosts.findForSlot(slot, today, tomorrow);
+    const approvedCard =
+      pendingPost?.status === "approved" ? await cardsRepo.getById(pendingPost.selected_card_id) : null;
+
+    let selectedCard: CachedCard | undefined;
     let pendingPostId: string | null = null;
 
-    if (pendingPost?.cards && pendingPost.status === "approved") {
+    if (pendingPost && approvedCard) {
       // Use the approved card
-      selectedCard = pendingPost.cards;
+      selectedCard = approvedCard;
       pendingPostId = pendingPost.id;
       console.log(`[Bluesky] Using approved card: ${selectedCard.title}`);
     } else {
@@ -122,17 +69,9 @@ export async function GET(request: Request) {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-      const { data: cards, error } = await supabase
-        .from("cards")
-        .select("*")
-        .not("calibration_sentence", "is", null)
-        .not("slug", "is", null)
-        .or(
-          `last_posted_bluesky.is.null,last_posted_bluesky.lt.${thirtyDaysAgo.toISOString()}`
-        )
-        .limit(50);
-
-      if (error || !cards || cards.length === 0) {
+      const cards = await cardsRepo.listPostable("last_posted_bluesky", thirtyDaysAgo, 50);
+
+      if (cards.length === 0) {
         console.log("[Bluesky] No eligible cards found");
         return NextResponse.json({ message: "No eligible cards to post" });
       }
@@ -142,7 +81,7 @@ export async function GET(request: Request) {
 
       if (slot === "morning") {
         filteredCards = cards.filter((card) => {
-          const year = parseInt(card.year);
+          const year = parseInt(card.year || "");
           return !isNaN(year) && year < 2015;
         });
         console.log(
@@ -209,7 +148,8 @@ export async function GET(request: Request) {
 
     // Try to fetch and upload image
     let embed: { $type: string; images: Array<{ alt: string; image: unknown }> } | undefined;
-    const imageBuffer = await fetchOgImageBuffer(selectedCard.slug);
+    // Square: Bluesky shows a single image at its own aspect ratio, so it fills the feed
+    const imageBuffer = await getOgImagePng(selectedCard, "square");
 
     if (imageBuffer) {
       try {
@@ -251,48 +191,35 @@ export async function GET(request: Request) {
     );
 
     // Update last_posted_bluesky on the card
-    await supabase
-      .from("cards")
-      .update({ last_posted_bluesky: new Date().toISOString() })
-      .eq("id", selectedCard.id);
+    await cardsRepo
+      .update(selectedCard.id, { last_posted_bluesky: new Date().toISOString() })
+      .catch((error) => console.error("Failed to update last_posted_bluesky:", error));
 
     // Log the post to the posts table
-    const { error: postLogError } = await supabase.from("posts").insert({
-      card_id: selectedCard.id,
-      slot,
-      tweet_id: postId, // Using tweet_id field for post ID
-      platform: "bluesky",
-      posted_at: new Date().toISOString(),
-      title: selectedCard.title,
-      slug: selectedCard.slug,
-      calibration_sentence: selectedCard.calibration_sentence,
-      year: selectedCard.year,
-      poster_url: selectedCard.poster_url,
-    });
-
-    if (postLogError) {
+    try {
+      await postLogs.create({
+        card_id: selectedCard.id,
+        slot,
+        tweet_id: postId || null, // Using tweet_id field for post ID
+        platform: "bluesky",
+        posted_at: new Date().toISOString(),
+        title: selectedCard.title,
+        slug: selectedCard.slug,
+        calibration_sentence: selectedCard.calibration_sentence,
+        year: selectedCard.year,
+        poster_url: selectedCard.poster_url,
+      });
+    } catch (postLogError) {
       console.error("[Bluesky] Failed to log post:", postLogError);
     }
 
     // Mark that Bluesky has posted (don't change status yet - Twitter may still need it)
     if (pendingPostId) {
-      await supabase
-        .from("pending_posts")
-        .update({ posted_to_bluesky: true })
-        .eq("id", pendingPostId);
+      const updatedPending = await pendingPosts.update(pendingPostId, { posted_to_bluesky: true });
 
       // Check if both platforms have posted, then mark as fully posted
-      const { data: updatedPending } = await supabase
-        .from("pending_posts")
-        .select("posted_to_x, posted_to_bluesky")
-        .eq("id", pendingPostId)
-        .single();
-
       if (updatedPending?.posted_to_x && updatedPending?.posted_to_bluesky) {
-        await supabase
-          .from("pending_posts")
-          .update({ status: "posted" })
-          .eq("id", pendingPostId);
+        await pendingPosts.update(pendingPostId, { status: "posted" });
       }
     }
 
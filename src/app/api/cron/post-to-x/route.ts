@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
 import { TwitterApi } from "twitter-api-v2";
-import { createClient } from "@supabase/supabase-js";
-
-// Slot types for different times of day
-type PostSlot = "morning" | "afternoon" | "evening";
+import { getRepositories, PostSlot } from "@/lib/repositories";
+import type { CachedCard } from "@/lib/supabase";
+import { getTmdbPopularity } from "@/lib/tmdb";
+import { getOgImagePng } from "@/lib/og-storage";
 
 // Prestige genres for evening slot
 const PRESTIGE_GENRES = [
@@ -16,35 +16,6 @@ const PRESTIGE_GENRES = [
   "Documentary",
 ];
 
-// Lazy initialization to avoid build-time errors
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY! // Need service role to update last_posted_at
-  );
-}
-
-// Fetch OG image as Buffer for Twitter upload
-async function fetchOgImageBuffer(slug: string): Promise<Buffer | null> {
-  try {
-    const ogImageUrl = `https://texture.watch/api/og/${slug}`;
-    console.log(`Fetching OG image: ${ogImageUrl}`);
-
-    const response = await fetch(ogImageUrl, { cache: "no-store" });
-
-    if (!response.ok) {
-      console.error(`OG image fetch failed: ${response.status}`);
-      return null;
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    return Buffer.from(arrayBuffer);
-  } catch (error) {
-    console.error("Failed to fetch OG image:", error);
-    return null;
-  }
-}
-
 // Verify this is a legitimate cron request
 function verifyCronRequest(request: Request): boolean {
   const authHeader = request.headers.get("authorization");
@@ -59,20 +30,6 @@ function verifyCronRequest(request: Request): boolean {
   return false;
 }
 
-// Get TMDB popularity score for a title
-async function getTmdbPopularity(tmdbId: number, mediaType: string): Promise<number> {
-  try {
-    const res = await fetch(
-      `https://api.themoviedb.org/3/${mediaType}/${tmdbId}`,
-      { headers: { Authorization: `Bearer ${process.env.TMDB_API_TOKEN}` } }
-    );
-    const data = await res.json();
-    return data.popularity || 0;
-  } catch {
-    return 0;
-  }
-}
-
 export async function GET(request: Request) {
   // Verify the request is from Vercel Cron or has the secret
   if (!verifyCronRequest(request)) {
@@ -80,7 +37,7 @@ export async function GET(request: Request) {
   }
 
   try {
-    const supabase = getSupabase();
+    const { cards: cardsRepo, pendingPosts, postLogs } = getRepositories();
 
     // Parse slot from query params (default to afternoon for backwards compatibility)
     const url = new URL(request.url);
@@ -93,23 +50,16 @@ export async function GET(request: Request) {
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
 
-    const { data: pendingPost } = await supabase
-      .from("pending_posts")
-      .select("*, cards:selected_card_id(*)")
-      .eq("slot", slot)
-      .in("status", ["approved", "pending"])
-      .gte("scheduled_for", today.toISOString())
-      .lt("scheduled_for", tomorrow.toISOString())
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
+    const pendingPost = await pendingPosts.findForSlot(slot, today, tomorrow);
+    const approvedCard =
+      pendingPost?.status === "approved" ? await cardsRepo.getById(pendingPost.selected_card_id) : null;
 
-    let selectedCard;
+    let selectedCard: CachedCard | undefined;
     let pendingPostId: string | null = null;
 
-    if (pendingPost?.cards && pendingPost.status === "approved") {
+    if (pendingPost && approvedCard) {
       // Use the approved card
-      selectedCard = pendingPost.cards;
+      selectedCard = approvedCard;
       pendingPostId = pendingPost.id;
       console.log(`Using approved card: ${selectedCard.title}`);
     } else {
@@ -120,15 +70,9 @@ export async function GET(request: Request) {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-      const { data: cards, error } = await supabase
-        .from("cards")
-        .select("*")
-        .not("calibration_sentence", "is", null)
-        .not("slug", "is", null)
-        .or(`last_posted_at.is.null,last_posted_at.lt.${thirtyDaysAgo.toISOString()}`)
-        .limit(50);
+      const cards = await cardsRepo.listPostable("last_posted_at", thirtyDaysAgo, 50);
 
-      if (error || !cards || cards.length === 0) {
+      if (cards.length === 0) {
         console.log("No eligible cards found");
         return NextResponse.json({ message: "No eligible cards to post" });
       }
@@ -138,7 +82,7 @@ export async function GET(request: Request) {
 
       if (slot === "morning") {
         filteredCards = cards.filter((card) => {
-          const year = parseInt(card.year);
+          const year = parseInt(card.year || "");
           return !isNaN(year) && year < 2015;
         });
         console.log(`Morning slot: ${filteredCards.length} classic titles found`);
@@ -192,7 +136,8 @@ export async function GET(request: Request) {
 
     // Try to fetch and upload OG image
     let mediaId: string | null = null;
-    const imageBuffer = await fetchOgImageBuffer(selectedCard.slug);
+    // Landscape: X shows a single wide image uncropped in the timeline
+    const imageBuffer = await getOgImagePng(selectedCard, "landscape");
 
     if (imageBuffer) {
       try {
@@ -219,49 +164,37 @@ export async function GET(request: Request) {
     );
 
     // Update last_posted_at on the card
-    await supabase
-      .from("cards")
-      .update({ last_posted_at: new Date().toISOString() })
-      .eq("id", selectedCard.id);
+    await cardsRepo
+      .update(selectedCard.id, { last_posted_at: new Date().toISOString() })
+      .catch((error) => console.error("Failed to update last_posted_at:", error));
 
     // Log the post to the posts table for /editions archive
-    const { error: postLogError } = await supabase.from("posts").insert({
-      card_id: selectedCard.id,
-      slot,
-      tweet_id: tweet.data.id,
-      posted_at: new Date().toISOString(),
-      // Snapshot fields - capture what was actually posted
-      title: selectedCard.title,
-      slug: selectedCard.slug,
-      calibration_sentence: selectedCard.calibration_sentence,
-      year: selectedCard.year,
-      poster_url: selectedCard.poster_url,
-    });
-
-    if (postLogError) {
+    try {
+      await postLogs.create({
+        card_id: selectedCard.id,
+        slot,
+        tweet_id: tweet.data.id,
+        platform: "twitter",
+        posted_at: new Date().toISOString(),
+        // Snapshot fields - capture what was actually posted
+        title: selectedCard.title,
+        slug: selectedCard.slug,
+        calibration_sentence: selectedCard.calibration_sentence,
+        year: selectedCard.year,
+        poster_url: selectedCard.poster_url,
+      });
+    } catch (postLogError) {
       // Log but don't fail - the tweet was already posted
       console.error("Failed to log post:", postLogError);
     }
 
     // Mark that Twitter has posted (don't change status yet - Bluesky may still need it)
     if (pendingPostId) {
-      await supabase
-        .from("pending_posts")
-        .update({ posted_to_x: true })
-        .eq("id", pendingPostId);
+      const updatedPending = await pendingPosts.update(pendingPostId, { posted_to_x: true });
 
       // Check if both platforms have posted, then mark as fully posted
-      const { data: updatedPending } = await supabase
-        .from("pending_posts")
-        .select("posted_to_x, posted_to_bluesky")
-        .eq("id", pendingPostId)
-        .single();
-
       if (updatedPending?.posted_to_x && updatedPending?.posted_to_bluesky) {
-        await supabase
-          .from("pending_posts")
-          .update({ status: "posted" })
-          .eq("id", pendingPostId);
+        await pendingPosts.update(pendingPostId, { status: "posted" });
       }
     }
 
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import type { CachedCard } from "@/lib/supabase";
+import { makeCard } from "@/lib/test-fixtures";
+import { GET } from "./route";
+
+const { sendPostPreviewEmail } = vi.hoisted(() => ({ sendPostPreviewEmail: vi.fn() }));
+vi.mock("@/lib/email", () => ({ sendPostPreviewEmail }));
+
+// Popularity comes from the TMDB fixtures: The Office > The Bear > Succession
+function card(id: string, tmdbId: number, title: string, year: string, fields: Partial<CachedCard> = {}): CachedCard {
+  return makeCard({
+    id,
+    tmdb_id: tmdbId,
+    title,
+    slug: title.toLowerCase().replace(/\s+/g, "-"),
+    year,
+    genres: ["Drama"],
+    calibration_sentence: `If Heat felt like a duel, ${title} feels like a riot in your chest.`,
+    ...fields,
+  });
+}
+
+const cards = [
+  card("bear", 136315, "The Bear", "2022"),
+  card("succession", 76331, "Succession", "2018"),
+  card("office", 2316, "The Office", "2005"),
+];
+
+function cronRequest(slot: string): Request {
+  return new Request(`https://example.test/api/cron/prepare-post?slot=${slot}`, {
+    headers: { authorization: "Bearer cron-secret" },
+  });
+}
+
+describe("GET /api/cron/prepare-post", () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    vi.stubEnv("CRON_SECRET", "cron-secret");
+    vi.stubEnv("TMDB_MOCK", "1");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    sendPostPreviewEmail.mockReset();
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("rejects requests without the cron secret", async () => {
+    setRepositories(createMemoryRepositories(createMemoryStore({ cards })));
+    const response = await GET(new Request("https://example.test/api/cron/prepare-post"));
+    expect(response.status).toBe(401);
+  });
+
+  it("creates a pending post for the most popular card and emails a preview", async () => {
+    store = createMemoryStore({ cards });
+    setRepositories(createMemoryRepositories(store));
+
+    const response = await GET(cronRequest("afternoon"));
+    expect(await response.json()).toMatchObject({
+      success: true,
+      slot: "afternoon",
+      selectedCard: "The Office",
+      alternatives: ["The Bear", "Succession"],
+    });
+
+    expect(store.pendingPosts).toHaveLength(1);
+    expect(store.pendingPosts[0]).toMatchObject({
+      slot: "afternoon",
+      selected_card_id: "office",
+      alternative_card_ids: ["bear", "succession"],
+      status: "pending",
+    });
+
+    expect(sendPostPreviewEmail).toHaveBeenCalledOnce();
+    const email = sendPostPreviewEmail.mock.calls[0][0];
+    expect(email.selectedCard.title).toBe("The Office");
+    expect(email.approvalToken).toBe(store.pendingPosts[0].approval_token);
+    // The compact image was rendered and stored for the email
+    expect(email.imageUrl).toMatch(/^data:image\/png;base64,/);
+    expect(store.ogImages.size).toBe(1);
+  });
+
+  it("does nothing when no card can be posted", async () => {
+    const posted = cards.map((c) => ({ ...c, last_posted_at: new Date().toISOString() }));
+    const unfinished = card("draft", 95396, "Severance", "2022", { calibration_sentence: null });
+    store = createMemoryStore({ cards: [...posted, unfinished] });
+    setRepositories(createMemoryRepositories(store));
+
+    const response = await GET(cronRequest("afternoon"));
+    expect(await response.json()).toEqual({ message: "No eligible cards to post" });
+    expect(store.pendingPosts).toEqual([]);
+    expect(sendPostPreviewEmail).not.toHaveBeenCalled();
+  });
+});
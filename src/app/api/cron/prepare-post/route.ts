@@ -1,10 +1,10 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import { getRepositories, PostSlot } from "@/lib/repositories";
 import { sendPostPreviewEmail } from "@/lib/email";
+import { ensureOgImageUrl } from "@/lib/og-storage";
+import { getTmdbPopularity } from "@/lib/tmdb";
 import crypto from "crypto";
 
-type PostSlot = "morning" | "afternoon" | "evening";
-
 const PRESTIGE_GENRES = [
   "Drama",
   "Crime",
@@ -15,13 +15,6 @@ const PRESTIGE_GENRES = [
   "Documentary",
 ];
 
-function getSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.SUPABASE_SERVICE_ROLE_KEY!
-  );
-}
-
 function verifyCronRequest(request: Request): boolean {
   const authHeader = request.headers.get("authorization");
   if (authHeader === `Bearer ${process.env.CRON_SECRET}`) {
@@ -34,22 +27,6 @@ function verifyCronRequest(request: Request): boolean {
   return false;
 }
 
-async function getTmdbPopularity(
-  tmdbId: number,
-  mediaType: string
-): Promise<number> {
-  try {
-    const res = await fetch(
-      `https://api.themoviedb.org/3/${mediaType}/${tmdbId}`,
-      { headers: { Authorization: `Bearer ${process.env.TMDB_API_TOKEN}` } }
-    );
-    const data = await res.json();
-    return data.popularity || 0;
-  } catch {
-    return 0;
-  }
-}
-
 // Get scheduled post time based on slot (in UTC)
 function getScheduledTime(slot: PostSlot): Date {
   const now = new Date();
@@ -78,7 +55,7 @@ export async function GET(request: Request) {
   }
 
   try {
-    const supabase = getSupabase();
+    const { cards: cardsRepo, pendingPosts } = getRepositories();
 
     // Parse slot from query params
     const url = new URL(request.url);
@@ -89,17 +66,9 @@ export async function GET(request: Request) {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-    const { data: cards, error } = await supabase
-      .from("cards")
-      .select("*")
-      .not("calibration_sentence", "is", null)
-      .not("slug", "is", null)
-      .or(
-        `last_posted_at.is.null,last_posted_at.lt.${thirtyDaysAgo.toISOString()}`
-      )
-      .limit(50);
-
-    if (error || !cards || cards.length === 0) {
+    const cards = await cardsRepo.listPostable("last_posted_at", thirtyDaysAgo, 50);
+
+    if (cards.length === 0) {
       console.log("[Prepare] No eligible cards found");
       return NextResponse.json({ message: "No eligible cards to post" });
     }
@@ -110,7 +79,7 @@ export async function GET(request: Request) {
     if (slot === "morning") {
       // Morning: Classic titles (released before 2015)
       filteredCards = cards.filter((card) => {
-        const year = parseInt(card.year);
+        const year = parseInt(card.year || "");
         return !isNaN(year) && year < 2015;
       });
       console.log(
@@ -160,17 +129,17 @@ export async function GET(request: Request) {
     const tokenExpiresAt = new Date(scheduledFor.getTime() + 60 * 60 * 1000); // 1 hour after scheduled time
 
     // Create pending post record
-    const { error: insertError } = await supabase.from("pending_posts").insert({
-      slot,
-      scheduled_for: scheduledFor.toISOString(),
-      selected_card_id: selectedCard.id,
-      alternative_card_ids: alternativeCards.map((c) => c.id),
-      approval_token: approvalToken,
-      token_expires_at: tokenExpiresAt.toISOString(),
-      status: "pending",
-    });
-
-    if (insertError) {
+    try {
+      await pendingPosts.create({
+        slot,
+        scheduled_for: scheduledFor.toISOString(),
+        selected_card_id: selectedCard.id,
+        alternative_card_ids: alternativeCards.map((c) => c.id),
+        approval_token: approvalToken,
+        token_expires_at: tokenExpiresAt.toISOString(),
+        status: "pending",
+      });
+    } catch (insertError) {
       console.error("[Prepare] Failed to create pending post:", insertError);
       return NextResponse.json(
         { error: "Failed to create pending post" },
@@ -186,6 +155,8 @@ export async function GET(request: Request) {
         approvalToken,
         slot,
         scheduledFor,
+        // Compact fits the email column without scaling a full-size image down
+        imageUrl: await ensureOgImageUrl(selectedCard, "compact"),
       });
       console.log(`[Prepare] Preview email sent for ${selectedCard.title}`);
     } catch (emailError) {
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import { GET as getOgImage } from "../og/[...id]/route";
+import { POST } from "./route";
+
+// The whole offline flow: TMDB fixtures, the mock model and the in-memory store
+
+function generate(body: Record<string, unknown>): Promise<Response> {
+  return POST(new Request("https://example.test/api/generate", { method: "POST", body: JSON.stringify(body) }));
+}
+
+describe("POST /api/generate offline", () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    vi.stubEnv("OFFLINE_MODE", "1");
+    vi.stubEnv("TMDB_CACHE", "off");
+    vi.stubEnv("MOCK_LLM_FIRST_CHUNK_DELAY_MS", "0");
+    vi.stubEnv("MOCK_LLM_CHUNK_DELAY_MS", "0");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    store = createMemoryStore();
+    setRepositories(createMemoryRepositories(store));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    setRepositories(null);
+  });
+
+  it("streams a card, saves it with its link preview image, and serves it from the store after", async () => {
+    const response = await generate({ tmdbId: 136315, mediaType: "tv" });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-Cache")).toBe("MISS");
+    expect(response.headers.get("X-Provider")).toBe("mock");
+
+    const text = await response.text();
+    expect(text).toContain("*The Bear* looks like");
+    const cardInfo = JSON.parse(text.match(/__CARD_INFO__(.*)__END_CARD_INFO__/)![1]);
+    expect(cardInfo.slug).toBe("the-bear-2022");
+
+    expect(store.cards).toHaveLength(1);
+    const [card] = store.cards;
+    expect(card).toMatchObject({ id: cardInfo.id, provider: "mock", validation: { remaining: [] } });
+    expect(card.comparisons?.map((c) => c.slug)).toEqual(["succession-2018", "the-office-2005", "ted-lasso-2020"]);
+    expect(Object.keys(card.og_images || {})).toEqual(["landscape"]);
+    expect(store.ogImages.has(card.og_images!.landscape!.path)).toBe(true);
+
+    const cached = await generate({ tmdbId: 136315, mediaType: "tv" });
+    expect(cached.headers.get("X-Cache")).toBe("HIT");
+
+    const image = await getOgImage(new Request("https://example.test/api/og/the-bear-2022?format=square"), {
+      params: { id: ["the-bear-2022"] },
+    });
+    expect(image.headers.get("Content-Type")).toBe("image/png");
+  });
+
+  it("returns 503 when the model fails", async () => {
+    vi.stubEnv("MOCK_LLM_FAILURE", "error");
+    const response = await generate({ tmdbId: 136315, mediaType: "tv" });
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: "All AI providers failed. Please try again." });
+    expect(store.cards).toHaveLength(0);
+  });
+
+  it("fails only every Nth call with MOCK_LLM_FAIL_EVERY", async () => {
+    vi.stubEnv("MOCK_LLM_FAILURE", "error");
+    vi.stubEnv("MOCK_LLM_FAIL_EVERY", "2");
+    const statuses = [];
+    for (const tmdbId of [95396, 97546]) {
+      const response = await generate({ tmdbId, mediaType: "tv" });
+      await response.text();
+      statuses.push(response.status);
+    }
+    expect(statuses.sort()).toEqual([200, 503]);
+    expect(store.cards).toHaveLength(1);
+  });
+
+  it("gives up on a model that stalls or starts too slowly", async () => {
+    vi.useFakeTimers();
+    const timedOut = async () => {
+      const pending = generate({ tmdbId: 136315, mediaType: "tv" });
+      await vi.advanceTimersByTimeAsync(30_000);
+      return (await pending).status;
+    };
+
+    vi.stubEnv("MOCK_LLM_FAILURE", "timeout");
+    expect(await timedOut()).toBe(503);
+
+    vi.stubEnv("MOCK_LLM_FAILURE", "");
+    vi.stubEnv("MOCK_LLM_FIRST_CHUNK_DELAY_MS", "20000");
+    expect(await timedOut()).toBe(503);
+    expect(store.cards).toHaveLength(0);
+  });
+});
@@ -1,75 +1,20 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { SYSTEM_PROMPT } from "@/lib/system-prompt";
-import { searchMedia, getMediaById, formatContextForClaude, MediaInfo, resolveComparisonTitle } from "@/lib/tmdb";
-import { getCachedCard, saveCard, parseComparisons, generateSlug, Comparison } from "@/lib/supabase";
-
-const anthropic = new Anthropic();
-const gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-
-const STREAM_TIMEOUT_MS = 8000; // 8 seconds between chunks before timeout
-const GEMINI_MODEL = "gemini-2.5-flash-lite-preview-06-17";
-const CLAUDE_MODEL = "claude-sonnet-4-20250514";
-
-// Helper to get first chunk with timeout (proves stream is working)
-async function getFirstChunk(
-  stream: AsyncIterable<string>
-): Promise<{ firstChunk: string; iterator: AsyncIterator<string> }> {
-  const iterator = stream[Symbol.asyncIterator]();
-
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error("Stream timeout")), STREAM_TIMEOUT_MS);
-  });
-
-  const result = await Promise.race([iterator.next(), timeoutPromise]);
-  if (result.done) {
-    return { firstChunk: "", iterator };
-  }
-  return { firstChunk: result.value, iterator };
-}
-
-// Generate with Claude (primary)
-async function generateWithClaude(userMessage: string): Promise<AsyncIterable<string>> {
-  const stream = anthropic.messages.stream({
-    model: CLAUDE_MODEL,
-    max_tokens: 1024,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: "user", content: userMessage }],
-  });
-
-  return {
-    async *[Symbol.asyncIterator]() {
-      for await (const event of stream) {
-        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
-          yield event.delta.text;
-        }
-      }
-    },
-  };
-}
-
-// Generate with Gemini (fallback)
-async function generateWithGemini(userMessage: string): Promise<AsyncIterable<string>> {
-  const model = gemini.getGenerativeModel({
-    model: GEMINI_MODEL,
-    systemInstruction: SYSTEM_PROMPT,
-  });
-
-  const result = await model.generateContentStream(userMessage);
-
-  return {
-    async *[Symbol.asyncIterator]() {
-      for await (const chunk of result.stream) {
-        const text = chunk.text();
-        if (text) yield text;
-      }
-    },
-  };
-}
+import { CURRENT_PROMPT } from "@/lib/prompts";
+import { searchMedia, getMediaById, getMediaScope, MediaInfo } from "@/lib/tmdb";
+import { TmdbNotFoundError } from "@/lib/tmdb-errors";
+import { formatScope, scopeFromInput, scopeLabel } from "@/lib/card-scope";
+import { getCachedCard, saveCard, Comparison } from "@/lib/supabase";
+import { revalidateBrowsePages } from "@/lib/browse";
+import { refreshOgImages } from "@/lib/og-storage";
+import { parseCardDocument } from "@/lib/card-document";
+import { buildCardRequest, resolveComparisons, validateAndRepair } from "@/lib/card-generation";
+import { estimateCost, getProviderChain, streamWithFallback } from "@/lib/llm";
+
+// Shift+click on the home page forces Claude; no other provider may be requested
+const FORCEABLE_PROVIDERS = ["claude", "gemini"];
 
 export async function POST(request: Request) {
   try {
-    const { title, tmdbId, mediaType, forceProvider } = await request.json();
+    const { title, tmdbId, mediaType, forceProvider, season, episode } = await request.json();
 
     // Need either a title to search, or a tmdbId + mediaType to fetch directly
     if (!title && !tmdbId) {
@@ -79,6 +24,22 @@ export async function POST(request: Request) {
       });
     }
 
+    if (forceProvider !== undefined && !FORCEABLE_PROVIDERS.includes(forceProvider)) {
+      return new Response(JSON.stringify({ error: "Invalid provider" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Optional season (and episode) for a card about part of a series
+    const scope = scopeFromInput(season, episode);
+    if ((season !== undefined && season !== null && !scope) || (!scope && episode)) {
+      return new Response(JSON.stringify({ error: "Invalid season or episode" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Fetch TMDB data - either by ID (disambiguation) or by search
     let mediaInfo: MediaInfo | null = null;
     try {
@@ -93,10 +54,33 @@ export async function POST(request: Request) {
       console.error("TMDB fetch failed:", error);
     }
 
+    if (scope) {
+      if (mediaInfo?.mediaType !== "tv") {
+        return new Response(JSON.stringify({ error: "Season and episode cards need a TV series" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      try {
+        mediaInfo.scope = await getMediaScope(mediaInfo.id, scope);
+      } catch (error) {
+        const notFound = error instanceof TmdbNotFoundError;
+        if (!notFound) console.error("TMDB season fetch failed:", error);
+        return new Response(
+          JSON.stringify({
+            error: notFound
+              ? `${mediaInfo.title} has no ${scopeLabel(scope).toLowerCase()}`
+              : "Couldn't load that season. Please try again.",
+          }),
+          { status: notFound ? 404 : 503, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // Check cache if we have a TMDB ID
     if (mediaInfo?.id) {
       try {
-        const cached = await getCachedCard(mediaInfo.id);
+        const cached = await getCachedCard(mediaInfo.id, mediaInfo.mediaType, scope);
         if (cached) {
           const metadata = JSON.stringify({
             type: "metadata",
@@ -107,9 +91,12 @@ export async function POST(request: Request) {
               year: cached.year,
               posterUrl: cached.poster_url,
               mediaType: cached.media_type,
+              scope: cached.scope,
+              scopeName: cached.scope_name,
               genres: cached.genres || [],
               calibrationSentence: cached.calibration_sentence,
               comparisons: cached.comparisons || [],
+              cardDocument: cached.card_document || parseCardDocument(cached.card_content),
             },
           });
 
@@ -129,54 +116,25 @@ export async function POST(request: Request) {
     }
 
     // Generate new card
-    const tmdbContext = mediaInfo ? formatContextForClaude(mediaInfo) : "";
-    const userMessage = tmdbContext
-      ? `Here is information about the title:\n\n${tmdbContext}\n\nBased on this information and your knowledge, create an emotional calibration card for "${mediaInfo?.title || title}". IMPORTANT: Use this exact title "${mediaInfo?.title}" throughout your response.`
-      : `Create an emotional calibration card for "${title}".`;
-
-    // Use forced provider or try Gemini first (faster), fall back to Claude
-    let provider = forceProvider === "claude" ? CLAUDE_MODEL : GEMINI_MODEL;
-    let firstChunk = "";
-    let iterator: AsyncIterator<string>;
-
-    if (forceProvider === "claude") {
-      try {
-        const stream = await generateWithClaude(userMessage);
-        const result = await getFirstChunk(stream);
-        firstChunk = result.firstChunk;
-        iterator = result.iterator;
-      } catch (claudeError) {
-        console.error("Claude failed:", claudeError);
-        return new Response(
-          JSON.stringify({ error: "Claude failed. Please try again." }),
-          { status: 503, headers: { "Content-Type": "application/json" } }
-        );
-      }
-    } else {
-      try {
-        const stream = await generateWithGemini(userMessage);
-        const result = await getFirstChunk(stream);
-        firstChunk = result.firstChunk;
-        iterator = result.iterator;
-      } catch (geminiError) {
-        console.error("Gemini failed or timed out, trying Claude:", geminiError);
-        provider = CLAUDE_MODEL;
+    const cardRequest = buildCardRequest(title, mediaInfo);
 
-        try {
-          const stream = await generateWithClaude(userMessage);
-          const result = await getFirstChunk(stream);
-          firstChunk = result.firstChunk;
-          iterator = result.iterator;
-        } catch (claudeError) {
-          console.error("Claude also failed:", claudeError);
-          return new Response(
-            JSON.stringify({ error: "All AI providers failed. Please try again." }),
-            { status: 503, headers: { "Content-Type": "application/json" } }
-          );
-        }
-      }
+    // Walk the card chain (Gemini then Claude by default); forceProvider pins a single provider
+    const chain = getProviderChain("card", forceProvider);
+    let started: Awaited<ReturnType<typeof streamWithFallback>>;
+    try {
+      started = await streamWithFallback(cardRequest, chain);
+    } catch (error) {
+      console.error("No provider could generate the card:", error);
+      return new Response(
+        JSON.stringify({
+          error: forceProvider ? `${forceProvider} failed. Please try again.` : "All AI providers failed. Please try again.",
+        }),
+        { status: 503, headers: { "Content-Type": "application/json" } }
+      );
     }
 
+    const { provider, firstChunk, iterator } = started;
+
     const encoder = new TextEncoder();
     let fullContent = firstChunk;
 
@@ -190,8 +148,10 @@ export async function POST(request: Request) {
               data: {
                 title: mediaInfo.title,
                 year: mediaInfo.year,
-                posterUrl: mediaInfo.posterUrl,
+                posterUrl: mediaInfo.scope?.posterUrl || mediaInfo.posterUrl,
                 mediaType: mediaInfo.mediaType,
+                scope: formatScope(scope),
+                scopeName: mediaInfo.scope?.name || null,
                 genres: mediaInfo.genres,
               },
             });
@@ -206,7 +166,7 @@ export async function POST(request: Request) {
           // Continue streaming the rest
           while (true) {
             const timeoutPromise = new Promise<never>((_, reject) => {
-              setTimeout(() => reject(new Error("Stream timeout")), STREAM_TIMEOUT_MS);
+              setTimeout(() => reject(new Error("Stream timeout")), provider.timeoutMs);
             });
 
             const result = await Promise.race([iterator.next(), timeoutPromise]);
@@ -216,63 +176,65 @@ export async function POST(request: Request) {
             controller.enqueue(encoder.encode(result.value));
           }
 
+          console.log(
+            `Generated "${mediaInfo?.title || title}" with ${provider.model}, ~$${estimateCost(provider, cardRequest.system + cardRequest.prompt, fullContent).toFixed(4)}`
+          );
+
           // Save to cache after generation completes (await to ensure it completes before function ends)
           if (mediaInfo && fullContent) {
             try {
-              // Parse and resolve comparisons from the generated content
-              const parsedComparisons = parseComparisons(fullContent);
+              // Parse and check the card once (repairing rule violations), then resolve its comparisons
+              const { cardContent, cardDocument, validation } = await validateAndRepair(fullContent, mediaInfo.title);
               let resolvedComparisons: Comparison[] = [];
 
-              if (parsedComparisons.length > 0) {
-                console.log(`Resolving ${parsedComparisons.length} comparisons...`);
-                const resolutionPromises = parsedComparisons.map(async (pc) => {
-                  const resolved = await resolveComparisonTitle(pc.title);
-                  if (resolved) {
-                    return {
-                      title: resolved.title,
-                      original_title: pc.title, // Store original for matching
-                      tmdb_id: resolved.tmdb_id,
-                      media_type: resolved.media_type,
-                      year: resolved.year,
-                      slug: generateSlug(resolved.title, resolved.year),
-                      phrase: pc.phrase,
-                    } as Comparison;
-                  }
-                  return null;
-                });
-
-                const results = await Promise.all(resolutionPromises);
-                resolvedComparisons = results.filter((c): c is Comparison => c !== null);
-                console.log(`Resolved ${resolvedComparisons.length} comparisons successfully`);
+              if (cardDocument.comparisons.length > 0) {
+                console.log(`Resolving ${cardDocument.comparisons.length} comparisons...`);
+                const { comparisons, failed } = await resolveComparisons(cardDocument.comparisons);
+                resolvedComparisons = comparisons;
+                console.log(`Resolved ${resolvedComparisons.length - failed.length} comparisons successfully`);
+                if (failed.length > 0) {
+                  console.log(
+                    `TMDB unavailable for ${failed.length} comparisons of "${mediaInfo.title}"; stored unlinked for \`backfill comparisons\``
+                  );
+                }
               }
 
               const savedCard = await saveCard({
                 tmdbId: mediaInfo.id,
+                scope,
+                scopeName: mediaInfo.scope?.name || null,
                 title: mediaInfo.title,
                 mediaType: mediaInfo.mediaType,
                 year: mediaInfo.year,
-                posterUrl: mediaInfo.posterUrl,
+                posterUrl: mediaInfo.scope?.posterUrl || mediaInfo.posterUrl,
                 genres: mediaInfo.genres,
-                cardContent: fullContent,
+                cardContent,
+                cardDocument,
                 comparisons: resolvedComparisons.length > 0 ? resolvedComparisons : null,
-                provider,
+                provider: provider.model,
+                promptVersion: CURRENT_PROMPT.version,
+                validation,
               });
 
-              // Send card ID, slug, calibration sentence, and comparisons at the end of the stream
+              // Send card ID, slug, calibration sentence, comparisons and structure at the end of the stream
               if (savedCard) {
                 const cardInfo = JSON.stringify({
                   id: savedCard.id,
                   slug: savedCard.slug,
                   calibrationSentence: savedCard.calibrationSentence,
                   comparisons: savedCard.comparisons,
+                  cardDocument: savedCard.cardDocument,
                 });
                 controller.enqueue(encoder.encode(`__CARD_INFO__${cardInfo}__END_CARD_INFO__`));
 
-                // Pre-warm the OG image cache so it's ready for social sharing
-                const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch";
-                fetch(`${baseUrl}/api/og/${savedCard.slug}`).catch(() => {
-                  // Ignore errors - this is just cache warming
-                });
+                // Store the link preview image before the stream ends. Posts and emails store
+                // the other formats when they first need them; /api/og serves them until then.
+                await refreshOgImages(savedCard.id, ["landscape"]);
+
+                // Browse pages list whole-title cards
+                if (!scope) {
+                  revalidateBrowsePages();
+                }
               }
             } catch (saveError) {
               console.error("Failed to save card:", saveError);
@@ -292,7 +254,7 @@ export async function POST(request: Request) {
         "Content-Type": "text/plain; charset=utf-8",
         "Transfer-Encoding": "chunked",
         "X-Cache": "MISS",
-        "X-Provider": provider,
+        "X-Provider": provider.model,
       },
     });
   } catch (error) {
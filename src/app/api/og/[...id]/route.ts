@@ -0,0 +1,64 @@
+import { getCardBySlugOrId } from "@/lib/supabase";
+import { OG_FORMATS, parseOgFormat } from "@/lib/og-images";
+import { renderMessageImage } from "@/lib/og-card";
+import { renderOgImage } from "@/lib/og-storage";
+import { isOgLayout, isOgTheme, OG_LAYOUTS, OG_THEMES, resolveOgTemplate } from "@/lib/og-templates";
+
+// Node runtime so the card lookup goes through the repositories (and works
+// against the in-memory store offline)
+export const runtime = "nodejs";
+
+function badRequest(error: string) {
+  return new Response(JSON.stringify({ error }), {
+    status: 400,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// GET /api/og/<card>?format=landscape|square|story|compact (landscape by default).
+// ?layout= and ?theme= preview a template other than the one stored on the card.
+// Pages link the pre-rendered copy in storage (og-storage.ts) where it's current;
+// this route renders on demand for previews and cards not yet stored.
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string[] } }
+) {
+  // Season and episode slugs span two segments ("the-bear-2022/s2")
+  const id = params.id.join("/");
+  const { searchParams } = new URL(request.url);
+
+  const format = parseOgFormat(searchParams.get("format"));
+  if (!format) {
+    return badRequest(`Unknown format; use one of: ${Object.keys(OG_FORMATS).join(", ")}`);
+  }
+  const layout = searchParams.get("layout");
+  if (layout && !isOgLayout(layout)) {
+    return badRequest(`Unknown layout; use one of: ${OG_LAYOUTS.map((l) => l.name).join(", ")}`);
+  }
+  const theme = searchParams.get("theme");
+  if (theme && !isOgTheme(theme)) {
+    return badRequest(`Unknown theme; use one of: ${Object.keys(OG_THEMES).join(", ")}`);
+  }
+
+  try {
+    const card = await getCardBySlugOrId(id);
+
+    if (!card) {
+      return renderMessageImage("Card not found", format);
+    }
+
+    const template = resolveOgTemplate(card, {
+      layout: layout && isOgLayout(layout) ? layout : null,
+      theme: theme && isOgTheme(theme) ? theme : null,
+    });
+
+    return renderOgImage(card, { format, ...template }, {
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600',
+    });
+  } catch (err) {
+    return renderMessageImage(`OG ERROR: ${err instanceof Error ? err.message : String(err)}`, format, {
+      color: "red",
+      fontSize: 28,
+    });
+  }
+}
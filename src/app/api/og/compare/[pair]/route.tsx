@@ -0,0 +1,173 @@
+/* eslint-disable @next/next/no-img-element */
+import { ImageResponse } from "@vercel/og";
+import { canonicalOrder, getVersus, resolvePair } from "@/lib/versus";
+import { posterDataURL } from "@/lib/og-images";
+
+// Node runtime so the card lookup goes through the repositories (and works
+// against the in-memory store offline)
+export const runtime = "nodejs";
+
+const SHARED_TRAITS = 3;
+
+function Poster({ dataUrl, title }: { dataUrl: string | null; title: string }) {
+  return (
+    <div
+      style={{
+        width: 260,
+        height: 390,
+        borderRadius: 16,
+        overflow: "hidden",
+        backgroundColor: "#222",
+        flexShrink: 0,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      {dataUrl ? (
+        <img src={dataUrl} alt={title} width={260} height={390} style={{ objectFit: "cover" }} />
+      ) : (
+        <div style={{ color: "#666", fontSize: 20, padding: 20, textAlign: "center" }}>{title}</div>
+      )}
+    </div>
+  );
+}
+
+// GET /api/og/compare/<a>-vs-<b>: both posters side by side with the top shared traits
+export async function GET(
+  request: Request,
+  { params }: { params: { pair: string } }
+) {
+  try {
+    const pair = await resolvePair(params.pair);
+
+    if (!pair) {
+      return new ImageResponse(
+        (
+          <div
+            style={{
+              width: 1200,
+              height: 630,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              backgroundColor: "#0a0a0a",
+              color: "white",
+              fontSize: 48,
+            }}
+          >
+            Comparison not found
+          </div>
+        ),
+        { width: 1200, height: 630 }
+      );
+    }
+
+    // Crawlers fetching the image don't trigger a model call; the page does that
+    const [a, b] = canonicalOrder(pair.a, pair.b);
+    const versus = await getVersus(a, b, { generate: false });
+    const [posterA, posterB] = await Promise.all([posterDataURL(a.poster_url), posterDataURL(b.poster_url)]);
+    const traits = versus.shared.slice(0, SHARED_TRAITS);
+    const titleSize = a.title.length + b.title.length > 36 ? 36 : 44;
+
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: 1200,
+            height: 630,
+            display: "flex",
+            backgroundColor: "#0a0a0a",
+            color: "white",
+            padding: 48,
+            gap: 40,
+            alignItems: "center",
+          }}
+        >
+          <Poster dataUrl={posterA} title={a.title} />
+
+          {/* Middle */}
+          <div
+            style={{
+              flexGrow: 1,
+              height: 534,
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              textAlign: "center",
+            }}
+          >
+            {/* Branding */}
+            <div style={{ fontSize: 16, letterSpacing: 4, color: "#666", marginBottom: 24 }}>
+              TEXTURE
+            </div>
+
+            {/* Titles */}
+            <div style={{ fontSize: titleSize, fontWeight: 700, display: "flex" }}>{a.title}</div>
+            <div style={{ fontSize: 20, letterSpacing: 6, color: "#8b5cf6", margin: "12px 0" }}>VS</div>
+            <div style={{ fontSize: titleSize, fontWeight: 700, display: "flex", marginBottom: 36 }}>{b.title}</div>
+
+            {/* Shared traits */}
+            {traits.length > 0 && (
+              <div style={{ fontSize: 14, letterSpacing: 3, color: "#888", marginBottom: 14 }}>SHARED DNA</div>
+            )}
+            <div style={{ display: "flex", flexWrap: "wrap", justifyContent: "center", gap: 10 }}>
+              {traits.map((trait) => (
+                <div
+                  key={trait}
+                  style={{
+                    fontSize: 20,
+                    color: "#e0e0e0",
+                    border: "2px solid #8b5cf6",
+                    borderRadius: 999,
+                    padding: "6px 16px",
+                  }}
+                >
+                  {trait}
+                </div>
+              ))}
+            </div>
+
+            {/* Spacer */}
+            <div style={{ flexGrow: 1 }}></div>
+
+            {/* Tagline */}
+            <div style={{ fontSize: 16, color: "#555" }}>
+              texture.watch
+            </div>
+          </div>
+
+          <Poster dataUrl={posterB} title={b.title} />
+        </div>
+      ),
+      {
+        width: 1200,
+        height: 630,
+        headers: {
+          'Cache-Control': 'public, max-age=3600, s-maxage=3600',
+        },
+      }
+    );
+  } catch (err) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: 1200,
+            height: 630,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            backgroundColor: "#0a0a0a",
+            color: "red",
+            fontSize: 28,
+            padding: 40,
+          }}
+        >
+          OG ERROR: {err instanceof Error ? err.message : String(err)}
+        </div>
+      ),
+      { width: 1200, height: 630 }
+    );
+  }
+}
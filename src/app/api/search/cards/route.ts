@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getRepositories } from "@/lib/repositories";
+import { CardSearchResult, parseSnippet } from "@/lib/card-search";
+import { scopedTitle } from "@/lib/card-scope";
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// GET /api/search/cards?q=slow+burn+dread[&limit=10]
+// Full-text search over the cards we've generated (not TMDB)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = (searchParams.get("q") || "").trim();
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(searchParams.get("limit")) || DEFAULT_LIMIT));
+
+  if (!query) {
+    return NextResponse.json({ error: "Query is required" }, { status: 400 });
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json({ error: "Query is too long" }, { status: 400 });
+  }
+
+  try {
+    const hits = await getRepositories().cards.search(query, limit);
+    const results: CardSearchResult[] = hits.map(({ card, snippet }) => ({
+      id: card.id,
+      slug: card.slug,
+      title: scopedTitle(card.title, card.scope, card.scope_name),
+      year: card.year,
+      mediaType: card.media_type,
+      posterUrl: card.poster_url,
+      calibrationSentence: card.calibration_sentence,
+      snippet: parseSnippet(snippet),
+    }));
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Card search failed:", error);
+    return NextResponse.json({ error: "Search failed. Please try again." }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { searchMediaMultiple } from "@/lib/tmdb";
-import { getCachedCard } from "@/lib/supabase";
+import { getCachedTitleKeys, titleKey } from "@/lib/supabase";
 
 export async function POST(request: Request) {
   try {
@@ -15,16 +15,16 @@ export async function POST(request: Request) {
     const results = await searchMediaMultiple(query, 5);
 
     // Check which ones are already cached
-    const resultsWithCache = await Promise.all(
-      results.map(async (result) => {
-        try {
-          const cached = await getCachedCard(result.id);
-          return { ...result, isCached: !!cached };
-        } catch {
-          return { ...result, isCached: false };
-        }
-      })
-    );
+    let cachedKeys = new Set<string>();
+    try {
+      cachedKeys = await getCachedTitleKeys(results);
+    } catch (error) {
+      console.error("Cache check failed:", error);
+    }
+    const resultsWithCache = results.map((result) => ({
+      ...result,
+      isCached: cachedKeys.has(titleKey(result.mediaType, result.id)),
+    }));
 
     return new Response(JSON.stringify({ results: resultsWithCache }), {
       headers: { "Content-Type": "application/json" },
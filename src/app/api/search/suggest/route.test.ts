@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearSuggestionCache } from "@/lib/autocomplete";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import * as tmdb from "@/lib/tmdb";
+import { GET } from "./route";
+
+async function suggest(query: string): Promise<Response> {
+  return GET(new Request(`https://example.test/api/search/suggest?q=${encodeURIComponent(query)}`));
+}
+
+describe("GET /api/search/suggest", () => {
+  beforeEach(() => {
+    vi.stubEnv("TMDB_MOCK", "1");
+    vi.stubEnv("TMDB_CACHE", "off");
+    setRepositories(createMemoryRepositories(createMemoryStore()));
+    clearSuggestionCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setRepositories(null);
+  });
+
+  it("lets the CDN cache complete suggestions", async () => {
+    const response = await suggest("the be");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toContain("s-maxage=300");
+  });
+
+  it("doesn't let anything cache suggestions missing a failed source", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(tmdb, "searchMediaMultiple").mockRejectedValueOnce(new Error("TMDB is down"));
+
+    const response = await suggest("the be");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(await response.json()).toEqual({ suggestions: [] });
+  });
+});
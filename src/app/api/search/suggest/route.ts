@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getSuggestions } from "@/lib/autocomplete";
+
+const MAX_QUERY_LENGTH = 100;
+
+// GET /api/search/suggest?q=the+be
+// Search-as-you-type suggestions for the home page. Responses are cached per
+// prefix here and by the browser/CDN; a request the client aborts still
+// finishes in the background and warms the cache for the next keystroke.
+// Degraded results (a source failed) aren't cached anywhere.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q") || "";
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json({ error: "Query is too long" }, { status: 400 });
+  }
+
+  try {
+    const { suggestions, degraded } = await getSuggestions(query);
+    return NextResponse.json(
+      { suggestions },
+      {
+        headers: {
+          "Cache-Control": degraded ? "no-store" : "public, max-age=60, s-maxage=300, stale-while-revalidate=3600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Autocomplete failed:", error);
+    return NextResponse.json({ error: "Suggestions are unavailable" }, { status: 500 });
+  }
+}
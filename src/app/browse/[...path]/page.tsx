@@ -0,0 +1,117 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import CardGrid from "@/components/CardGrid";
+import {
+  BrowseSection,
+  getBrowseIndex,
+  getBrowsePage,
+  parseBrowsePath,
+  sectionPath,
+  sectionTitle,
+} from "@/lib/browse";
+
+interface PageProps {
+  // ["tv"], ["genre", "horror"], ["decade", "1990s", "2"]
+  params: { path: string[] };
+}
+
+// Regenerated hourly, and when the site saves a card (see revalidateBrowsePages).
+// Later pages aren't prebuilt; they're rendered on first request.
+export const revalidate = 3600;
+
+export async function generateStaticParams(): Promise<PageProps["params"][]> {
+  try {
+    const index = await getBrowseIndex();
+    return [...index.media, ...index.genres, ...index.decades].map(({ section }) => ({
+      path: sectionPath(section).split("/").slice(2),
+    }));
+  } catch (error) {
+    // No data store at build time: every page renders on first request instead
+    console.error("Failed to list browse pages:", error);
+    return [];
+  }
+}
+
+async function resolve(params: PageProps["params"]): Promise<{ section: BrowseSection; page: number } | null> {
+  return parseBrowsePath(params.path, await getBrowseIndex());
+}
+
+function describe(section: BrowseSection): string {
+  if (section.kind === "media") {
+    return `What ${section.mediaType === "tv" ? "TV series" : "films"} feel like to watch, before you start.`;
+  }
+  if (section.kind === "genre") {
+    return `What ${section.genre.toLowerCase()} films and TV series feel like to watch, before you start.`;
+  }
+  return `What films and TV series from the ${section.decade}s feel like to watch, before you start.`;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const resolved = await resolve(params);
+  if (!resolved) {
+    return { title: "Not Found | Texture" };
+  }
+
+  const { section, page } = resolved;
+  const title = `${sectionTitle(section)}${page > 1 ? ` (page ${page})` : ""} | Texture`;
+  return {
+    title,
+    description: describe(section),
+    alternates: {
+      canonical: `${process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch"}${sectionPath(section, page)}`,
+    },
+    openGraph: { title, description: describe(section), type: "website", siteName: "Texture" },
+  };
+}
+
+export default async function BrowsePage({ params }: PageProps) {
+  const resolved = await resolve(params);
+  if (!resolved) {
+    notFound();
+  }
+
+  const { section, page } = resolved;
+  const { cards, total, pageCount } = await getBrowsePage(section, page);
+  if (page > pageCount) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <div className="mx-auto max-w-4xl px-6 py-16">
+        <header className="mb-12 text-center">
+          <a href="/" className="inline-block">
+            <p className="text-5xl font-semibold tracking-wide text-zinc-900 dark:text-zinc-100">Texture</p>
+          </a>
+          <h1 className="mt-6 text-2xl font-semibold text-zinc-900 dark:text-zinc-100">{sectionTitle(section)}</h1>
+          <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
+            {total} {total === 1 ? "card" : "cards"}
+            {pageCount > 1 && <> &middot; page {page} of {pageCount}</>}
+          </p>
+        </header>
+
+        <CardGrid cards={cards} />
+
+        <nav className="mt-10 flex items-center justify-between text-sm">
+          {page > 1 ? (
+            <a href={sectionPath(section, page - 1)} rel="prev" className="text-zinc-600 hover:underline dark:text-zinc-400">
+              ← Previous
+            </a>
+          ) : (
+            <span />
+          )}
+          <a href="/browse" className="text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200">
+            All genres and decades
+          </a>
+          {page < pageCount ? (
+            <a href={sectionPath(section, page + 1)} rel="next" className="text-zinc-600 hover:underline dark:text-zinc-400">
+              Next →
+            </a>
+          ) : (
+            <span />
+          )}
+        </nav>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Metadata } from "next";
+import { BrowseLink, getStaticBrowseIndex, sectionPath, sectionTitle } from "@/lib/browse";
+
+// Regenerated hourly, and when the site saves a card (see revalidateBrowsePages)
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: "Browse | Texture",
+  description: "Emotional calibration cards for films and TV series, by genre and decade.",
+  alternates: {
+    canonical: `${process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch"}/browse`,
+  },
+};
+
+function SectionLinks({ heading, links }: { heading: string; links: BrowseLink[] }) {
+  if (links.length === 0) return null;
+  return (
+    <section className="mb-10">
+      <h2 className="mb-3 text-sm font-medium text-zinc-900 dark:text-zinc-100">{heading}</h2>
+      <div className="flex flex-wrap gap-2">
+        {links.map(({ section, count }) => (
+          <a
+            key={sectionPath(section)}
+            href={sectionPath(section)}
+            className="rounded-full bg-zinc-100 px-3 py-1 text-sm font-medium text-zinc-700 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+          >
+            {sectionTitle(section)} <span className="text-zinc-400 dark:text-zinc-500">{count}</span>
+          </a>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export default async function BrowseIndexPage() {
+  const index = await getStaticBrowseIndex();
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <div className="mx-auto max-w-4xl px-6 py-16">
+        <header className="mb-12 text-center">
+          <a href="/" className="inline-block">
+            <p className="text-5xl font-semibold tracking-wide text-zinc-900 dark:text-zinc-100">Texture</p>
+          </a>
+          <h1 className="mt-2 text-zinc-600 dark:text-zinc-400">Browse cards</h1>
+        </header>
+
+        <SectionLinks heading="Films and TV" links={index.media} />
+        <SectionLinks heading="Genres" links={index.genres} />
+        <SectionLinks heading="Decades" links={index.decades} />
+
+        {index.media.length === 0 && (
+          <p className="text-center text-zinc-500 dark:text-zinc-400">No cards yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
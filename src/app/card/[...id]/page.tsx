@@ -0,0 +1,299 @@
+import { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import Image from "next/image";
+import { CachedCard, getCachedCard, getCardBySlugOrId, getScopedCards, isSafeSlug } from "@/lib/supabase";
+import { getMediaById } from "@/lib/tmdb";
+import { parseScope, scopedTitle, scopeLabel } from "@/lib/card-scope";
+import { sectionPath } from "@/lib/browse";
+import { cardJsonLd, serializeJsonLd } from "@/lib/structured-data";
+import { getVersusLinks } from "@/lib/versus";
+import { cardOgImageUrl } from "@/lib/og-storage";
+import ShareButton from "@/components/ShareButton";
+import CardContent from "@/components/CardContent";
+
+interface PageProps {
+  // Season and episode slugs span two segments ("the-bear-2022/s2")
+  params: { id: string[] };
+}
+
+function displayTitle(card: CachedCard): string {
+  return scopedTitle(card.title, card.scope, card.scope_name);
+}
+
+interface SeasonLink {
+  label: string;
+  href: string;
+  hasCard: boolean;
+  current: boolean;
+}
+
+// Links between a show's card and its season/episode cards. Seasons without a
+// card yet link to the home page, which generates one.
+async function getSeasonLinks(card: CachedCard): Promise<{ show: CachedCard | null; links: SeasonLink[] }> {
+  if (card.media_type !== "tv" || card.tmdb_id === null) {
+    return { show: null, links: [] };
+  }
+  const tmdbId = card.tmdb_id;
+
+  const [show, scoped, seasonCount] = await Promise.all([
+    card.scope ? getCachedCard(tmdbId, "tv") : card,
+    getScopedCards(tmdbId, "tv"),
+    getMediaById(tmdbId, "tv")
+      .then((media) => media?.seasons || 0)
+      .catch((error) => {
+        console.error(`Failed to load seasons for ${card.title}:`, error);
+        return 0;
+      }),
+  ]);
+
+  const links: SeasonLink[] = [];
+  for (let season = 1; season <= seasonCount; season++) {
+    const seasonCard = scoped.find((c) => c.scope === `s${season}`);
+    links.push({
+      label: `Season ${season}`,
+      href: seasonCard?.slug ? `/card/${seasonCard.slug}` : `/?tv=${tmdbId}&season=${season}`,
+      hasCard: Boolean(seasonCard?.slug),
+      current: seasonCard?.id === card.id,
+    });
+  }
+  // Episode cards, and season cards TMDB no longer lists
+  for (const scopedCard of scoped) {
+    const scope = parseScope(scopedCard.scope);
+    if (scopedCard.slug && scope && (scope.episode || scope.season > seasonCount)) {
+      links.push({
+        label: scopeLabel(scope, scopedCard.scope_name),
+        href: `/card/${scopedCard.slug}`,
+        hasCard: true,
+        current: scopedCard.id === card.id,
+      });
+    }
+  }
+
+  return { show, links };
+}
+
+// Generate dynamic metadata for OG tags
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const card = await getCardBySlugOrId(params.id.join("/"));
+
+  if (!card) {
+    return {
+      title: "Card Not Found | Texture",
+    };
+  }
+
+  const description = card.calibration_sentence || "Know what it's like before you watch.";
+  // Use slug for the canonical URL if available, fallback to id
+  const cardIdentifier = card.slug || card.id;
+  // The stored render when it's current, else the on-demand route
+  const ogImageUrl = cardOgImageUrl(card);
+  const title = displayTitle(card);
+
+  return {
+    title: `${title} | Texture`,
+    description,
+    alternates: {
+      canonical: `${process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch"}/card/${cardIdentifier}`,
+    },
+    openGraph: {
+      title: `${title} | Texture`,
+      description,
+      images: [
+        {
+          url: ogImageUrl,
+          width: 1200,
+          height: 630,
+          alt: `${title} emotional calibration card`,
+        },
+      ],
+      type: "article",
+      siteName: "Texture",
+    },
+    twitter: {
+      card: "summary_large_image",
+      site: "@texturewatch",
+      title: `${title} | Texture`,
+      description,
+      images: {
+        url: ogImageUrl,
+        alt: `Emotional calibration card for ${title}`,
+      },
+    },
+  };
+}
+
+export default async function CardPage({ params }: PageProps) {
+  const requested = params.id.join("/");
+  const card = await getCardBySlugOrId(requested);
+
+  if (!card) {
+    notFound();
+  }
+
+  // UUID links and slugs the card used to have redirect to its current slug. The
+  // middleware answers UUID links with a 301 first; old slugs only get here.
+  if (card.slug && card.slug !== requested && isSafeSlug(card.slug)) {
+    permanentRedirect(`/card/${card.slug}`);
+  }
+
+  const [{ show, links: seasonLinks }, versusLinks] = await Promise.all([getSeasonLinks(card), getVersusLinks(card)]);
+
+  // Use slug for URL if available, fallback to id
+  const cardIdentifier = card.slug || card.id;
+  const cardUrl = `${process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch"}/card/${cardIdentifier}`;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(cardJsonLd(card, cardUrl)) }}
+      />
+      <div className="mx-auto max-w-2xl px-6 py-16">
+        <header className="mb-12 text-center">
+          <a href="/" className="inline-block">
+            <h1 className="text-5xl font-semibold tracking-wide text-zinc-900 dark:text-zinc-100">
+              Texture
+            </h1>
+          </a>
+          <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+            Know what it&apos;s like before you watch
+          </p>
+        </header>
+
+        <article className="prose prose-zinc dark:prose-invert max-w-none">
+          <div className="rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900 relative">
+            {/* Share Button */}
+            <div className="absolute top-4 right-4">
+              <ShareButton
+                url={cardUrl}
+                title={displayTitle(card)}
+                calibrationSentence={card.calibration_sentence}
+                imageUrl={cardOgImageUrl(card, "story")}
+              />
+            </div>
+
+            {/* Card Header */}
+            <div className="mb-6 flex gap-5">
+              {card.poster_url && (
+                <div className="flex-shrink-0">
+                  <Image
+                    src={card.poster_url}
+                    alt={card.title}
+                    width={120}
+                    height={180}
+                    className="rounded-md shadow-md"
+                  />
+                </div>
+              )}
+              <div>
+                <h2 className="m-0 text-xl font-semibold text-zinc-900 dark:text-zinc-100">
+                  {card.title}
+                </h2>
+                <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+                  {card.year} &middot; {card.media_type === "tv" ? "TV Series" : "Film"}
+                  {card.scope && <> &middot; {scopeLabel(parseScope(card.scope), card.scope_name)}</>}
+                </p>
+                {card.genres && card.genres.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {card.genres.map((genre) => (
+                      <a
+                        key={genre}
+                        href={sectionPath({ kind: "genre", genre })}
+                        className="rounded-full bg-zinc-100 px-2.5 py-0.5 text-xs font-medium text-zinc-600 no-underline hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                      >
+                        {genre}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Card Content */}
+            <div className="border-t border-zinc-100 pt-5 dark:border-zinc-800">
+              <CardContent
+                content={card.card_content}
+                cardDocument={card.card_document}
+                comparisons={card.comparisons}
+              />
+            </div>
+          </div>
+        </article>
+
+        {/* Seasons */}
+        {seasonLinks.length > 0 && (
+          <nav className="mt-8 rounded-lg border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-zinc-900">
+            <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+              {card.scope && show?.slug ? (
+                <a href={`/card/${show.slug}`} className="hover:underline">
+                  ← {card.title}
+                </a>
+              ) : (
+                "By season"
+              )}
+            </h3>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {seasonLinks.map((link) =>
+                link.current ? (
+                  <span
+                    key={link.href}
+                    className="rounded-full bg-zinc-900 px-3 py-1 text-xs font-medium text-white dark:bg-zinc-100 dark:text-zinc-900"
+                  >
+                    {link.label}
+                  </span>
+                ) : (
+                  <a
+                    key={link.href}
+                    href={link.href}
+                    className={
+                      link.hasCard
+                        ? "rounded-full bg-zinc-100 px-3 py-1 text-xs font-medium text-zinc-700 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                        : "rounded-full border border-dashed border-zinc-300 px-3 py-1 text-xs font-medium text-zinc-500 hover:border-zinc-400 dark:border-zinc-700 dark:text-zinc-400"
+                    }
+                  >
+                    {link.label}
+                  </a>
+                )
+              )}
+            </div>
+          </nav>
+        )}
+
+        {/* Versus pages for comparisons that have cards */}
+        {versusLinks.length > 0 && (
+          <nav className="mt-8 rounded-lg border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-zinc-900">
+            <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">Side by side</h3>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {versusLinks.map((link) => (
+                <a
+                  key={link.href}
+                  href={link.href}
+                  className="rounded-full bg-zinc-100 px-3 py-1 text-xs font-medium text-zinc-700 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                >
+                  {card.title} vs {link.title}
+                </a>
+              ))}
+            </div>
+          </nav>
+        )}
+
+        {/* Back to search */}
+        <div className="mt-8 text-center">
+          <a
+            href="/"
+            className="text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            ← Search for another title
+          </a>
+          <span className="mx-2 text-zinc-300 dark:text-zinc-700">·</span>
+          <a
+            href="/browse"
+            className="text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            Browse all cards
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
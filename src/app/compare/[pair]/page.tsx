@@ -0,0 +1,167 @@
+import { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import Image from "next/image";
+import { CachedCard } from "@/lib/supabase";
+import { canonicalOrder, getVersus, resolvePair, versusPath } from "@/lib/versus";
+
+interface PageProps {
+  // "<a-slug>-vs-<b-slug>"
+  params: { pair: string };
+}
+
+function TitleColumn({ card }: { card: CachedCard }) {
+  return (
+    <a href={`/card/${card.slug || card.id}`} className="group flex flex-1 flex-col items-center text-center">
+      {card.poster_url ? (
+        <Image src={card.poster_url} alt={card.title} width={160} height={240} className="rounded-md shadow-md" />
+      ) : (
+        <div className="flex h-60 w-40 items-center justify-center rounded-md bg-zinc-200 text-xs text-zinc-400 dark:bg-zinc-700">
+          No img
+        </div>
+      )}
+      <span className="mt-3 font-semibold text-zinc-900 group-hover:underline dark:text-zinc-100">{card.title}</span>
+      <span className="text-sm text-zinc-500 dark:text-zinc-400">
+        {card.year} · {card.media_type === "tv" ? "TV Series" : "Film"}
+      </span>
+      {card.calibration_sentence && (
+        <p className="mt-2 text-xs italic leading-relaxed text-zinc-600 dark:text-zinc-400">{card.calibration_sentence}</p>
+      )}
+    </a>
+  );
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const pair = await resolvePair(params.pair);
+  if (!pair) {
+    return { title: "Comparison Not Found | Texture" };
+  }
+
+  const [a, b] = canonicalOrder(pair.a, pair.b);
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch";
+  const path = versusPath(a, b);
+  const title = `${a.title} vs ${b.title} | Texture`;
+  const description = `What ${a.title} and ${b.title} share, and where they differ, in how they feel to watch.`;
+  const ogImageUrl = `${baseUrl}/api/og${path}`;
+
+  return {
+    title,
+    description,
+    alternates: { canonical: `${baseUrl}${path}` },
+    openGraph: {
+      title,
+      description,
+      images: [{ url: ogImageUrl, width: 1200, height: 630, alt: `${a.title} vs ${b.title}` }],
+      type: "article",
+      siteName: "Texture",
+    },
+    twitter: {
+      card: "summary_large_image",
+      site: "@texturewatch",
+      title,
+      description,
+      images: { url: ogImageUrl, alt: `${a.title} vs ${b.title}` },
+    },
+  };
+}
+
+export default async function ComparePage({ params }: PageProps) {
+  const pair = await resolvePair(params.pair);
+  if (!pair) {
+    notFound();
+  }
+
+  // One URL per pair: old slugs and the reversed order redirect
+  const [a, b] = canonicalOrder(pair.a, pair.b);
+  if (versusPath(a, b) !== `/compare/${params.pair}`) {
+    permanentRedirect(versusPath(a, b));
+  }
+
+  const versus = await getVersus(a, b);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <div className="mx-auto max-w-2xl px-6 py-16">
+        <header className="mb-12 text-center">
+          <a href="/" className="inline-block">
+            <p className="text-5xl font-semibold tracking-wide text-zinc-900 dark:text-zinc-100">Texture</p>
+          </a>
+          <h1 className="mt-6 text-2xl font-semibold text-zinc-900 dark:text-zinc-100">
+            {a.title} vs {b.title}
+          </h1>
+        </header>
+
+        <div className="flex items-start gap-6">
+          <TitleColumn card={a} />
+          <span className="mt-28 text-sm font-medium tracking-widest text-zinc-400">VS</span>
+          <TitleColumn card={b} />
+        </div>
+
+        <section className="mt-10 rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          {versus.shared.length > 0 && (
+            <>
+              <h2 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">Shared DNA</h2>
+              <div className="mt-3 flex flex-wrap gap-2">
+                {versus.shared.map((trait) => (
+                  <span
+                    key={trait}
+                    className="rounded-full bg-violet-100 px-3 py-1 text-xs font-medium text-violet-800 dark:bg-violet-950 dark:text-violet-300"
+                  >
+                    {trait}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+
+          {versus.contrasts.length > 0 && (
+            <>
+              <h2 className="mt-6 text-sm font-medium text-zinc-900 dark:text-zinc-100">Where they differ</h2>
+              <table className="mt-3 w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-zinc-500 dark:text-zinc-400">
+                    <th className="w-1/2 pb-2 font-medium">{a.title}</th>
+                    <th className="w-1/2 pb-2 font-medium">{b.title}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {versus.contrasts.map((contrast) => (
+                    <tr key={`${contrast.a}|${contrast.b}`} className="border-t border-zinc-100 dark:border-zinc-800">
+                      <td className="py-2 pr-4 text-zinc-700 dark:text-zinc-300">{contrast.a}</td>
+                      <td className="py-2 text-zinc-700 dark:text-zinc-300">{contrast.b}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {versus.verdict && (
+            <>
+              <h2 className="mt-6 text-sm font-medium text-zinc-900 dark:text-zinc-100">Verdict</h2>
+              <p className="mt-2 border-l-4 border-violet-500 pl-4 italic text-zinc-700 dark:text-zinc-300">
+                {versus.verdict}
+              </p>
+              {versus.linkedFrom && (
+                <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  From our card for{" "}
+                  <a href={`/card/${versus.linkedFrom.slug || versus.linkedFrom.id}`} className="underline">
+                    {versus.linkedFrom.title}
+                  </a>
+                </p>
+              )}
+            </>
+          )}
+        </section>
+
+        <div className="mt-8 text-center">
+          <a
+            href="/"
+            className="text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            ← Search for another title
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,11 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import Image from "next/image";
 import ShareButton from "@/components/ShareButton";
 import CardContent, { ComparisonData } from "@/components/CardContent";
+import CardSearchResults from "@/components/CardSearchResults";
+import { CardSearchResult } from "@/lib/card-search";
+import { CardDocument } from "@/lib/card-document";
+import { parseScope, scopeLabel } from "@/lib/card-scope";
+import type { Suggestion } from "@/lib/autocomplete";
 
 interface MediaMetadata {
   id?: string;
@@ -12,9 +17,12 @@ interface MediaMetadata {
   year: string;
   posterUrl: string | null;
   mediaType: "movie" | "tv";
+  scope?: string; // "s2" / "s2e6" for season and episode cards
+  scopeName?: string | null;
   genres: string[];
   calibrationSentence?: string | null;
   comparisons?: ComparisonData[] | null;
+  cardDocument?: CardDocument | null;
 }
 
 interface SearchResult {
@@ -51,6 +59,35 @@ function sortSearchResults(results: SearchResult[], query: string): SearchResult
   });
 }
 
+// Our own cards matching the query (an empty list if card search fails; TMDB search still runs)
+async function searchCards(query: string): Promise<CardSearchResult[]> {
+  try {
+    const response = await fetch(`/api/search/cards?q=${encodeURIComponent(query)}&limit=5`);
+    if (!response.ok) return [];
+    const { results } = await response.json();
+    return results;
+  } catch {
+    return [];
+  }
+}
+
+// Suggestions start at the API's minimum prefix length, once typing pauses
+const MIN_SUGGEST_LENGTH = 2;
+const SUGGEST_DELAY_MS = 200;
+
+// Search-as-you-type suggestions (an empty list on failure; submitting still searches).
+// Lowercased so every casing of a prefix shares the browser's cached response.
+async function fetchSuggestions(query: string, signal: AbortSignal): Promise<Suggestion[]> {
+  try {
+    const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(query.trim().toLowerCase())}`, { signal });
+    if (!response.ok) return [];
+    const { suggestions } = await response.json();
+    return suggestions;
+  } catch {
+    return [];
+  }
+}
+
 export default function Home() {
   const [title, setTitle] = useState("");
   const [card, setCard] = useState("");
@@ -59,29 +96,78 @@ export default function Home() {
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [cardMatches, setCardMatches] = useState<CardSearchResult[]>([]);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [highlightIndex, setHighlightIndex] = useState(0);
   const abortControllerRef = useRef<AbortController | null>(null);
   const [forceProviderRef, setForceProviderRef] = useState<string | undefined>();
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
+  const suggestTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const suggestAbortRef = useRef<AbortController | null>(null);
+
+  // Suggestions show while typing, until the disambiguation list replaces them
+  const showSuggestions = suggestions.length > 0 && searchResults.length === 0 && !isLoading && !isSearching;
 
   // Reset highlight when results change
   useEffect(() => {
     setHighlightIndex(0);
   }, [searchResults]);
 
+  // Nothing is highlighted in fresh suggestions, so Enter still submits what was typed.
+  // Clearing them (which happens alongside new results) leaves the results' highlight alone.
+  useEffect(() => {
+    if (suggestions.length > 0) {
+      setHighlightIndex(-1);
+    }
+  }, [suggestions]);
+
   // Scroll highlighted item into view
   useEffect(() => {
-    if (listRef.current && searchResults.length > 0) {
+    if (listRef.current && (searchResults.length > 0 || suggestions.length > 0)) {
       const highlightedItem = listRef.current.querySelector(`[data-index="${highlightIndex}"]`);
       if (highlightedItem) {
         highlightedItem.scrollIntoView({ block: "nearest" });
       }
     }
-  }, [highlightIndex, searchResults.length]);
+  }, [highlightIndex, searchResults.length, suggestions.length]);
+
+  // Drop pending and in-flight suggestion requests and hide the list
+  const cancelSuggestions = useCallback(() => {
+    if (suggestTimerRef.current) {
+      clearTimeout(suggestTimerRef.current);
+      suggestTimerRef.current = null;
+    }
+    suggestAbortRef.current?.abort();
+    setSuggestions([]);
+  }, []);
+
+  // Debounced: each keystroke cancels the previous request
+  const requestSuggestions = useCallback((query: string) => {
+    cancelSuggestions();
+    if (query.trim().length < MIN_SUGGEST_LENGTH) return;
+
+    suggestTimerRef.current = setTimeout(async () => {
+      const controller = new AbortController();
+      suggestAbortRef.current = controller;
+      const results = await fetchSuggestions(query, controller.signal);
+      if (!controller.signal.aborted) {
+        setSuggestions(results);
+      }
+    }, SUGGEST_DELAY_MS);
+  }, [cancelSuggestions]);
+
+  useEffect(() => cancelSuggestions, [cancelSuggestions]);
 
   // Generate card for a specific media (by ID or title)
-  const generateCard = useCallback(async (params: { title?: string; tmdbId?: number; mediaType?: "movie" | "tv"; forceProvider?: string }) => {
+  const generateCard = useCallback(async (params: {
+    title?: string;
+    tmdbId?: number;
+    mediaType?: "movie" | "tv";
+    season?: number;
+    episode?: number;
+    forceProvider?: string;
+  }) => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
@@ -91,6 +177,8 @@ export default function Home() {
     setMetadata(null);
     setError("");
     setSearchResults([]);
+    setCardMatches([]);
+    cancelSuggestions();
 
     abortControllerRef.current = new AbortController();
 
@@ -103,7 +191,8 @@ export default function Home() {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to generate card");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to generate card");
       }
 
       const reader = response.body?.getReader();
@@ -147,7 +236,7 @@ export default function Home() {
           if (cardInfoMatch) {
             try {
               const cardInfo = JSON.parse(cardInfoMatch[1]);
-              // Update metadata with card ID, slug, calibration sentence, and comparisons
+              // Update metadata with card ID, slug, calibration sentence, comparisons and structure
               if (currentMetadata) {
                 setMetadata({
                   ...currentMetadata,
@@ -155,6 +244,7 @@ export default function Home() {
                   slug: cardInfo.slug,
                   calibrationSentence: cardInfo.calibrationSentence,
                   comparisons: cardInfo.comparisons || [],
+                  cardDocument: cardInfo.cardDocument || null,
                 });
               }
             } catch {
@@ -180,7 +270,18 @@ export default function Home() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [cancelSuggestions]);
+
+  // Season links on a show's card page land here as ?tv=<id>&season=<n>[&episode=<n>]
+  useEffect(() => {
+    const query = new URLSearchParams(window.location.search);
+    const tvId = Number(query.get("tv"));
+    const season = query.get("season");
+    if (tvId && season) {
+      const episode = query.get("episode");
+      generateCard({ tmdbId: tvId, mediaType: "tv", season: Number(season), episode: episode ? Number(episode) : undefined });
+    }
+  }, [generateCard]);
 
   // Search for a title - shows disambiguation if multiple results
   const searchTitle = useCallback(async (searchQuery: string, forceProvider?: string) => {
@@ -192,14 +293,20 @@ export default function Home() {
     setMetadata(null);
     setError("");
     setSearchResults([]);
+    setCardMatches([]);
+    cancelSuggestions();
     setForceProviderRef(forceProvider);
 
     try {
-      const response = await fetch("/api/search", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: searchQuery.trim() }),
-      });
+      // TMDB titles and our own cards (which also match moods like "slow burn dread")
+      const [response, matches] = await Promise.all([
+        fetch("/api/search", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ query: searchQuery.trim() }),
+        }),
+        searchCards(searchQuery.trim()),
+      ]);
 
       if (!response.ok) {
         throw new Error("Search failed");
@@ -207,7 +314,11 @@ export default function Home() {
 
       const { results } = await response.json();
 
-      if (results.length === 0) {
+      if (results.length === 0 && matches.length > 0) {
+        // Not a title, but it describes cards we have
+        setCardMatches(matches);
+        setIsSearching(false);
+      } else if (results.length === 0) {
         // No results, try generating anyway with just the title
         setIsSearching(false);
         generateCard({ title: searchQuery.trim(), forceProvider });
@@ -216,15 +327,16 @@ export default function Home() {
         setIsSearching(false);
         generateCard({ tmdbId: results[0].id, mediaType: results[0].mediaType, forceProvider });
       } else {
-        // Multiple results, show picker (sorted with exact matches first)
+        // Multiple results, show picker (sorted with exact matches first) and any matching cards
         setSearchResults(sortSearchResults(results, searchQuery));
+        setCardMatches(matches);
         setIsSearching(false);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Search failed");
       setIsSearching(false);
     }
-  }, [isLoading, isSearching, generateCard]);
+  }, [isLoading, isSearching, generateCard, cancelSuggestions]);
 
   // Handle selection from disambiguation picker
   const handleSelectResult = useCallback((result: SearchResult) => {
@@ -232,6 +344,18 @@ export default function Home() {
     generateCard({ tmdbId: result.id, mediaType: result.mediaType, forceProvider: forceProviderRef });
   }, [generateCard, forceProviderRef]);
 
+  // Handle selection from the suggestions; cards we have open straight from the cache
+  const handleSelectSuggestion = useCallback((suggestion: Suggestion) => {
+    setTitle(suggestion.title);
+    const scope = parseScope(suggestion.scope);
+    generateCard({
+      tmdbId: suggestion.tmdbId,
+      mediaType: suggestion.mediaType,
+      season: scope?.season,
+      episode: scope?.episode,
+    });
+  }, [generateCard]);
+
   // Handle comparison title click - uses TMDB ID if available (skips search/disambiguation)
   const handleTitleClick = useCallback((clickedTitle: string, tmdbId?: number, mediaType?: "movie" | "tv") => {
     setTitle(clickedTitle);
@@ -249,29 +373,39 @@ export default function Home() {
     // Ignore if composing (IME input)
     if (e.nativeEvent.isComposing) return;
 
-    // Only handle navigation when disambiguation list is visible
-    if (searchResults.length === 0) return;
+    // Only handle navigation when the disambiguation list or suggestions are visible
+    if (searchResults.length === 0 && !showSuggestions) return;
+
+    // Suggestions can be un-highlighted (-1) by moving up past the first one
+    const count = searchResults.length > 0 ? searchResults.length : suggestions.length;
+    const first = searchResults.length > 0 ? 0 : -1;
 
     switch (e.key) {
       case "ArrowDown":
         e.preventDefault();
-        setHighlightIndex((prev) => Math.min(prev + 1, searchResults.length - 1));
+        setHighlightIndex((prev) => Math.min(prev + 1, count - 1));
         break;
       case "ArrowUp":
         e.preventDefault();
-        setHighlightIndex((prev) => Math.max(prev - 1, 0));
+        setHighlightIndex((prev) => Math.max(prev - 1, first));
         break;
       case "Enter":
-        e.preventDefault();
-        handleSelectResult(searchResults[highlightIndex]);
+        if (searchResults.length > 0) {
+          e.preventDefault();
+          handleSelectResult(searchResults[Math.max(highlightIndex, 0)]);
+        } else if (highlightIndex >= 0) {
+          e.preventDefault();
+          handleSelectSuggestion(suggestions[highlightIndex]);
+        }
         break;
       case "Escape":
         e.preventDefault();
         setSearchResults([]);
+        cancelSuggestions();
         inputRef.current?.focus();
         break;
     }
-  }, [searchResults, highlightIndex, handleSelectResult]);
+  }, [searchResults, suggestions, showSuggestions, highlightIndex, handleSelectResult, handleSelectSuggestion, cancelSuggestions]);
 
   const handleSubmit = (e: React.FormEvent | React.MouseEvent) => {
     e.preventDefault();
@@ -289,24 +423,97 @@ export default function Home() {
           <p className="mt-2 text-zinc-600 dark:text-zinc-400">
             Know what it&apos;s like before you watch
           </p>
+          <a
+            href="/browse"
+            className="mt-1 inline-block text-sm text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            or browse by genre and decade
+          </a>
         </header>
 
         <form onSubmit={handleSubmit} className="mb-10">
           <div className="flex gap-3">
-            <input
-              ref={inputRef}
-              type="text"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Enter a show or movie title..."
-              className="flex-1 rounded-lg border border-zinc-200 bg-white px-4 py-3 text-zinc-900 placeholder-zinc-400 focus:border-zinc-400 focus:outline-none focus:ring-1 focus:ring-zinc-400 dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-100 dark:placeholder-zinc-500 dark:focus:border-zinc-600 dark:focus:ring-zinc-600"
-              disabled={isLoading || isSearching}
-              role={searchResults.length > 0 ? "combobox" : undefined}
-              aria-expanded={searchResults.length > 0}
-              aria-controls={searchResults.length > 0 ? "disambiguation-list" : undefined}
-              aria-activedescendant={searchResults.length > 0 ? `result-${highlightIndex}` : undefined}
-            />
+            <div className="relative flex-1">
+              <input
+                ref={inputRef}
+                type="text"
+                value={title}
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  requestSuggestions(e.target.value);
+                }}
+                onKeyDown={handleKeyDown}
+                onBlur={cancelSuggestions}
+                placeholder="Enter a title, or a feeling like “slow burn dread”..."
+                className="w-full rounded-lg border border-zinc-200 bg-white px-4 py-3 text-zinc-900 placeholder-zinc-400 focus:border-zinc-400 focus:outline-none focus:ring-1 focus:ring-zinc-400 dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-100 dark:placeholder-zinc-500 dark:focus:border-zinc-600 dark:focus:ring-zinc-600"
+                disabled={isLoading || isSearching}
+                role={searchResults.length > 0 || showSuggestions ? "combobox" : undefined}
+                aria-expanded={searchResults.length > 0 || showSuggestions}
+                aria-controls={searchResults.length > 0 ? "disambiguation-list" : showSuggestions ? "suggestion-list" : undefined}
+                aria-activedescendant={
+                  searchResults.length > 0
+                    ? `result-${highlightIndex}`
+                    : showSuggestions && highlightIndex >= 0
+                      ? `suggestion-${highlightIndex}`
+                      : undefined
+                }
+              />
+              {showSuggestions && (
+                <div
+                  ref={listRef}
+                  id="suggestion-list"
+                  role="listbox"
+                  aria-label="Suggestions"
+                  className="absolute left-0 right-0 top-full z-10 mt-1 max-h-96 overflow-y-auto rounded-lg border border-zinc-200 bg-white shadow-lg dark:border-zinc-800 dark:bg-zinc-900"
+                >
+                  {suggestions.map((suggestion, index) => (
+                    <button
+                      key={`${suggestion.mediaType}-${suggestion.tmdbId}-${suggestion.scope}`}
+                      type="button"
+                      id={`suggestion-${index}`}
+                      data-index={index}
+                      role="option"
+                      aria-selected={index === highlightIndex}
+                      // Keep focus in the input so blur doesn't hide the list before the click lands
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => handleSelectSuggestion(suggestion)}
+                      onMouseEnter={() => setHighlightIndex(index)}
+                      className={`w-full flex items-center gap-3 px-3 py-2 text-left transition-colors ${
+                        index === highlightIndex ? "bg-zinc-100 dark:bg-zinc-800" : ""
+                      }`}
+                    >
+                      {suggestion.posterUrl ? (
+                        <Image
+                          src={suggestion.posterUrl}
+                          alt={suggestion.title}
+                          width={32}
+                          height={48}
+                          className="rounded flex-shrink-0"
+                        />
+                      ) : (
+                        <div className="w-8 h-12 bg-zinc-200 dark:bg-zinc-700 rounded flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-zinc-900 dark:text-zinc-100 truncate">
+                            {suggestion.title}
+                          </span>
+                          <span className="flex-shrink-0 text-xs text-zinc-500 dark:text-zinc-400">
+                            {suggestion.year ? `${suggestion.year} · ` : ""}
+                            {suggestion.mediaType === "tv" ? "TV Series" : "Film"}
+                          </span>
+                        </div>
+                        {suggestion.subtitle && (
+                          <p className="text-xs italic text-zinc-500 dark:text-zinc-400 truncate">
+                            {suggestion.subtitle}
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <button
               type="submit"
               disabled={isLoading || isSearching || !title.trim()}
@@ -391,6 +598,8 @@ export default function Home() {
           </div>
         )}
 
+        {cardMatches.length > 0 && <CardSearchResults results={cardMatches} />}
+
         {(card || metadata) && (
           <article className="prose prose-zinc dark:prose-invert max-w-none">
             <div className="rounded-lg border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900 relative">
@@ -401,6 +610,7 @@ export default function Home() {
                     url={`${typeof window !== 'undefined' ? window.location.origin : ''}/card/${metadata.slug || metadata.id}`}
                     title={metadata.title}
                     calibrationSentence={metadata.calibrationSentence || null}
+                    imageUrl={`/api/og/${metadata.slug || metadata.id}?format=story`}
                   />
                 </div>
               )}
@@ -424,6 +634,7 @@ export default function Home() {
                     <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
                       {metadata.year} &middot;{" "}
                       {metadata.mediaType === "tv" ? "TV Series" : "Film"}
+                      {metadata.scope && <> &middot; {scopeLabel(parseScope(metadata.scope), metadata.scopeName)}</>}
                     </p>
                     {metadata.genres.length > 0 && (
                       <div className="mt-2 flex flex-wrap gap-1.5">
@@ -444,6 +655,7 @@ export default function Home() {
                 <div className={metadata ? "border-t border-zinc-100 pt-5 dark:border-zinc-800" : ""}>
                   <CardContent
                     content={card}
+                    cardDocument={metadata?.cardDocument}
                     comparisons={metadata?.comparisons}
                     onTitleClick={handleTitleClick}
                   />
@@ -0,0 +1,9 @@
+import { describe, expect, it } from "vitest";
+import robots from "./robots";
+
+describe("robots.txt", () => {
+  it("keeps crawlers out of the API but not the share images", () => {
+    const { rules } = robots();
+    expect(rules).toMatchObject({ allow: ["/", "/api/og/"], disallow: ["/admin", "/api/"] });
+  });
+});
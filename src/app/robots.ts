@@ -0,0 +1,11 @@
+import type { MetadataRoute } from "next";
+
+// /robots.txt. Share images under /api/og/ stay crawlable: link preview
+// fetchers and image search honour robots.txt.
+export default function robots(): MetadataRoute.Robots {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch";
+  return {
+    rules: { userAgent: "*", allow: ["/", "/api/og/"], disallow: ["/admin", "/api/"] },
+    sitemap: `${baseUrl}/sitemap.xml`,
+  };
+}
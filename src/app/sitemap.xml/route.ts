@@ -0,0 +1,17 @@
+import { countCardSitemaps, renderSitemapIndex, sitemapIndexUrls } from "@/lib/sitemap";
+
+export const revalidate = 3600;
+
+// GET /sitemap.xml — index of the page and card sitemaps (see src/lib/sitemap.ts)
+export async function GET() {
+  let cardSitemaps = 1;
+  try {
+    cardSitemaps = await countCardSitemaps();
+  } catch (error) {
+    console.error("Failed to count cards for the sitemap:", error);
+  }
+
+  return new Response(renderSitemapIndex(sitemapIndexUrls(cardSitemaps)), {
+    headers: { "Content-Type": "application/xml" },
+  });
+}
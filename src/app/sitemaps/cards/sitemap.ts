@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+import { cardSitemap, countCardSitemaps } from "@/lib/sitemap";
+
+export const revalidate = 3600;
+
+// /sitemaps/cards/sitemap/<id>.xml
+export async function generateSitemaps(): Promise<{ id: number }[]> {
+  let count = 1;
+  try {
+    count = await countCardSitemaps();
+  } catch (error) {
+    // No data store at build time: the first sitemap still renders on request
+    console.error("Failed to count cards for the sitemap:", error);
+  }
+  return Array.from({ length: count }, (_, id) => ({ id }));
+}
+
+export default function sitemap({ id }: { id: number }): Promise<MetadataRoute.Sitemap> {
+  return cardSitemap(Number(id));
+}
@@ -0,0 +1,9 @@
+import type { MetadataRoute } from "next";
+import { pageSitemap } from "@/lib/sitemap";
+
+export const revalidate = 3600;
+
+// /sitemaps/pages/sitemap.xml
+export default function sitemap(): Promise<MetadataRoute.Sitemap> {
+  return pageSitemap();
+}
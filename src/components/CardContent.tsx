@@ -2,12 +2,13 @@
 
 import React from "react";
 import Link from "next/link";
+import { CardDocument, CardSection, parseCardDocument } from "@/lib/card-document";
 
 export interface ComparisonData {
   title: string;
   original_title?: string;
-  tmdb_id: number;
-  media_type: "movie" | "tv";
+  tmdb_id: number | null; // null (with no slug) until TMDB resolves it
+  media_type: "movie" | "tv" | null;
   year: string;
   slug: string;
   phrase: string;
@@ -15,11 +16,15 @@ export interface ComparisonData {
 
 interface CardContentProps {
   content: string;
+  cardDocument?: CardDocument | null;
   comparisons?: ComparisonData[] | null;
   onTitleClick?: (title: string, tmdbId?: number, mediaType?: "movie" | "tv") => void;
 }
 
-export default function CardContent({ content, comparisons, onTitleClick }: CardContentProps) {
+// Documents stored before the heading was kept (re-parse them with `backfill calibration`)
+const FALLBACK_COMPARISONS_HEADING = "Compared to titles you may know";
+
+export default function CardContent({ content, cardDocument, comparisons, onTitleClick }: CardContentProps) {
   // Find comparison data by title (case-insensitive, checks both original and resolved titles)
   const findComparison = (title: string): ComparisonData | undefined => {
     if (!comparisons) return undefined;
@@ -43,7 +48,7 @@ export default function CardContent({ content, comparisons, onTitleClick }: Card
         return (
           <button
             key={keyId}
-            onClick={() => onTitleClick(comparison.title, comparison.tmdb_id, comparison.media_type)}
+            onClick={() => onTitleClick(comparison.title, comparison.tmdb_id ?? undefined, comparison.media_type ?? undefined)}
             className="italic text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 underline decoration-zinc-300 dark:decoration-zinc-600 hover:decoration-zinc-500 dark:hover:decoration-zinc-400 cursor-pointer bg-transparent border-none p-0 font-inherit transition-colors"
           >
             {title}
@@ -97,84 +102,69 @@ export default function CardContent({ content, comparisons, onTitleClick }: Card
     });
   };
 
-  // Check if line is a calibration sentence: "If [Title] felt [X], this feels/may feel [Y]"
-  const renderCalibrationSentence = (line: string, key: number) => {
-    // First, aggressively normalize the line - strip all asterisks and clean up spacing
-    let cleanLine = line.trim();
-
-    // Remove outer asterisks
-    cleanLine = cleanLine.replace(/^\*+|\*+$/g, "").trim();
-
-    // Fix common AI formatting errors: "*If*Title*" → "If Title"
-    // Replace patterns like "*If*" at the start with just "If "
-    cleanLine = cleanLine.replace(/^\*?If\*?\s*/i, "If ");
-
-    // Remove remaining asterisks around the title and normalize spaces
-    // Pattern: "If*Title*felt" → "If Title felt"
-    cleanLine = cleanLine.replace(/\*+/g, " ").replace(/\s+/g, " ").trim();
-
-    // Match calibration pattern - handle both "this feels" and "this may feel"
-    // Also handle when AI uses the movie title instead of "this" (e.g., "Napoleon Dynamite feels like")
-    // Now the line should be clean: "If Title felt X, this/MovieTitle feels Y"
-    const match = cleanLine.match(/^If\s+(.+?)\s+felt\s+(.+?),\s*(.+?)\s+((?:may\s+)?feel[s]?\s+.+)$/i);
-    if (match) {
-      const [, titlePart, feltPart, subjectPart, feelsPart] = match;
-      const cleanTitle = titlePart.trim();
-      // Strip trailing period from the ending
-      const cleanEnding = feelsPart.replace(/\.*$/, "").trim();
-      // Normalize subject to "this" for consistent display
-      const isThisSubject = subjectPart.toLowerCase().trim() === "this";
-      return (
-        <div key={key} className="mt-4 italic text-zinc-600 dark:text-zinc-400">
-          If <TitleLink title={cleanTitle} keyId={`${key}-cal`} /> felt {feltPart}, {isThisSubject ? "this" : subjectPart} {cleanEnding}
+  // Render prose lines, keeping any stray bullets the model emitted
+  const renderProse = (body: string, keyPrefix: string) =>
+    body.split("\n").map((line, i) => {
+      if (line.startsWith("- ")) {
+        return (
+          <div key={`${keyPrefix}-${i}`} className="flex gap-2 ml-2">
+            <span>-</span>
+            <span>{formatInline(line.slice(2), `${keyPrefix}-${i}`)}</span>
+          </div>
+        );
+      }
+      return <div key={`${keyPrefix}-${i}`}>{formatInline(line, `${keyPrefix}-${i}`)}</div>;
+    });
+
+  const renderSection = (section: CardSection | null, key: string) => {
+    if (!section) return null;
+    return (
+      <React.Fragment key={key}>
+        <div className="mt-4">
+          <strong>{section.heading}</strong>
         </div>
-      );
-    }
-    return null;
+        {section.body && renderProse(section.body, key)}
+      </React.Fragment>
+    );
   };
 
-  // Pre-process: fix Gemini's habit of putting "-" on its own line
-  const processedText = content.replace(/^-\s*\n/gm, "- ");
-
-  const lines = processedText.split("\n");
+  // Stored structure when we have it; otherwise parse the (possibly still streaming) markdown
+  const doc = cardDocument || parseCardDocument(content);
 
   return (
     <div className="space-y-1">
-      {lines.map((line, i) => {
-        // Handle comparison bullets: "- Title → description" or "- *Title* → description"
-        if (line.startsWith("- ")) {
-          const bulletContent = line.slice(2);
-          const arrowMatch = bulletContent.match(/^(.+?)\s*→\s*(.*)$/);
-
-          if (arrowMatch) {
-            const [, compTitle, description] = arrowMatch;
-            // Strip ALL asterisks from title (handles *Title*, Title*, *Title, etc.)
-            const cleanTitle = compTitle.trim().replace(/\*/g, "");
-            return (
-              <div key={i} className="flex gap-2 ml-2">
-                <span>-</span>
-                <span>
-                  <TitleLink title={cleanTitle} keyId={`${i}-title`} />
-                  <span> → {description}</span>
-                </span>
-              </div>
-            );
-          }
-
-          return (
-            <div key={i} className="flex gap-2 ml-2">
+      {doc.opening && renderProse(doc.opening, "opening")}
+      {renderSection(doc.howItFeels, "how-it-feels")}
+      {renderSection(doc.whatMakesItHeavy, "what-makes-it-heavy")}
+
+      {doc.comparisons.length > 0 && (
+        <>
+          <div className="mt-4">
+            <strong>{doc.comparisonsHeading || FALLBACK_COMPARISONS_HEADING}</strong>
+          </div>
+          {doc.comparisons.map((comparison, i) => (
+            <div key={`comparison-${i}`} className="flex gap-2 ml-2">
               <span>-</span>
-              <span>{formatInline(bulletContent, `${i}`)}</span>
+              <span>
+                <TitleLink title={comparison.title} keyId={`comparison-${i}-title`} />
+                <span> → {comparison.phrase}</span>
+              </span>
             </div>
-          );
-        }
-
-        // Check for calibration sentence
-        const calibration = renderCalibrationSentence(line, i);
-        if (calibration) return calibration;
+          ))}
+        </>
+      )}
+
+      {doc.calibration && (
+        <div className="mt-4 italic text-zinc-600 dark:text-zinc-400">
+          If <TitleLink title={doc.calibration.title} keyId="calibration" /> felt {doc.calibration.felt}, this{" "}
+          {doc.calibration.feels}
+        </div>
+      )}
+      {doc.calibrationNotes && (
+        <div className="italic text-zinc-600 dark:text-zinc-400">{renderProse(doc.calibrationNotes, "calibration-notes")}</div>
+      )}
 
-        return <div key={i}>{formatInline(line, `${i}`)}</div>;
-      })}
+      {renderSection(doc.worthKnowing, "worth-knowing")}
     </div>
   );
 }
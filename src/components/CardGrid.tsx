@@ -0,0 +1,46 @@
+import Image from "next/image";
+import { CachedCard } from "@/lib/supabase";
+
+interface CardGridProps {
+  cards: CachedCard[];
+}
+
+// Poster grid of cards with their calibration sentences, for browse pages
+export default function CardGrid({ cards }: CardGridProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4">
+      {cards.map((card) => (
+        <a
+          key={card.id}
+          href={`/card/${card.slug || card.id}`}
+          className="group flex flex-col rounded-lg border border-zinc-200 bg-white p-3 transition-colors hover:border-zinc-400 dark:border-zinc-800 dark:bg-zinc-900 dark:hover:border-zinc-600"
+        >
+          {card.poster_url ? (
+            <Image
+              src={card.poster_url}
+              alt={card.title}
+              width={200}
+              height={300}
+              className="aspect-[2/3] w-full rounded object-cover"
+            />
+          ) : (
+            <div className="flex aspect-[2/3] w-full items-center justify-center rounded bg-zinc-200 text-xs text-zinc-400 dark:bg-zinc-700">
+              No img
+            </div>
+          )}
+          <span className="mt-3 font-medium text-zinc-900 group-hover:underline dark:text-zinc-100">
+            {card.title}
+          </span>
+          <span className="text-xs text-zinc-500 dark:text-zinc-400">
+            {card.year} · {card.media_type === "tv" ? "TV Series" : "Film"}
+          </span>
+          {card.calibration_sentence && (
+            <p className="mt-2 line-clamp-4 text-xs italic leading-relaxed text-zinc-600 dark:text-zinc-400">
+              {card.calibration_sentence}
+            </p>
+          )}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import Image from "next/image";
+import { CardSearchResult } from "@/lib/card-search";
+
+interface CardSearchResultsProps {
+  results: CardSearchResult[];
+}
+
+// Cards from our own corpus that match a search, with matched words highlighted
+export default function CardSearchResults({ results }: CardSearchResultsProps) {
+  return (
+    <div className="mb-6">
+      <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">Cards that match</p>
+      <div className="space-y-2">
+        {results.map((result) => (
+          <a
+            key={result.id}
+            href={`/card/${result.slug || result.id}`}
+            className="flex items-start gap-4 rounded-lg border border-zinc-200 bg-white p-3 transition-colors hover:border-zinc-400 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-900 dark:hover:border-zinc-600 dark:hover:bg-zinc-800"
+          >
+            {result.posterUrl ? (
+              <Image
+                src={result.posterUrl}
+                alt={result.title}
+                width={48}
+                height={72}
+                className="rounded flex-shrink-0"
+              />
+            ) : (
+              <div className="w-12 h-18 bg-zinc-200 dark:bg-zinc-700 rounded flex-shrink-0 flex items-center justify-center text-zinc-400 text-xs">
+                No img
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              <span className="font-medium text-zinc-900 dark:text-zinc-100">{result.title}</span>
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                {result.year} · {result.mediaType === "tv" ? "TV Series" : "Film"}
+              </p>
+              <p className="mt-1 text-xs leading-relaxed text-zinc-500 dark:text-zinc-400">
+                {result.snippet.map((part, i) =>
+                  part.highlight ? (
+                    <mark key={i} className="rounded bg-amber-100 px-0.5 text-zinc-900 dark:bg-amber-900 dark:text-zinc-100">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={i}>{part.text}</span>
+                  )
+                )}
+              </p>
+            </div>
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
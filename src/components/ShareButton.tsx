@@ -1,17 +1,37 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 
 interface ShareButtonProps {
   url: string;
   title: string;
   calibrationSentence: string | null;
+  imageUrl?: string; // Story-sized card image offered by "Save image"
 }
 
-export default function ShareButton({ url, title, calibrationSentence }: ShareButtonProps) {
+// "the-bear-2022" style file name for a saved image
+function imageFileName(title: string): string {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${base || "card"}-texture.png`;
+}
+
+function downloadFile(file: File) {
+  const href = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(href);
+}
+
+export default function ShareButton({ url, title, calibrationSentence, imageUrl }: ShareButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [copiedType, setCopiedType] = useState<"link" | "sentence" | null>(null);
+  const [savingImage, setSavingImage] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<{ url: string; file: Promise<File> } | null>(null);
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -24,6 +44,31 @@ export default function ShareButton({ url, title, calibrationSentence }: ShareBu
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  // The image as a file, fetched once per URL. A failed fetch is retried next time.
+  const loadImage = useCallback((): Promise<File> | null => {
+    if (!imageUrl) return null;
+    if (imageRef.current?.url === imageUrl) return imageRef.current.file;
+
+    const file = fetch(imageUrl)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Image request failed: ${response.status}`);
+        return response.blob();
+      })
+      .then((blob) => new File([blob], imageFileName(title), { type: "image/png" }));
+    const entry = { url: imageUrl, file };
+    imageRef.current = entry;
+    file.catch(() => {
+      if (imageRef.current === entry) imageRef.current = null;
+    });
+    return file;
+  }, [imageUrl, title]);
+
+  // Start fetching when the menu opens: Safari only opens the share sheet
+  // shortly after the tap, so the image should be ready by the time it's chosen
+  useEffect(() => {
+    if (isOpen) loadImage();
+  }, [isOpen, loadImage]);
+
   const handleCopyLink = async () => {
     try {
       await navigator.clipboard.writeText(url);
@@ -53,6 +98,33 @@ export default function ShareButton({ url, title, calibrationSentence }: ShareBu
     }
   };
 
+  // Share sheet with the image attached where files can be shared (mostly
+  // mobile), otherwise a download
+  const handleSaveImage = async () => {
+    const image = loadImage();
+    if (!image) return;
+    setSavingImage(true);
+    try {
+      const file = await image;
+      if (navigator.canShare?.({ files: [file] })) {
+        try {
+          await navigator.share({ files: [file], title: `${title} | Texture` });
+        } catch (err) {
+          if ((err as Error).name !== "AbortError") {
+            downloadFile(file);
+          }
+        }
+      } else {
+        downloadFile(file);
+      }
+    } catch (err) {
+      console.error("Failed to save image:", err);
+    } finally {
+      setSavingImage(false);
+      setIsOpen(false);
+    }
+  };
+
   const handleShareToX = () => {
     // X text: calibration sentence only, truncate to ~180 chars if needed
     let text = calibrationSentence || `${title} on Texture`;
@@ -203,6 +275,28 @@ export default function ShareButton({ url, title, calibrationSentence }: ShareBu
               {copiedType === "sentence" ? "Copied!" : "Copy with sentence"}
             </button>
 
+            {/* Save Image (only with a sentence to show) */}
+            {imageUrl && calibrationSentence && (
+              <button onClick={handleSaveImage} disabled={savingImage} className={menuItemClass}>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                  <polyline points="7 10 12 15 17 10" />
+                  <line x1="12" y1="15" x2="12" y2="3" />
+                </svg>
+                {savingImage ? "Preparing..." : "Save image"}
+              </button>
+            )}
+
             <div className="my-1 border-t border-zinc-200 dark:border-zinc-700" />
 
             {/* Share to X */}
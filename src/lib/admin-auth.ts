@@ -0,0 +1,19 @@
+import { cookies } from "next/headers";
+import { getRepositories } from "@/lib/repositories";
+
+export const ADMIN_SESSION_COOKIE = "admin_session";
+
+// Whether the request carries a live admin session cookie
+export async function verifyAdmin(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(ADMIN_SESSION_COOKIE)?.value;
+
+  if (!token) return false;
+
+  try {
+    return !!(await getRepositories().sessions.getValid(token));
+  } catch (error) {
+    console.error("Session lookup failed:", error);
+    return false;
+  }
+}
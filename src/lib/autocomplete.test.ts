@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearSuggestionCache, getSuggestions } from "@/lib/autocomplete";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import { saveCard } from "@/lib/supabase";
+import * as tmdb from "@/lib/tmdb";
+
+describe("getSuggestions", () => {
+  const bear = {
+    tmdbId: 136315,
+    title: "The Bear",
+    mediaType: "tv",
+    year: "2022",
+    posterUrl: null,
+    genres: null,
+    cardContent: "A kitchen at full volume, all shouting and love.\n\nMore about it.",
+    provider: "mock",
+    promptVersion: "v1",
+  };
+
+  beforeEach(() => {
+    vi.stubEnv("TMDB_MOCK", "1");
+    vi.stubEnv("TMDB_CACHE", "off");
+    setRepositories(createMemoryRepositories(createMemoryStore()));
+    clearSuggestionCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setRepositories(null);
+  });
+
+  it("puts our cards first, with their calibration sentence, then TMDB titles we don't have", async () => {
+    const show = await saveCard(bear);
+    await saveCard({ ...bear, scope: { season: 2 } });
+
+    const { suggestions, degraded } = await getSuggestions("the");
+    expect(degraded).toBe(false);
+
+    expect(suggestions.slice(0, 2).map((s) => [s.title, s.slug])).toEqual([
+      ["The Bear", show.slug],
+      ["The Bear: Season 2", `${show.slug}/s2`],
+    ]);
+    expect(suggestions[0].subtitle).toBe(show.calibrationSentence);
+    // The Bear isn't suggested a second time from TMDB
+    const rest = suggestions.slice(2);
+    expect(rest.length).toBeGreaterThan(0);
+    expect(rest.every((s) => s.slug === null && s.subtitle === null && s.tmdbId !== 136315)).toBe(true);
+  });
+
+  it("caches suggestions per normalized prefix", async () => {
+    const first = await getSuggestions("The  Be");
+    await saveCard(bear);
+
+    expect((await getSuggestions(" the be ")).suggestions).toBe(first.suggestions);
+    clearSuggestionCache();
+    expect((await getSuggestions("the be")).suggestions[0].slug).not.toBeNull();
+  });
+
+  it("still suggests our cards when TMDB fails, but doesn't cache them", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const search = vi.spyOn(tmdb, "searchMediaMultiple").mockRejectedValueOnce(new Error("TMDB is down"));
+    const show = await saveCard(bear);
+
+    const degraded = await getSuggestions("the");
+    expect(degraded.degraded).toBe(true);
+    expect(degraded.suggestions.map((s) => s.slug)).toEqual([show.slug]);
+
+    const retried = await getSuggestions("the");
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(retried.degraded).toBe(false);
+    expect(retried.suggestions.length).toBeGreaterThan(1);
+  });
+
+  it("doesn't search for a single character", async () => {
+    expect(await getSuggestions("t")).toEqual({ suggestions: [], degraded: false });
+  });
+});
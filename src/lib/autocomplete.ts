@@ -0,0 +1,139 @@
+import { getRepositories } from "@/lib/repositories";
+import { searchMediaMultiple } from "@/lib/tmdb";
+import { scopedTitle } from "@/lib/card-scope";
+import { titleKey } from "@/lib/supabase";
+
+// Search-as-you-type suggestions: cards we already have (boosted, with their
+// calibration sentence as the subtitle) followed by TMDB titles without one.
+// Results are cached per normalized prefix for a few minutes on top of the
+// TMDB cache, so each keystroke of a popular prefix is one map lookup.
+// Results missing a source that failed aren't cached.
+
+export interface Suggestion {
+  tmdbId: number;
+  mediaType: "movie" | "tv";
+  title: string; // Includes the season or episode for scoped cards
+  year: string | null;
+  posterUrl: string | null;
+  subtitle: string | null; // Calibration sentence for cards we have
+  scope: string; // "s2" / "s2e6" for season and episode cards, otherwise ""
+  slug: string | null; // Set when we have a card
+}
+
+export interface SuggestionResult {
+  suggestions: Suggestion[];
+  degraded: boolean; // Our cards or TMDB failed, so suggestions may be missing
+}
+
+export const MIN_PREFIX_LENGTH = 2;
+const MAX_CARD_SUGGESTIONS = 4;
+const MAX_SUGGESTIONS = 8;
+const CACHE_TTL_MS = 5 * 60_000;
+const MAX_CACHE_ENTRIES = 500;
+
+const cache = new Map<string, { suggestions: Suggestion[]; expiresAt: number }>();
+const inFlight = new Map<string, Promise<SuggestionResult>>();
+
+// Lowercased, single-spaced, without ilike wildcards
+export function normalizePrefix(prefix: string): string {
+  return prefix.toLowerCase().replace(/[%_]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Exact title, then title prefix, then a word in the title starting with the prefix
+function titleMatch(title: string, prefix: string): number {
+  const normalized = title.toLowerCase();
+  if (normalized === prefix) return 3;
+  if (normalized.startsWith(prefix)) return 2;
+  if (normalized.includes(` ${prefix}`)) return 1;
+  return 0;
+}
+
+async function cardSuggestions(prefix: string): Promise<Suggestion[]> {
+  const cards = await getRepositories().cards.list({ search: prefix, limit: 20 });
+  return cards
+    // Suggestions open by TMDB id, so cards saved without one are left to full search
+    .filter((card) => card.tmdb_id !== null && (card.media_type === "movie" || card.media_type === "tv"))
+    .filter((card) => titleMatch(card.title, prefix) > 0)
+    .sort((a, b) => titleMatch(b.title, prefix) - titleMatch(a.title, prefix) || a.scope.localeCompare(b.scope))
+    .slice(0, MAX_CARD_SUGGESTIONS)
+    .map((card) => ({
+      tmdbId: card.tmdb_id!,
+      mediaType: card.media_type as "movie" | "tv",
+      title: scopedTitle(card.title, card.scope, card.scope_name),
+      year: card.year,
+      posterUrl: card.poster_url,
+      subtitle: card.calibration_sentence,
+      scope: card.scope,
+      slug: card.slug,
+    }));
+}
+
+async function loadSuggestions(prefix: string): Promise<SuggestionResult> {
+  // Either source failing still leaves the other's suggestions
+  let degraded = false;
+  const [cards, titles] = await Promise.all([
+    cardSuggestions(prefix).catch((error) => {
+      console.error("Autocomplete card lookup failed:", error);
+      degraded = true;
+      return [] as Suggestion[];
+    }),
+    searchMediaMultiple(prefix, MAX_SUGGESTIONS).catch((error) => {
+      console.error("Autocomplete TMDB search failed:", error);
+      degraded = true;
+      return [];
+    }),
+  ]);
+
+  const haveCards = new Set(cards.filter((s) => !s.scope).map((s) => titleKey(s.mediaType, s.tmdbId)));
+  const tmdbSuggestions: Suggestion[] = titles
+    .filter((title) => !haveCards.has(titleKey(title.mediaType, title.id)))
+    .map((title) => ({
+      tmdbId: title.id,
+      mediaType: title.mediaType,
+      title: title.title,
+      year: title.year,
+      posterUrl: title.posterUrl,
+      subtitle: null,
+      scope: "",
+      slug: null,
+    }));
+
+  return { suggestions: [...cards, ...tmdbSuggestions].slice(0, MAX_SUGGESTIONS), degraded };
+}
+
+export async function getSuggestions(rawPrefix: string): Promise<SuggestionResult> {
+  const prefix = normalizePrefix(rawPrefix);
+  if (prefix.length < MIN_PREFIX_LENGTH) {
+    return { suggestions: [], degraded: false };
+  }
+
+  const cached = cache.get(prefix);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { suggestions: cached.suggestions, degraded: false };
+  }
+
+  const pending = inFlight.get(prefix);
+  if (pending) {
+    return pending;
+  }
+
+  const request = loadSuggestions(prefix)
+    .then((result) => {
+      if (!result.degraded) {
+        cache.delete(prefix);
+        cache.set(prefix, { suggestions: result.suggestions, expiresAt: Date.now() + CACHE_TTL_MS });
+        if (cache.size > MAX_CACHE_ENTRIES) {
+          cache.delete(cache.keys().next().value!);
+        }
+      }
+      return result;
+    })
+    .finally(() => inFlight.delete(prefix));
+
+  inFlight.set(prefix, request);
+  return request;
+}
+
+export function clearSuggestionCache(): void {
+  cache.clear();
+}
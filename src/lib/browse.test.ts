@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  BROWSE_PAGE_SIZE,
+  buildBrowseIndex,
+  genreSlug,
+  getBrowsePage,
+  parseBrowsePath,
+  sectionPath,
+} from "@/lib/browse";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import { saveCard } from "@/lib/supabase";
+
+const facets = [
+  { media_type: "tv", year: "2022", genres: ["Drama", "Comedy"] },
+  { media_type: "movie", year: "1995", genres: ["Crime", "Drama"] },
+  { media_type: "movie", year: "1992", genres: ["Western"] },
+  { media_type: "movie", year: null, genres: null },
+];
+
+describe("browse paths", () => {
+  const index = buildBrowseIndex(facets);
+
+  it("lists sections that have cards, with counts", () => {
+    expect(index.media.map((l) => [sectionPath(l.section), l.count])).toEqual([
+      ["/browse/movie", 3],
+      ["/browse/tv", 1],
+    ]);
+    expect(index.genres.map((l) => sectionPath(l.section))).toEqual([
+      "/browse/genre/comedy",
+      "/browse/genre/crime",
+      "/browse/genre/drama",
+      "/browse/genre/western",
+    ]);
+    expect(index.decades.map((l) => [sectionPath(l.section), l.count])).toEqual([
+      ["/browse/decade/2020s", 1],
+      ["/browse/decade/1990s", 2],
+    ]);
+  });
+
+  it("parses section paths and page numbers", () => {
+    expect(parseBrowsePath(["tv"], index)).toEqual({ section: { kind: "media", mediaType: "tv" }, page: 1 });
+    expect(parseBrowsePath(["genre", "drama", "3"], index)).toEqual({
+      section: { kind: "genre", genre: "Drama" },
+      page: 3,
+    });
+    expect(parseBrowsePath(["decade", "1990s"], index)).toEqual({
+      section: { kind: "decade", decade: 1990 },
+      page: 1,
+    });
+  });
+
+  it("rejects unknown sections and non-canonical pages", () => {
+    expect(parseBrowsePath(["genre", "horror"], index)).toBeNull();
+    expect(parseBrowsePath(["decade", "1995s"], index)).toBeNull();
+    expect(parseBrowsePath(["tv", "1"], index)).toBeNull();
+    expect(parseBrowsePath(["tv", "02"], index)).toBeNull();
+    expect(parseBrowsePath(["tv", "2", "3"], index)).toBeNull();
+    expect(parseBrowsePath(["podcast"], index)).toBeNull();
+  });
+
+  it("slugs genre names", () => {
+    expect(genreSlug("Science Fiction")).toBe("science-fiction");
+    expect(genreSlug("Sci-Fi & Fantasy")).toBe("sci-fi-fantasy");
+  });
+});
+
+describe("getBrowsePage", () => {
+  afterEach(() => setRepositories(null));
+
+  const card = {
+    mediaType: "movie",
+    posterUrl: null,
+    cardContent: "A card.",
+    provider: "mock",
+    promptVersion: "v1",
+  };
+
+  it("lists whole-title cards in the section by title, a page at a time", async () => {
+    setRepositories(createMemoryRepositories(createMemoryStore()));
+    for (let i = 0; i < BROWSE_PAGE_SIZE + 2; i++) {
+      await saveCard({ ...card, tmdbId: i + 1, title: `Film ${String(i).padStart(2, "0")}`, year: "1994", genres: ["Drama"] });
+    }
+    await saveCard({ ...card, tmdbId: 100, title: "Another Decade", year: "2001", genres: ["Drama"] });
+    await saveCard({ ...card, tmdbId: 200, title: "The Bear", mediaType: "tv", year: "2022", genres: ["Drama"], scope: { season: 1 } });
+
+    const first = await getBrowsePage({ kind: "decade", decade: 1990 }, 1);
+    const second = await getBrowsePage({ kind: "decade", decade: 1990 }, 2);
+
+    expect([first.total, first.pageCount]).toEqual([BROWSE_PAGE_SIZE + 2, 2]);
+    expect(first.cards[0].title).toBe("Film 00");
+    expect(second.cards.map((c) => c.title)).toEqual(["Film 24", "Film 25"]);
+    // Season cards aren't listed
+    expect((await getBrowsePage({ kind: "genre", genre: "Drama" }, 1)).total).toBe(BROWSE_PAGE_SIZE + 3);
+  });
+});
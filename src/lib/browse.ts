@@ -0,0 +1,165 @@
+import { revalidatePath } from "next/cache";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
+import { getRepositories } from "@/lib/repositories";
+import type { CardBrowseFilter, CardFacets } from "@/lib/repositories";
+import type { CachedCard } from "@/lib/supabase";
+
+// Browse pages list whole-title cards by media type (/browse/tv), genre
+// (/browse/genre/horror) and decade (/browse/decade/1990s), BROWSE_PAGE_SIZE
+// at a time; later pages add a number (/browse/tv/2). They're statically
+// generated and revalidated hourly, and right away when the site saves a card.
+
+export const BROWSE_PAGE_SIZE = 24;
+
+export type BrowseSection =
+  | { kind: "media"; mediaType: "movie" | "tv" }
+  | { kind: "genre"; genre: string } // TMDB genre name, e.g. "Science Fiction"
+  | { kind: "decade"; decade: number }; // 1990
+
+export interface BrowseLink {
+  section: BrowseSection;
+  count: number;
+}
+
+export interface BrowseIndex {
+  media: BrowseLink[];
+  genres: BrowseLink[];
+  decades: BrowseLink[];
+}
+
+// "Science Fiction" → "science-fiction", "Sci-Fi & Fantasy" → "sci-fi-fantasy"
+export function genreSlug(genre: string): string {
+  return genre
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function sectionPath(section: BrowseSection, page = 1): string {
+  const base =
+    section.kind === "media"
+      ? `/browse/${section.mediaType}`
+      : section.kind === "genre"
+        ? `/browse/genre/${genreSlug(section.genre)}`
+        : `/browse/decade/${section.decade}s`;
+  return page > 1 ? `${base}/${page}` : base;
+}
+
+export function sectionTitle(section: BrowseSection): string {
+  if (section.kind === "media") return section.mediaType === "tv" ? "TV Series" : "Films";
+  if (section.kind === "genre") return section.genre;
+  return `${section.decade}s`;
+}
+
+function sectionFilter(section: BrowseSection): CardBrowseFilter {
+  if (section.kind === "media") return { mediaType: section.mediaType };
+  if (section.kind === "genre") return { genre: section.genre };
+  return { yearFrom: section.decade, yearTo: section.decade + 9 };
+}
+
+function decadeOf(year: string | null): number | null {
+  const parsed = parseInt(year || "", 10);
+  return Number.isNaN(parsed) ? null : Math.floor(parsed / 10) * 10;
+}
+
+// Every section with at least one card, with counts
+export function buildBrowseIndex(facets: CardFacets[]): BrowseIndex {
+  const counts = new Map<string, BrowseLink>();
+  const add = (section: BrowseSection) => {
+    const key = sectionPath(section);
+    const link = counts.get(key) || { section, count: 0 };
+    link.count++;
+    counts.set(key, link);
+  };
+
+  for (const card of facets) {
+    if (card.media_type === "movie" || card.media_type === "tv") {
+      add({ kind: "media", mediaType: card.media_type });
+    }
+    for (const genre of card.genres || []) {
+      add({ kind: "genre", genre });
+    }
+    const decade = decadeOf(card.year);
+    if (decade !== null) {
+      add({ kind: "decade", decade });
+    }
+  }
+
+  const links = Array.from(counts.values());
+  const of = (kind: BrowseSection["kind"]) => links.filter((link) => link.section.kind === kind);
+  return {
+    media: of("media").sort((a, b) => sectionTitle(a.section).localeCompare(sectionTitle(b.section))),
+    genres: of("genre").sort((a, b) => sectionTitle(a.section).localeCompare(sectionTitle(b.section))),
+    // Newest decade first
+    decades: of("decade").sort((a, b) => sectionTitle(b.section).localeCompare(sectionTitle(a.section))),
+  };
+}
+
+export async function getBrowseIndex(): Promise<BrowseIndex> {
+  return buildBrowseIndex(await getRepositories().cards.listFacets());
+}
+
+// For statically generated pages: an empty index when there's no data store at
+// build time, so the build still succeeds and the next revalidation fills it in.
+// At runtime a failure still throws, and ISR keeps serving the last good page.
+export async function getStaticBrowseIndex(): Promise<BrowseIndex> {
+  try {
+    return await getBrowseIndex();
+  } catch (error) {
+    if (process.env.NEXT_PHASE !== PHASE_PRODUCTION_BUILD) throw error;
+    console.error("Failed to load the browse index at build time:", error);
+    return { media: [], genres: [], decades: [] };
+  }
+}
+
+// The section and page for /browse/... path segments, or null for a path that
+// isn't one. Genre slugs resolve against the genres cards actually have.
+export function parseBrowsePath(
+  segments: string[],
+  index: BrowseIndex
+): { section: BrowseSection; page: number } | null {
+  let section: BrowseSection | null = null;
+  let rest: string[] = [];
+
+  if (segments[0] === "movie" || segments[0] === "tv") {
+    section = { kind: "media", mediaType: segments[0] };
+    rest = segments.slice(1);
+  } else if (segments[0] === "genre" && segments[1]) {
+    const link = index.genres.find((g) => g.section.kind === "genre" && genreSlug(g.section.genre) === segments[1]);
+    section = link ? link.section : null;
+    rest = segments.slice(2);
+  } else if (segments[0] === "decade" && /^\d{3}0s$/.test(segments[1] || "")) {
+    section = { kind: "decade", decade: parseInt(segments[1], 10) };
+    rest = segments.slice(2);
+  }
+
+  if (!section || rest.length > 1) return null;
+  if (rest.length === 0) return { section, page: 1 };
+
+  // Page 1 has no number, and "/02" isn't a page
+  const page = Number(rest[0]);
+  if (!Number.isInteger(page) || page < 2 || String(page) !== rest[0]) return null;
+  return { section, page };
+}
+
+export async function getBrowsePage(
+  section: BrowseSection,
+  page: number
+): Promise<{ cards: CachedCard[]; total: number; pageCount: number }> {
+  const { cards, total } = await getRepositories().cards.browse(
+    sectionFilter(section),
+    BROWSE_PAGE_SIZE,
+    (page - 1) * BROWSE_PAGE_SIZE
+  );
+  return { cards, total, pageCount: Math.max(1, Math.ceil(total / BROWSE_PAGE_SIZE)) };
+}
+
+// Called after the site saves a card. The CLI runs outside Next, so cards it
+// saves show up at the next hourly revalidation.
+export function revalidateBrowsePages(): void {
+  try {
+    revalidatePath("/browse", "layout");
+  } catch (error) {
+    console.error("Failed to revalidate browse pages:", error);
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { isWeakCalibration, lintCalibrationSentence, rankCalibrationSentences } from "@/lib/calibration-lint";
+
+function rules(sentence: string): string[] {
+  return lintCalibrationSentence(sentence).violations.map((v) => v.rule);
+}
+
+describe("lintCalibrationSentence", () => {
+  it("passes a sentence with a physical Z clause", () => {
+    const result = lintCalibrationSentence(
+      "If Heat felt like a chess match, this feels like a car crash you feel in your chest for days."
+    );
+    expect(result.violations).toEqual([]);
+    expect(result.score).toBe(100);
+  });
+
+  it("flags lazy comparatives and vague adjectives in the writer's own words", () => {
+    expect(rules("If Heat felt like a chess match, this feels darker and heavier in your chest.")).toEqual([
+      "banned-comparative",
+      "banned-comparative",
+    ]);
+    expect(rules("If Heat felt intense, this feels like a good cry.")).toContain("vague-adjective");
+  });
+
+  it.each([
+    "If The Good Place felt like a warm puzzle, this feels like the hug afterward.",
+    "If Good Will Hunting felt like a slow thaw, this feels like a cold hand on your neck.",
+    "If Less Than Zero felt like a hangover at noon, this feels like the ringing in your ears.",
+    "If More Than a Feeling felt like a sunburn, this feels like sweat drying on your skin.",
+  ])("doesn't flag a comparison title: %s", (sentence) => {
+    const result = lintCalibrationSentence(sentence);
+    expect(result.violations).toEqual([]);
+    expect(isWeakCalibration(result)).toBe(false);
+  });
+
+  it("still lints the whole line when it doesn't parse", () => {
+    expect(rules("A good show that is more fun than most.")).toEqual([
+      "format",
+      "banned-comparative",
+      "vague-adjective",
+      "vague-adjective",
+    ]);
+  });
+
+  it("matches Z clause cues on word boundaries", () => {
+    // "huge" isn't "hug", "years" isn't "ears"
+    expect(rules("If Heat felt like a duel, this feels like a huge riot from years ago.")).toEqual(["weak-z-clause"]);
+    expect(rules("If Heat felt like a duel, this feels like realizing the riot was yours.")).toEqual([]);
+    expect(rules("If Heat felt like a duel, this feels like hugs from strangers.")).toEqual([]);
+  });
+});
+
+describe("rankCalibrationSentences", () => {
+  it("drops candidates with errors and sorts the rest best first", () => {
+    const ranked = rankCalibrationSentences([
+      "If Heat felt like a duel, this feels darker.",
+      "If Heat felt like a duel, this feels like a riot from across town.",
+      "If Heat felt like a duel, this feels like a riot you hear in your teeth.",
+    ]);
+    expect(ranked.map((r) => r.lint.score)).toEqual([100, 85]);
+  });
+});
@@ -0,0 +1,177 @@
+import { CalibrationSentence, parseCalibrationSentence } from "@/lib/card-document";
+
+// Style linter for calibration sentences. Enforces the HARD CONSTRAINTS and
+// REQUIREMENTS from SYSTEM_PROMPT / REGENERATE_PROMPT and scores the result,
+// so candidates can be ranked and weak existing sentences flagged.
+
+export type CalibrationRule =
+  | "format"
+  | "banned-comparative"
+  | "vague-adjective"
+  | "weak-z-clause"
+  | "echo"
+  | "too-long";
+
+export interface CalibrationLintViolation {
+  rule: CalibrationRule;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface CalibrationLintResult {
+  score: number; // 0-100
+  violations: CalibrationLintViolation[];
+  parsed: CalibrationSentence | null;
+}
+
+// Below this a sentence is flagged as weak in the admin
+export const WEAK_CALIBRATION_SCORE = 70;
+
+const MAX_WORDS = 30;
+
+export const BANNED_COMPARATIVES = [
+  "more",
+  "less",
+  "lighter",
+  "darker",
+  "heavier",
+  "scarier",
+  "funnier",
+  "similar but different",
+  "just purely",
+];
+
+export const VAGUE_ADJECTIVES = ["interesting", "engaging", "intense", "fun", "good"];
+
+// Cues that the Z clause lands in the body, in post-watch behavior, or in what lingers.
+// Cues match whole words plus simple endings ("hug", "hugs"); a trailing "*"
+// marks a stem that matches any ending ("realiz*": realize, realizing).
+const SENSORY_CUES = [
+  "skin", "chest", "breath", "breathe", "stomach", "bones", "throat", "hands", "heart", "pulse",
+  "ears", "eyes", "spine", "gut", "teeth", "jaw", "shoulders", "lungs", "body", "knees",
+  "ache", "sting", "burn", "shiver", "flinch", "trembl*", "sweat", "numb", "tight", "ringing",
+  "cold", "warm", "exhaust*", "tired", "dizzy", "nause*", "goosebumps", "hug", "weight", "bruise",
+];
+
+const BEHAVIOR_CUES = [
+  "want to", "call", "text", "cry", "sleep", "lights on", "rewatch", "pause", "walk", "apologi*",
+  "check", "lock", "stare", "stay up", "hold", "reach for", "turn off", "close your", "sit with",
+  "realiz*", "forgiv*", "leave the",
+];
+
+const AFTERTASTE_CUES = [
+  "linger", "afterward", "after", "for days", "stays with", "aftertaste", "haunt", "echo",
+  "hangover", "scar", "residue", "still", "won't leave", "follows you", "without exit", "morning",
+];
+
+const Z_CUES = [...SENSORY_CUES, ...BEHAVIOR_CUES, ...AFTERTASTE_CUES].map((cue) => {
+  const stem = cue.endsWith("*");
+  const words = cue.replace(/\*$/, "").replace(/\s+/g, "\\s+");
+  return new RegExp(stem ? `\\b${words}` : `\\b${words}(?:s|es|d|ed|ing)?\\b`, "i");
+});
+
+const PENALTIES: Record<CalibrationRule, number> = {
+  format: 60,
+  "banned-comparative": 30,
+  "vague-adjective": 20,
+  "weak-z-clause": 15,
+  echo: 15,
+  "too-long": 10,
+};
+
+// Whole-word (or whole-phrase) matches, case-insensitive
+export function findPhrases(text: string, phrases: string[]): string[] {
+  const lower = text.toLowerCase();
+  return phrases.filter((phrase) => new RegExp(`\\b${phrase.replace(/\s+/g, "\\s+")}\\b`).test(lower));
+}
+
+// The Z clause without its "feels like" lead-in
+function zClause(parsed: CalibrationSentence): string {
+  return parsed.feels.replace(/^(?:may\s+)?feels?\s+(?:like\s+)?/i, "");
+}
+
+function stripLike(text: string): string {
+  return text.replace(/^like\s+/i, "").toLowerCase().trim();
+}
+
+export function lintCalibrationSentence(sentence: string): CalibrationLintResult {
+  const violations: CalibrationLintViolation[] = [];
+  const parsed = parseCalibrationSentence(sentence);
+
+  if (!parsed) {
+    violations.push({
+      rule: "format",
+      severity: "error",
+      message: 'Not in the "If *Title* felt like X, this feels like Y." format.',
+    });
+  }
+
+  const text = parsed?.text || sentence;
+  // Only the writer's own words: a comparison title ("The Good Place", "Less
+  // Than Zero") isn't a lazy comparative
+  const prose = parsed ? `${parsed.felt} ${parsed.feels}` : sentence;
+
+  const banned = findPhrases(prose, BANNED_COMPARATIVES);
+  for (const word of banned) {
+    violations.push({
+      rule: "banned-comparative",
+      severity: "error",
+      message: `Uses the lazy comparative "${word}".`,
+    });
+  }
+
+  const vague = findPhrases(prose, VAGUE_ADJECTIVES);
+  for (const word of vague) {
+    violations.push({
+      rule: "vague-adjective",
+      severity: "error",
+      message: `Uses the vague adjective "${word}".`,
+    });
+  }
+
+  if (parsed) {
+    const z = zClause(parsed);
+    const hasCue = Z_CUES.some((cue) => cue.test(z));
+    if (!hasCue) {
+      violations.push({
+        rule: "weak-z-clause",
+        severity: "warning",
+        message: "The Z clause doesn't invoke a physical sensation, a post-watch behavior, or an aftertaste.",
+      });
+    }
+
+    if (stripLike(parsed.felt) === stripLike(z)) {
+      violations.push({
+        rule: "echo",
+        severity: "error",
+        message: "The Z clause repeats the X clause instead of describing the difference.",
+      });
+    }
+  }
+
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (words > MAX_WORDS) {
+    violations.push({
+      rule: "too-long",
+      severity: "warning",
+      message: `${words} words; long sentences drift into purple prose and don't fit the OG image.`,
+    });
+  }
+
+  const penalty = violations.reduce((total, v) => total + PENALTIES[v.rule], 0);
+  return { score: Math.max(0, 100 - penalty), violations, parsed };
+}
+
+export function isWeakCalibration(result: CalibrationLintResult): boolean {
+  return result.score < WEAK_CALIBRATION_SCORE || result.violations.some((v) => v.severity === "error");
+}
+
+// Drop candidates with hard errors (unless none are clean) and sort best first
+export function rankCalibrationSentences(
+  sentences: string[]
+): { sentence: string; lint: CalibrationLintResult }[] {
+  const linted = sentences.map((sentence) => ({ sentence, lint: lintCalibrationSentence(sentence) }));
+  const clean = linted.filter(({ lint }) => !lint.violations.some((v) => v.severity === "error"));
+  const candidates = clean.length > 0 ? clean : linted;
+  return [...candidates].sort((a, b) => b.lint.score - a.lint.score);
+}
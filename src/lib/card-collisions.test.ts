@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from "@/lib/memory-repositories";
+import { PostLog, setRepositories } from "@/lib/repositories";
+import { confirmCollision, findCollisionCandidates, restoreCollision } from "@/lib/card-collisions";
+import type { CachedCard } from "@/lib/supabase";
+import { makeCard } from "@/lib/test-fixtures";
+import * as tmdb from "@/lib/tmdb";
+
+function card(id: string, tmdbId: number, mediaType: string, title: string, slug: string): CachedCard {
+  return makeCard({ id, tmdb_id: tmdbId, media_type: mediaType, title, slug, year: "2020", genres: ["Drama"] });
+}
+
+function post(id: string, cardId: string, title: string, slug: string, platform: PostLog["platform"], postedAt: string): PostLog {
+  return {
+    id,
+    card_id: cardId,
+    slot: "morning",
+    tweet_id: null,
+    platform,
+    posted_at: postedAt,
+    title,
+    slug,
+    calibration_sentence: `If Heat felt like a duel, ${title} feels like a riot.`,
+    year: "2011",
+    poster_url: null,
+  };
+}
+
+// TMDB's titles for the other media type's ids
+const otherTitles: Record<string, string> = { "tv/1399": "Game of Thrones", "movie/600": "Full Metal Jacket" };
+
+describe("overwritten card restoration", () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    vi.spyOn(tmdb, "getMediaById").mockImplementation(async (id, mediaType) => {
+      const title = otherTitles[`${mediaType}/${id}`];
+      return title ? ({ id, title, mediaType } as tmdb.MediaInfo) : null;
+    });
+    store = createMemoryStore({
+      cards: [
+        // Overwrote the show with the same id; still has the show's posts
+        card("movie", 1399, "movie", "Inception", "inception-2010"),
+        // Retitled and re-slugged
+        card("renamed", 500, "tv", "New Name", "new-name-2020"),
+        // Retitled and re-slugged before slug history existed
+        card("retitled", 600, "tv", "Later Title", "later-title-2020"),
+      ],
+      postLogs: [
+        post("p1", "movie", "Game of Thrones", "game-of-thrones-2011", "twitter", "2025-01-01T09:00:00Z"),
+        post("p2", "movie", "Game of Thrones", "game-of-thrones-2011", "bluesky", "2025-01-02T09:00:00Z"),
+        post("p3", "movie", "Inception", "inception-2010", "twitter", "2025-01-03T09:00:00Z"),
+        post("p4", "renamed", "Old Name", "old-name-2020", "twitter", "2025-01-04T09:00:00Z"),
+        post("p5", "retitled", "Early Title", "early-title-2020", "twitter", "2025-01-05T09:00:00Z"),
+      ],
+      slugHistory: [{ slug: "old-name-2020", card_id: "renamed", replaced_at: "2025-01-06T00:00:00Z" }],
+    });
+    setRepositories(createMemoryRepositories(store));
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.restoreAllMocks();
+  });
+
+  it("finds posts that match neither their card's title nor any slug it had", async () => {
+    const candidates = await findCollisionCandidates();
+    expect(candidates.map((c) => [c.card.id, c.mediaType, c.title, c.slug, c.posts.map((p) => p.id)])).toEqual([
+      ["retitled", "movie", "Early Title", "early-title-2020", ["p5"]],
+      ["movie", "tv", "Game of Thrones", "game-of-thrones-2011", ["p2", "p1"]],
+    ]);
+
+    // Only one is the other media type's title on TMDB
+    expect(await confirmCollision(candidates[0])).toBe(false);
+    expect(await confirmCollision(candidates[1])).toBe(true);
+  });
+
+  it("won't move posts until the overwritten card exists again", async () => {
+    const [, candidate] = await findCollisionCandidates();
+    await expect(restoreCollision(candidate)).rejects.toThrow("generate it first");
+    expect(store.postLogs.filter((p) => p.card_id === "movie")).toHaveLength(3);
+  });
+
+  it("moves posts to the overwritten title's card and recomputes both cards' last posts", async () => {
+    store.cards.push(card("show", 1399, "tv", "Game of Thrones", "game-of-thrones-2011-2"));
+    const [, candidate] = await findCollisionCandidates();
+
+    expect(await restoreCollision(candidate)).toBe("show");
+    expect(store.postLogs.filter((p) => p.card_id === "show").map((p) => p.id)).toEqual(["p1", "p2"]);
+    expect(store.cards.find((c) => c.id === "show")).toMatchObject({
+      last_posted_at: "2025-01-01T09:00:00Z",
+      last_posted_bluesky: "2025-01-02T09:00:00Z",
+    });
+    expect(store.cards.find((c) => c.id === "movie")).toMatchObject({
+      last_posted_at: "2025-01-03T09:00:00Z",
+      last_posted_bluesky: null,
+    });
+    expect(await findCollisionCandidates()).toHaveLength(1);
+    // The posted URL redirects to it
+    expect(store.slugHistory).toContainEqual(expect.objectContaining({ slug: "game-of-thrones-2011", card_id: "show" }));
+  });
+});
@@ -0,0 +1,109 @@
+import { getMediaById } from "@/lib/tmdb";
+import type { CachedCard } from "@/lib/supabase";
+import { getRepositories, PostLog } from "@/lib/repositories";
+
+// Cards overwritten under the old (tmdb_id, scope) key (see migration 0006).
+// Saving a movie replaced the show with the same TMDB id in place, or the
+// other way round: the row kept its posts but took the new title and slug.
+// Those posts still record the title and slug they went out with.
+
+const PAGE_SIZE = 500;
+
+export interface CollisionCandidate {
+  card: CachedCard; // The card the posts are on now
+  mediaType: "movie" | "tv"; // The overwritten card's media type
+  title: string;
+  slug: string;
+  posts: PostLog[]; // Newest first
+}
+
+function otherMediaType(mediaType: string): "movie" | "tv" | null {
+  if (mediaType === "movie") return "tv";
+  if (mediaType === "tv") return "movie";
+  return null;
+}
+
+async function listAllPosts(): Promise<PostLog[]> {
+  const posts: PostLog[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getRepositories().postLogs.list(PAGE_SIZE, offset);
+    posts.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return posts;
+}
+
+// Posts that match neither their card's title nor its slug, grouped by the
+// slug they went out with. Slugs a card still has or used to have (a retitled
+// or re-slugged card) aren't candidates.
+export async function findCollisionCandidates(): Promise<CollisionCandidate[]> {
+  const { cards, slugHistory } = getRepositories();
+  const groups = new Map<string, PostLog[]>();
+  for (const post of await listAllPosts()) {
+    if (!post.slug) continue;
+    const key = `${post.card_id}/${post.slug}`;
+    groups.set(key, [...(groups.get(key) || []), post]);
+  }
+
+  const candidates: CollisionCandidate[] = [];
+  for (const posts of Array.from(groups.values())) {
+    const [latest] = posts;
+    const slug = latest.slug!;
+    const card = await cards.getById(latest.card_id);
+    const mediaType = card && otherMediaType(card.media_type);
+    if (!card || !mediaType || card.tmdb_id === null) continue;
+    if (latest.title === card.title || slug === card.slug) continue;
+    if ((await cards.getBySlug(slug)) || (await slugHistory.getCardId(slug))) continue;
+
+    candidates.push({ card, mediaType, title: latest.title, slug, posts });
+  }
+  return candidates;
+}
+
+function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Whether the other media type's TMDB id is the title the posts went out with
+export async function confirmCollision(candidate: CollisionCandidate): Promise<boolean> {
+  const media = await getMediaById(candidate.card.tmdb_id!, candidate.mediaType);
+  return media !== null && sameTitle(media.title, candidate.title);
+}
+
+function lastPosted(posts: PostLog[], platform: PostLog["platform"]): string | null {
+  return posts.find((post) => post.platform === platform)?.posted_at ?? null;
+}
+
+async function recomputeLastPosted(cardId: string): Promise<void> {
+  const { cards, postLogs } = getRepositories();
+  const posts = await postLogs.listByCard(cardId);
+  await cards.update(cardId, {
+    last_posted_at: lastPosted(posts, "twitter"),
+    last_posted_bluesky: lastPosted(posts, "bluesky"),
+  });
+}
+
+// Move a confirmed candidate's posts to the overwritten title's card, which
+// must exist again (the CLI generates it first), and point the slug they went
+// out with at it. Returns that card's id.
+export async function restoreCollision(candidate: CollisionCandidate): Promise<string> {
+  const { cards, postLogs, slugHistory } = getRepositories();
+  const { card, mediaType, slug, posts } = candidate;
+
+  const target = await cards.getByTmdbId(card.tmdb_id!, mediaType, card.scope);
+  if (!target) {
+    throw new Error(`No ${mediaType} card for TMDB id ${card.tmdb_id} to move posts to; generate it first`);
+  }
+
+  // Keep the posted URL working
+  if (target.slug !== slug) {
+    await slugHistory.add(slug, target.id);
+  }
+  await postLogs.moveToCard(
+    posts.map((post) => post.id),
+    target.id
+  );
+  await recomputeLastPosted(card.id);
+  await recomputeLastPosted(target.id);
+  return target.id;
+}
@@ -0,0 +1,188 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  extractCalibrationSentence,
+  listSectionOrder,
+  normalizeCardMarkdown,
+  parseCalibrationSentence,
+  parseCardDocument,
+  parseComparisons,
+} from "@/lib/card-document";
+
+// Real-world model output lives in fixtures/cards, one malformed pattern per file
+function loadCard(name: string): string {
+  return fs.readFileSync(path.join(__dirname, "fixtures", "cards", `${name}.md`), "utf8");
+}
+
+const FULL_ORDER = ["opening", "howItFeels", "whatMakesItHeavy", "comparisons", "calibration", "worthKnowing"];
+
+describe("normalizeCardMarkdown", () => {
+  it("joins Gemini's lone '-' lines onto the following comparison", () => {
+    expect(normalizeCardMarkdown("-\n*Lost* → A mystery box.")).toBe("- *Lost* → A mystery box.");
+  });
+
+  it("normalizes Windows line endings", () => {
+    expect(normalizeCardMarkdown("one\r\ntwo")).toBe("one\ntwo");
+  });
+});
+
+describe("parseComparisons", () => {
+  it("parses '-' bullets with italic titles and → arrows", () => {
+    expect(parseComparisons("- *Succession* → Families at war.")).toEqual([
+      { title: "Succession", phrase: "Families at war." },
+    ]);
+  });
+
+  it("parses '*' bullets with extra indentation", () => {
+    expect(parseComparisons("*   Heat → Masters of their craft.")).toEqual([
+      { title: "Heat", phrase: "Masters of their craft." },
+    ]);
+  });
+
+  it("parses ASCII '->' arrows", () => {
+    expect(parseComparisons("- *Schitt's Creek* -> A family learning to be decent.")).toEqual([
+      { title: "Schitt's Creek", phrase: "A family learning to be decent." },
+    ]);
+  });
+
+  it("ignores lines that are not comparison bullets", () => {
+    expect(parseComparisons("**Compared to shows you may know**\nJust prose → here.")).toEqual([]);
+  });
+});
+
+describe("parseCalibrationSentence", () => {
+  it("normalizes a clean sentence", () => {
+    expect(parseCalibrationSentence("If Heat felt like a chess match, this feels like a car crash.")).toEqual({
+      title: "Heat",
+      felt: "like a chess match",
+      feels: "feels like a car crash",
+      text: "If Heat felt like a chess match, this feels like a car crash.",
+    });
+  });
+
+  it("strips mangled nested italics", () => {
+    const parsed = parseCalibrationSentence("*If*The Babadook*felt like a monster, this feels like a locked attic.*");
+    expect(parsed?.title).toBe("The Babadook");
+    expect(parsed?.text).toBe("If The Babadook felt like a monster, this feels like a locked attic.");
+  });
+
+  it("handles bold wrapping and 'may feel'", () => {
+    const parsed = parseCalibrationSentence("**If *Lost* felt like a puzzle, this may feel like a maze.**");
+    expect(parsed?.feels).toBe("may feel like a maze");
+  });
+
+  it("rewrites the card's own title as the subject to 'this'", () => {
+    expect(
+      parseCalibrationSentence("If Heat felt like a duel, The Dark Knight feels like a riot.")?.text
+    ).toBe("If Heat felt like a duel, this feels like a riot.");
+  });
+
+  it("collapses trailing periods", () => {
+    expect(parseCalibrationSentence("If Seven felt cold, this feels colder...")?.text).toBe(
+      "If Seven felt cold, this feels colder."
+    );
+  });
+
+  it("rejects lines that are not calibration sentences", () => {
+    expect(parseCalibrationSentence("It feels like holding your breath.")).toBeNull();
+    expect(parseCalibrationSentence("If you liked Heat, watch this.")).toBeNull();
+  });
+});
+
+describe("extractCalibrationSentence", () => {
+  it("skips 'If X felt' phrases inside comparison bullets", () => {
+    expect(extractCalibrationSentence(loadCard("star-bullets"))).toBe(
+      "If The Batman felt like a rainy walk through a crime scene, this feels like the ringing in your ears after an explosion."
+    );
+  });
+
+  it("returns null when the card has no calibration line", () => {
+    expect(extractCalibrationSentence("**How it feels**\nLike a long exhale.")).toBeNull();
+  });
+});
+
+describe("parseCardDocument corpus", () => {
+  it("gemini-lone-dash: lone '-' lines before each comparison", () => {
+    const markdown = loadCard("gemini-lone-dash");
+    const doc = parseCardDocument(markdown);
+
+    expect(doc.opening).toMatch(/^\*Severance\* looks like an office satire/);
+    expect(doc.comparisons.map((c) => c.title)).toEqual(["The Office", "Black Mirror", "Lost"]);
+    expect(doc.comparisons[2].phrase).toBe("A mystery box that actually cares what is inside.");
+    expect(doc.calibration?.text).toBe(
+      "If The Office felt like killing time at work, this feels like realizing the time was killing you."
+    );
+    expect(doc.worthKnowing?.body).toBe("The first two episodes are slow on purpose; the finale pays it off.");
+    expect(listSectionOrder(markdown)).toEqual(FULL_ORDER);
+  });
+
+  it("nested-italics: '*If*Title*felt' calibration line", () => {
+    const markdown = loadCard("nested-italics");
+    const doc = parseCardDocument(markdown);
+
+    expect(doc.comparisons).toEqual([
+      { title: "The Babadook", phrase: "Grief as a monster, but here the monster wins." },
+      { title: "Midsommar", phrase: "Same director, with the daylight swapped for a locked attic." },
+    ]);
+    expect(doc.calibration).toEqual({
+      title: "The Babadook",
+      felt: "like a monster under the bed",
+      feels: "feels like finding out the bed was always in the attic",
+      text: "If The Babadook felt like a monster under the bed, this feels like finding out the bed was always in the attic.",
+    });
+    // The calibration line is lifted out, not left in a neighbouring section
+    expect(doc.worthKnowing?.body).not.toMatch(/If/);
+    // Film cards keep the heading the model wrote for them
+    expect(doc.comparisonsHeading).toBe("Compared to films you may know");
+    expect(listSectionOrder(markdown)).toEqual(FULL_ORDER);
+  });
+
+  it("star-bullets: '*   Title →' bullets whose phrases are themselves calibration sentences", () => {
+    const markdown = loadCard("star-bullets");
+    const doc = parseCardDocument(markdown);
+
+    expect(doc.comparisons.map((c) => c.title)).toEqual(["Heat", "The Batman (2022)", "Seven"]);
+    expect(doc.comparisons[0].phrase).toMatch(/^If Heat felt like a professional rivalry/);
+    expect(doc.calibration?.title).toBe("The Batman");
+    expect(doc.whatMakesItHeavy?.body).toBe(
+      "Sustained menace, sudden violence, and a villain who is scarier because he makes sense."
+    );
+    expect(listSectionOrder(markdown)).toEqual(FULL_ORDER);
+  });
+
+  it("ascii-arrows: '->' arrows, numbered '###' and inline bold headers", () => {
+    const markdown = loadCard("ascii-arrows");
+    const doc = parseCardDocument(markdown);
+
+    expect(doc.opening).toMatch(/^\*Ted Lasso\* looks like a sports comedy/);
+    expect(doc.howItFeels).toEqual({
+      heading: "How it feels",
+      body: "Watching it feels like a warm mug on a cold morning, with a crack in it you only notice later.",
+    });
+    expect(doc.whatMakesItHeavy).toEqual({
+      heading: "What makes it heavy",
+      body: "Panic attacks, divorce, and a second season that sits with depression.",
+    });
+    expect(doc.comparisons.map((c) => c.title)).toEqual([
+      "Parks and Recreation",
+      "Schitt's Creek",
+      "Friday Night Lights",
+    ]);
+    expect(doc.calibration?.feels).toBe("may feel like the hug afterward that you did not know you needed");
+    expect(listSectionOrder(markdown)).toEqual(FULL_ORDER);
+  });
+
+  it("keeps other lines under a calibration heading, including a sentence that doesn't parse", () => {
+    const parsed = parseCardDocument(
+      "**Calibration**\nIf Heat felt like a duel, this feels like a riot.\nA quieter film overall.\n\n**Worth knowing**\nLong."
+    );
+    expect(parsed.calibration?.title).toBe("Heat");
+    expect(parsed.calibrationNotes).toBe("A quieter film overall.");
+    expect(parsed.comparisonsHeading).toBeNull();
+
+    const unparsed = parseCardDocument("**Calibration sentence**\nThink Heat, but louder.");
+    expect(unparsed.calibration).toBeNull();
+    expect(unparsed.calibrationNotes).toBe("Think Heat, but louder.");
+  });
+});
@@ -0,0 +1,251 @@
+// Structured form of a generated card. The model streams markdown; we parse it
+// once at generation time and store the result next to the raw text, so the
+// server, the card page and the OG image all read the same fields.
+
+export interface ParsedComparison {
+  title: string;
+  phrase: string;
+}
+
+export interface CalibrationSentence {
+  title: string; // The comparison title ("If *Title* felt...")
+  felt: string; // What the comparison felt like ("like dread in the walls")
+  feels: string; // How this one feels ("feels like realizing the walls were listening")
+  text: string; // Normalized sentence: "If Title felt X, this feels Y."
+}
+
+export interface CardSection {
+  heading: string;
+  body: string;
+}
+
+export interface CardDocument {
+  opening: string;
+  howItFeels: CardSection | null;
+  whatMakesItHeavy: CardSection | null;
+  comparisonsHeading: string | null; // As the model wrote it ("Compared to films you may know")
+  comparisons: ParsedComparison[];
+  calibration: CalibrationSentence | null;
+  calibrationNotes: string; // Anything else under a calibration heading, e.g. a sentence that didn't parse
+  worthKnowing: CardSection | null;
+}
+
+export type SectionKey = "opening" | "howItFeels" | "whatMakesItHeavy" | "comparisons" | "calibration" | "worthKnowing";
+
+// Fix Gemini's habit of putting "-" on its own line before a comparison
+export function normalizeCardMarkdown(cardContent: string): string {
+  return cardContent.replace(/\r\n/g, "\n").replace(/^-\s*\n/gm, "- ");
+}
+
+// Parse comparison titles and phrases from card content markdown
+// Patterns: "- Title → phrase" or "* Title → phrase" or "- *Title* → phrase"
+export function parseComparisons(cardContent: string): ParsedComparison[] {
+  const comparisons: ParsedComparison[] = [];
+  const content = normalizeCardMarkdown(cardContent);
+
+  // Match lines like: "- Title → phrase" or "* Title → phrase" or "- *Title* → phrase"
+  // Handle both - and * bullets, and both → and -> arrows
+  const pattern = /^[-*]\s+\*?([^*→\->]+?)\*?\s*(?:→|->)\s*(.+)$/gm;
+
+  let match;
+  while ((match = pattern.exec(content)) !== null) {
+    const title = match[1].trim();
+    const phrase = match[2].trim();
+
+    if (title && phrase) {
+      comparisons.push({ title, phrase });
+    }
+  }
+
+  return comparisons;
+}
+
+// Parse a single line as a calibration sentence
+// Pattern: "If [Title] felt (like) X, this/[Title2] (may) feel(s) (like) Y"
+export function parseCalibrationSentence(line: string): CalibrationSentence | null {
+  // Aggressively normalize first - models mangle the nested italics
+  // ("*If*Title*felt", "**If** *Title*"), so strip every asterisk
+  const cleanLine = line
+    .trim()
+    .replace(/\*+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // The subject is either "this" or the card's own title (e.g. "The Dark Knight feels like")
+  const match = cleanLine.match(
+    /^If\s+([^,]+?)\s+felt\s+(.+?),\s+(this|[A-Z][A-Za-z0-9\s':]*?)\s+((?:may\s+)?feels?\s+.+?)\.*$/i
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, title, felt, , feels] = match;
+  const cleanTitle = title.trim();
+  const cleanFelt = felt.trim();
+  const cleanFeels = feels.trim();
+
+  return {
+    title: cleanTitle,
+    felt: cleanFelt,
+    feels: cleanFeels,
+    text: `If ${cleanTitle} felt ${cleanFelt}, this ${cleanFeels}.`,
+  };
+}
+
+// Find the calibration line in card content
+// Must be on its own line (not inside a bullet list or a comparison)
+function findCalibrationLine(lines: string[]): { index: number; calibration: CalibrationSentence } | null {
+  for (let i = 0; i < lines.length; i++) {
+    const trimmedLine = lines[i].trim();
+    // Skip bullet points
+    if (trimmedLine.startsWith("-") || (trimmedLine.startsWith("*") && !/^\*+\s*If\b/i.test(trimmedLine))) {
+      continue;
+    }
+    // Skip lines that are part of comparison section (contain →)
+    if (trimmedLine.includes("→") || trimmedLine.includes("->")) {
+      continue;
+    }
+
+    const calibration = parseCalibrationSentence(trimmedLine);
+    if (calibration) {
+      return { index: i, calibration };
+    }
+  }
+
+  return null;
+}
+
+// Extract calibration sentence from card content
+export function extractCalibrationSentence(cardContent: string): string | null {
+  const found = findCalibrationLine(normalizeCardMarkdown(cardContent).split("\n"));
+  return found ? found.calibration.text : null;
+}
+
+// Map a header's text to the section it opens (null if it isn't a known header)
+function classifyHeading(heading: string): SectionKey | null {
+  const normalized = heading.toLowerCase().replace(/[:.]+$/, "").trim();
+
+  if (normalized.includes("how it feels")) return "howItFeels";
+  if (normalized.includes("heavy") || normalized.includes("what makes it")) return "whatMakesItHeavy";
+  if (normalized.startsWith("compared") || normalized.includes("comparison")) return "comparisons";
+  if (normalized.includes("worth knowing")) return "worthKnowing";
+  if (normalized.includes("calibration")) return "calibration";
+  if (normalized === "opening") return "opening";
+  return null;
+}
+
+// Recognize "**How it feels**", "### How it feels", "**2. How it feels:** text..."
+function parseHeadingLine(line: string): { key: SectionKey; heading: string; rest: string } | null {
+  const trimmed = line.trim();
+  const bold = trimmed.match(/^(?:#{1,6}\s*)?(?:\d+\.\s*)?\*\*([^*]+?)\*\*:?\s*(.*)$/);
+  const hashed = trimmed.match(/^#{1,6}\s+(?:\d+\.\s*)?([^*]+?):?$/);
+  const match = bold || hashed;
+  if (!match) {
+    return null;
+  }
+
+  const heading = match[1].replace(/^\d+\.\s*/, "").replace(/:$/, "").trim();
+  const key = classifyHeading(heading);
+  if (!key) {
+    return null;
+  }
+
+  return { key, heading, rest: bold ? match[2].trim() : "" };
+}
+
+function isComparisonLine(line: string): boolean {
+  return /^[-*]\s+.+(?:→|->)/.test(line.trim());
+}
+
+function toBody(lines: string[]): string {
+  return lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Parse the model's markdown into a CardDocument
+export function parseCardDocument(cardContent: string): CardDocument {
+  const lines = normalizeCardMarkdown(cardContent).split("\n");
+  const calibrationLine = findCalibrationLine(lines);
+
+  const buffers: Record<SectionKey, string[]> = {
+    opening: [],
+    howItFeels: [],
+    whatMakesItHeavy: [],
+    comparisons: [],
+    calibration: [],
+    worthKnowing: [],
+  };
+  const headings: Partial<Record<SectionKey, string>> = {};
+  let current: SectionKey = "opening";
+
+  lines.forEach((line, i) => {
+    if (i === calibrationLine?.index || isComparisonLine(line)) {
+      return;
+    }
+
+    const heading = parseHeadingLine(line);
+    if (heading) {
+      current = heading.key;
+      headings[current] ??= heading.heading;
+      if (heading.rest) {
+        buffers[current].push(heading.rest);
+      }
+      return;
+    }
+
+    buffers[current].push(line);
+  });
+
+  const section = (key: SectionKey): CardSection | null => {
+    const body = toBody(buffers[key]);
+    if (!headings[key] && !body) {
+      return null;
+    }
+    return { heading: headings[key] || "", body };
+  };
+
+  return {
+    opening: toBody(buffers.opening),
+    howItFeels: section("howItFeels"),
+    whatMakesItHeavy: section("whatMakesItHeavy"),
+    comparisonsHeading: headings.comparisons || null,
+    comparisons: parseComparisons(cardContent),
+    calibration: calibrationLine?.calibration ?? null,
+    calibrationNotes: toBody(buffers.calibration),
+    worthKnowing: section("worthKnowing"),
+  };
+}
+
+// Sections in the order they appear in the markdown (used to check the prompt's STRICT ORDER)
+export function listSectionOrder(cardContent: string): SectionKey[] {
+  const lines = normalizeCardMarkdown(cardContent).split("\n");
+  const calibrationLine = findCalibrationLine(lines);
+  const order: SectionKey[] = [];
+
+  const add = (key: SectionKey) => {
+    if (!order.includes(key)) {
+      order.push(key);
+    }
+  };
+
+  lines.forEach((line, i) => {
+    if (i === calibrationLine?.index) {
+      add("calibration");
+      return;
+    }
+    if (isComparisonLine(line)) {
+      add("comparisons");
+      return;
+    }
+    const heading = parseHeadingLine(line);
+    if (heading) {
+      add(heading.key);
+    } else if (line.trim() && order.length === 0) {
+      add("opening");
+    }
+  });
+
+  return order;
+}
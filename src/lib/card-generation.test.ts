@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { hasUnresolvedComparisons, resolveComparisons } from "@/lib/card-generation";
+import * as tmdb from "@/lib/tmdb";
+
+describe("resolveComparisons", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps comparisons TMDB couldn't be asked about, unresolved and in order", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(tmdb, "resolveComparisonTitle").mockImplementation(async (title) => {
+      if (title === "Lost") throw new Error("TMDB 503");
+      if (title === "Nothing Like It") return null;
+      return { title, tmdb_id: 2316, media_type: "tv", year: "2005" };
+    });
+
+    const { comparisons, failed } = await resolveComparisons([
+      { title: "Lost", phrase: "A mystery box." },
+      { title: "Nothing Like It", phrase: "Made up." },
+      { title: "The Office", phrase: "Killing time at work." },
+    ]);
+
+    expect(failed).toEqual([{ title: "Lost", phrase: "A mystery box." }]);
+    // Titles TMDB doesn't know are dropped; failed lookups stay for a retry
+    expect(comparisons).toEqual([
+      { title: "Lost", original_title: "Lost", tmdb_id: null, media_type: null, year: "", slug: "", phrase: "A mystery box." },
+      {
+        title: "The Office",
+        original_title: "The Office",
+        tmdb_id: 2316,
+        media_type: "tv",
+        year: "2005",
+        slug: "the-office-2005",
+        phrase: "Killing time at work.",
+      },
+    ]);
+    expect(hasUnresolvedComparisons({ comparisons })).toBe(true);
+    expect(hasUnresolvedComparisons({ comparisons: comparisons.slice(1) })).toBe(false);
+    expect(hasUnresolvedComparisons({ comparisons: null })).toBe(false);
+  });
+});
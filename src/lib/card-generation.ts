@@ -0,0 +1,126 @@
+import { REPAIR_PROMPT } from "@/lib/system-prompt";
+import { CURRENT_PROMPT } from "@/lib/prompts";
+import { formatContextForClaude, MediaInfo, resolveComparisonTitle } from "@/lib/tmdb";
+import { Comparison, generateSlug } from "@/lib/supabase";
+import { CardDocument, ParsedComparison, parseCardDocument } from "@/lib/card-document";
+import { CardValidation, CardViolation, validateCard } from "@/lib/card-validation";
+import { completeWithFallback, getProviderChain, LLMRequest } from "@/lib/llm";
+import { scopeLabel } from "@/lib/card-scope";
+
+// Steps shared by the generate route and the scripts: building the prompt,
+// validating/repairing the model's draft, and resolving its comparisons.
+
+// The card request for a title, with TMDB context when we have it
+export function buildCardRequest(title: string, media: MediaInfo | null): LLMRequest & { system: string } {
+  let prompt = media
+    ? `Here is information about the title:\n\n${formatContextForClaude(media)}\n\nBased on this information and your knowledge, create an emotional calibration card for "${media.title}". IMPORTANT: Use this exact title "${media.title}" throughout your response.`
+    : `Create an emotional calibration card for "${title}".`;
+
+  if (media?.scope) {
+    // Keeps the show's title (validation checks for it) but calibrates the season or episode
+    prompt += ` This card is about ${scopeLabel(media.scope, media.scope.name)} only: describe how it feels, and how it differs in tone or intensity from the rest of the show, not the series as a whole.`;
+  }
+
+  return { system: CURRENT_PROMPT.systemPrompt, prompt };
+}
+
+// Ask the repair chain to fix the rules a draft broke (returns null if every provider fails)
+async function repairCard(content: string, title: string, violations: CardViolation[]): Promise<string | null> {
+  try {
+    const { text } = await completeWithFallback(
+      {
+        system: REPAIR_PROMPT,
+        prompt: `Title: "${title}"\n\n## Problems\n${violations.map((v) => `- ${v.message}`).join("\n")}\n\n## Card\n${content}`,
+      },
+      getProviderChain("repair")
+    );
+    return text.trim() || null;
+  } catch (error) {
+    console.error("Card repair failed:", error);
+    return null;
+  }
+}
+
+// Validate a generated card and, if it broke any rules, try one targeted repair.
+// The repaired draft is only kept if it has fewer violations than the original.
+export async function validateAndRepair(
+  content: string,
+  title: string
+): Promise<{ cardContent: string; cardDocument: CardDocument; validation: CardValidation }> {
+  const cardDocument = parseCardDocument(content);
+  const violations = validateCard(content, cardDocument, { title });
+
+  if (violations.length === 0) {
+    return { cardContent: content, cardDocument, validation: { violations, repaired: false, remaining: [] } };
+  }
+
+  console.log(`Card for "${title}" broke ${violations.length} rules, repairing:`, violations.map((v) => v.rule));
+  const repaired = await repairCard(content, title, violations);
+
+  if (repaired) {
+    const repairedDocument = parseCardDocument(repaired);
+    const remaining = validateCard(repaired, repairedDocument, { title });
+    if (remaining.length < violations.length) {
+      console.log(`Repaired card for "${title}", ${remaining.length} violations remaining`);
+      return {
+        cardContent: repaired,
+        cardDocument: repairedDocument,
+        validation: { violations, repaired: true, remaining },
+      };
+    }
+  }
+
+  return { cardContent: content, cardDocument, validation: { violations, repaired: false, remaining: violations } };
+}
+
+export interface ComparisonResolution {
+  comparisons: Comparison[];
+  // Lookups that failed (rate limit, TMDB down) rather than found nothing.
+  // They stay in comparisons unresolved, for `texture backfill comparisons`.
+  failed: ParsedComparison[];
+}
+
+export function hasUnresolvedComparisons(card: { comparisons: Comparison[] | null }): boolean {
+  return (card.comparisons || []).some((comparison) => comparison.tmdb_id === null);
+}
+
+// Look up each parsed comparison on TMDB; titles TMDB doesn't know are dropped,
+// titles it couldn't be asked about are kept unresolved
+export async function resolveComparisons(parsed: ParsedComparison[]): Promise<ComparisonResolution> {
+  const failed: ParsedComparison[] = [];
+
+  const results = await Promise.all(
+    parsed.map(async (pc): Promise<Comparison | null> => {
+      let resolved;
+      try {
+        resolved = await resolveComparisonTitle(pc.title);
+      } catch (error) {
+        console.error(`Failed to resolve comparison title "${pc.title}":`, error);
+        failed.push(pc);
+        return {
+          title: pc.title,
+          original_title: pc.title,
+          tmdb_id: null,
+          media_type: null,
+          year: "",
+          slug: "",
+          phrase: pc.phrase,
+        };
+      }
+      if (!resolved) {
+        return null;
+      }
+      return {
+        title: resolved.title,
+        original_title: pc.title, // Store original for matching
+        tmdb_id: resolved.tmdb_id,
+        media_type: resolved.media_type,
+        year: resolved.year,
+        slug: generateSlug(resolved.title, resolved.year),
+        phrase: pc.phrase,
+      };
+    })
+  );
+
+  return { comparisons: results.filter((c): c is Comparison => c !== null), failed };
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { formatScope, parseScope, scopeFromInput, scopeLabel } from "@/lib/card-scope";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import { getCachedCard, getScopedCards, saveCard } from "@/lib/supabase";
+
+describe("card scopes", () => {
+  it("round-trips season and episode keys", () => {
+    expect(formatScope({ season: 2 })).toBe("s2");
+    expect(formatScope({ season: 2, episode: 6 })).toBe("s2e6");
+    expect(formatScope(null)).toBe("");
+    expect(parseScope("s2")).toEqual({ season: 2 });
+    expect(parseScope("S02E06")).toEqual({ season: 2, episode: 6 });
+  });
+
+  it("rejects anything that isn't a scope", () => {
+    expect(parseScope("")).toBeNull();
+    expect(parseScope("season-2")).toBeNull();
+    expect(parseScope("s2e0")).toBeNull();
+    expect(scopeFromInput("two", undefined)).toBeNull();
+    expect(scopeFromInput(2, -1)).toBeNull();
+    expect(scopeFromInput("2", "6")).toEqual({ season: 2, episode: 6 });
+  });
+
+  it("labels seasons and episodes", () => {
+    expect(scopeLabel({ season: 2 }, "Season 2")).toBe("Season 2");
+    expect(scopeLabel({ season: 0 }, "Specials")).toBe("Season 0: Specials");
+    expect(scopeLabel({ season: 2, episode: 6 }, "Fishes")).toBe("Season 2, Episode 6: Fishes");
+  });
+});
+
+describe("season cards", () => {
+  afterEach(() => setRepositories(null));
+
+  const card = {
+    tmdbId: 136315,
+    title: "The Bear",
+    mediaType: "tv",
+    year: "2022",
+    posterUrl: null,
+    genres: ["Drama"],
+    cardContent: "**The Bear** is tense.",
+    provider: "mock",
+    promptVersion: "v1",
+  };
+
+  it("saves one card per scope under the show's slug", async () => {
+    setRepositories(createMemoryRepositories(createMemoryStore()));
+
+    const show = await saveCard(card);
+    const season = await saveCard({ ...card, scope: { season: 2 }, scopeName: "Season 2" });
+    const episode = await saveCard({ ...card, scope: { season: 2, episode: 6 }, scopeName: "Fishes" });
+    await saveCard({ ...card, scope: { season: 2 }, cardContent: "**The Bear** is louder." });
+
+    expect([show.slug, season.slug, episode.slug]).toEqual(["the-bear-2022", "the-bear-2022/s2", "the-bear-2022/s2e6"]);
+    expect((await getCachedCard(136315, "tv"))?.id).toBe(show.id);
+    expect((await getCachedCard(136315, "tv", { season: 2 }))?.card_content).toBe("**The Bear** is louder.");
+    expect((await getScopedCards(136315, "tv")).map((c) => c.scope)).toEqual(["s2", "s2e6"]);
+  });
+});
@@ -0,0 +1,62 @@
+// A card covers a whole title, one season of a series, or one episode.
+// The scope is stored on the card as a short key ("" for the whole title,
+// "s2", "s2e6") that is also the last segment of its URL:
+//   /card/the-bear-2022      the show
+//   /card/the-bear-2022/s2   its second season
+
+export interface CardScope {
+  season: number;
+  episode?: number;
+}
+
+export function formatScope(scope: CardScope | null): string {
+  if (!scope) {
+    return "";
+  }
+  return scope.episode ? `s${scope.season}e${scope.episode}` : `s${scope.season}`;
+}
+
+// "s2" / "s2e6" (leading zeros allowed); null for the whole title or anything else
+export function parseScope(key: string | null | undefined): CardScope | null {
+  const match = (key || "").toLowerCase().match(/^s(\d{1,3})(?:e(\d{1,4}))?$/);
+  if (!match) {
+    return null;
+  }
+  const season = Number(match[1]);
+  const episode = match[2] ? Number(match[2]) : undefined;
+  if (episode === 0) {
+    return null;
+  }
+  return episode ? { season, episode } : { season };
+}
+
+// Scope from request input, e.g. { season: "2", episode: 6 }; null if absent or invalid
+export function scopeFromInput(season: unknown, episode: unknown): CardScope | null {
+  const seasonNumber = Number(season);
+  if (season === undefined || season === null || season === "" || !Number.isInteger(seasonNumber) || seasonNumber < 0) {
+    return null;
+  }
+  const episodeNumber = Number(episode);
+  if (episode === undefined || episode === null || episode === "") {
+    return { season: seasonNumber };
+  }
+  return Number.isInteger(episodeNumber) && episodeNumber > 0 ? { season: seasonNumber, episode: episodeNumber } : null;
+}
+
+// "Season 2", "Season 2, Episode 6: Fishes"
+export function scopeLabel(scope: CardScope | null, name?: string | null): string {
+  if (!scope) {
+    return "";
+  }
+  if (scope.episode) {
+    return `Season ${scope.season}, Episode ${scope.episode}${name ? `: ${name}` : ""}`;
+  }
+  // TMDB season names are usually just "Season 2", but specials and some shows have real names
+  return name && name !== `Season ${scope.season}` ? `Season ${scope.season}: ${name}` : `Season ${scope.season}`;
+}
+
+// "The Bear" or "The Bear: Season 2", from a card's title, scope key and scope name
+export function scopedTitle(title: string, scope: string, name?: string | null): string {
+  const parsed = parseScope(scope);
+  return parsed ? `${title}: ${scopeLabel(parsed, name)}` : title;
+}
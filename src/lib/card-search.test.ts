@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseSnippet, searchTerms } from "@/lib/card-search";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import type { CachedCard } from "@/lib/supabase";
+import { makeCard } from "@/lib/test-fixtures";
+
+function card(id: string, fields: Partial<CachedCard>): CachedCard {
+  return makeCard({ id, tmdb_id: null, title: id, slug: id, media_type: "movie", year: "2020", genres: null, ...fields });
+}
+
+const cards = [
+  card("hereditary", {
+    title: "Hereditary",
+    calibration_sentence: "A slow burn of dread that turns into grief you can't look away from.",
+    card_content: "**Hereditary** is about grief first and horror second. The dread builds slowly.",
+  }),
+  card("paddington", {
+    title: "Paddington 2",
+    calibration_sentence: "The ultimate comfort watch.",
+    card_content: "Warm, silly and kind. A comfort watch for a bad week.",
+  }),
+  card("the-leftovers", {
+    title: "The Leftovers",
+    media_type: "tv",
+    card_content: "A show about grief on a global scale, with moments of strange comfort.",
+  }),
+];
+
+async function search(query: string) {
+  const repositories = createMemoryRepositories(createMemoryStore({ cards }));
+  return repositories.cards.search(query, 10);
+}
+
+describe("card search", () => {
+  it("ranks cards matching more of the query higher", async () => {
+    const hits = await search("slow burn dread");
+    expect(hits.map((hit) => hit.card.id)).toEqual(["hereditary"]);
+
+    // Any word can match, but Paddington matches two of the three
+    const grief = await search("comfort watch about grief");
+    expect(grief[0].card.id).toBe("paddington");
+    expect(grief.map((hit) => hit.card.id).sort()).toEqual(["hereditary", "paddington", "the-leftovers"]);
+  });
+
+  it("weights titles above prose", async () => {
+    const hits = await search("leftovers");
+    expect(hits[0].card.id).toBe("the-leftovers");
+  });
+
+  it("matches word forms", () => {
+    expect(searchTerms("Grieving watches")).toEqual(searchTerms("grieved watch"));
+  });
+
+  it("returns highlighted snippets", async () => {
+    const [hit] = await search("dread");
+    const parts = parseSnippet(hit.snippet);
+
+    expect(parts.filter((part) => part.highlight).map((part) => part.text)).toEqual(["dread", "dread"]);
+    expect(parts.map((part) => part.text).join("")).not.toContain("**");
+  });
+
+  it("ignores queries made only of stopwords", async () => {
+    expect(await search("what is it about")).toEqual([]);
+  });
+});
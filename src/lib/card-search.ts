@@ -0,0 +1,138 @@
+import type { CachedCard } from "@/lib/supabase";
+
+// Relevance search over our own cards. In Supabase this is the search_cards
+// function (supabase/migrations/0008_card_search.sql): Postgres full-text
+// search weighting the title over the calibration sentence, comparisons and
+// card prose, with ts_headline snippets. The in-memory store uses the matcher
+// below, which follows the same rules closely enough for local development.
+//
+// Snippets mark matched words with HIGHLIGHT_START/HIGHLIGHT_END;
+// parseSnippet turns them into parts the UI can render without HTML.
+
+export const HIGHLIGHT_START = "⟦";
+export const HIGHLIGHT_END = "⟧";
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+// A search result as the API returns it
+export interface CardSearchResult {
+  id: string;
+  slug: string | null;
+  title: string; // Includes the season or episode for scoped cards
+  year: string | null;
+  mediaType: string;
+  posterUrl: string | null;
+  calibrationSentence: string | null;
+  snippet: SnippetPart[];
+}
+
+export function parseSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  const pattern = /⟦([^⟧]*)⟧/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(snippet))) {
+    if (match.index > last) {
+      parts.push({ text: snippet.slice(last, match.index), highlight: false });
+    }
+    parts.push({ text: match[1], highlight: true });
+    last = match.index + match[0].length;
+  }
+  if (last < snippet.length) {
+    parts.push({ text: snippet.slice(last), highlight: false });
+  }
+  return parts;
+}
+
+// Card markdown without the markup, for snippets
+export function plainText(markdown: string): string {
+  return markdown
+    .replace(/^#+\s*/gm, "")
+    .replace(/[*_`>]+/g, "")
+    .replace(/^\s*[-•]\s+/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Postgres' english config drops these too
+const STOPWORDS = new Set(
+  ("a about an and are as at be but by for from has have how i in is it its " +
+    "like me my of on or so that the this to was what when with you").split(" ")
+);
+
+// Rough stand-in for the english stemmer, so "watches" finds "watch" and
+// "grieving" finds "grieved"
+export function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  for (const suffix of ["ing", "ed", "es", "s"]) {
+    if (word.endsWith(suffix) && !word.endsWith("ss") && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+export function searchTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']+/g) || [])
+    .map((word) => word.replace(/'s?$/, ""))
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// Same weights as Postgres' ts_rank defaults for A/B/C/D
+const FIELD_WEIGHTS = { title: 1, calibration: 0.4, comparisons: 0.2, content: 0.1 };
+
+const SNIPPET_WORDS = 30;
+
+// Relevance of a card for the query terms (0 = no match). Any term can match;
+// cards matching more of them rank higher.
+export function scoreCard(card: CachedCard, terms: string[]): number {
+  const unique = Array.from(new Set(terms));
+  if (unique.length === 0) return 0;
+
+  const fields = {
+    title: searchTerms(card.title),
+    calibration: searchTerms(card.calibration_sentence || ""),
+    comparisons: searchTerms((card.comparisons || []).map((c) => `${c.title} ${c.phrase}`).join(" ")),
+    content: searchTerms(card.card_content),
+  };
+
+  let score = 0;
+  let matched = 0;
+  for (const term of unique) {
+    let termScore = 0;
+    for (const field of Object.keys(fields) as (keyof typeof fields)[]) {
+      const count = fields[field].filter((word) => word === term).length;
+      termScore += FIELD_WEIGHTS[field] * Math.min(count, 3);
+    }
+    if (termScore > 0) matched++;
+    score += termScore;
+  }
+  return score * (matched / unique.length);
+}
+
+// The window of the calibration sentence and prose with the most matches, with matches marked
+export function buildSnippet(card: CachedCard, terms: string[]): string {
+  const words = plainText(`${card.calibration_sentence || ""} ${card.card_content}`).split(" ");
+  const wanted = new Set(terms);
+  const matches = words.map((word) => searchTerms(word).some((term) => wanted.has(term)));
+
+  let bestStart = 0;
+  let bestCount = -1;
+  for (let start = 0; start < Math.max(1, words.length - SNIPPET_WORDS + 1); start++) {
+    const count = matches.slice(start, start + SNIPPET_WORDS).filter(Boolean).length;
+    if (count > bestCount) {
+      bestStart = start;
+      bestCount = count;
+    }
+  }
+
+  const window = words
+    .slice(bestStart, bestStart + SNIPPET_WORDS)
+    .map((word, i) => (matches[bestStart + i] ? `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}` : word));
+  return `${bestStart > 0 ? "… " : ""}${window.join(" ")}${bestStart + SNIPPET_WORDS < words.length ? " …" : ""}`;
+}
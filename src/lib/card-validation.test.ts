@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseCardDocument } from "@/lib/card-document";
+import { validateAndRepair } from "@/lib/card-generation";
+import { countWords, findTitleSubstitutions, validateCard } from "@/lib/card-validation";
+import * as llm from "@/lib/llm";
+
+// The same real-world model output the parser tests use (fixtures/cards)
+function loadCard(name: string): string {
+  return fs.readFileSync(path.join(__dirname, "fixtures", "cards", `${name}.md`), "utf8");
+}
+
+function rules(content: string, title: string): string[] {
+  return validateCard(content, parseCardDocument(content), { title }).map((v) => v.rule);
+}
+
+// Follows every rule
+const severance = loadCard("gemini-lone-dash");
+
+describe("validateCard", () => {
+  it("passes the fixtures that follow every rule", () => {
+    expect(rules(severance, "Severance")).toEqual([]);
+    expect(rules(loadCard("star-bullets"), "The Dark Knight")).toEqual([]);
+  });
+
+  it("flags sections out of order", () => {
+    const worthKnowing = "**Worth knowing**\nThe first two episodes are slow on purpose; the finale pays it off.";
+    const moved = severance.replace(worthKnowing, "").replace("**How it feels**", `${worthKnowing}\n\n**How it feels**`);
+    expect(rules(moved, "Severance")).toEqual(["section-order"]);
+  });
+
+  it("flags fewer than three comparisons", () => {
+    expect(rules(loadCard("nested-italics"), "Hereditary")).toEqual(["comparison-count"]);
+  });
+
+  it("flags cards of 250 words or more", () => {
+    const long = severance.replace("pays it off.", `pays it off.${" And then some.".repeat(60)}`);
+    expect(countWords(long)).toBeGreaterThanOrEqual(250);
+    expect(rules(long, "Severance")).toEqual(["word-count"]);
+  });
+
+  it("flags warning phrases", () => {
+    const warned = severance.replace("Grief, control,", "Content warning: grief, control,");
+    expect(rules(warned, "Severance")).toEqual(["warning-phrase"]);
+  });
+
+  it("flags near-miss spellings of the title", () => {
+    const misspelled = severance.replace("*Severance* looks", "*Severence* looks");
+    expect(validateCard(misspelled, parseCardDocument(misspelled), { title: "Severance" })).toEqual([
+      { rule: "title-fidelity", message: 'Refers to "Severence" instead of the exact title "Severance".' },
+    ]);
+  });
+
+  it("flags emoji and rating symbols", () => {
+    expect(rules(severance.replace("pays it off.", "pays it off. ★★★★"), "Severance")).toEqual(["emoji"]);
+    expect(rules(severance.replace("pays it off.", "pays it off. 🍿"), "Severance")).toEqual(["emoji"]);
+  });
+
+  it("flags sections starting with a lowercase word", () => {
+    const lowercase = severance.replace("Watching it feels", "watching it feels");
+    expect(rules(lowercase, "Severance")).toEqual(["lowercase-section"]);
+  });
+});
+
+describe("countWords", () => {
+  it("counts words, not markup or arrows", () => {
+    expect(countWords("**How it feels**\n- *Lost* → A mystery box.\n- *Heat* -> Two pros.")).toBe(10);
+  });
+});
+
+describe("findTitleSubstitutions", () => {
+  it("finds capitalized near-misses, skipping ignored titles and short titles", () => {
+    const content = "*Unforgotten* is a western. Unforgiven, unforgotten, and *Unforgotten* again.";
+    expect(findTitleSubstitutions(content, "Unforgiven")).toEqual(["Unforgotten"]);
+    expect(findTitleSubstitutions(content, "Unforgiven", ["Unforgotten"])).toEqual([]);
+    expect(findTitleSubstitutions("Heat is not Heal.", "Heat")).toEqual([]);
+  });
+});
+
+describe("validateAndRepair", () => {
+  const broken = severance.replace("pays it off.", "pays it off. ★★★★");
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function repairWith(text: string) {
+    return vi.spyOn(llm, "completeWithFallback").mockResolvedValue({ provider: {} as llm.LLMProvider, text });
+  }
+
+  it("saves a card that follows every rule without asking for a repair", async () => {
+    const complete = repairWith(severance);
+    const result = await validateAndRepair(severance, "Severance");
+    expect(result.validation).toEqual({ violations: [], repaired: false, remaining: [] });
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it("keeps a repair with fewer violations", async () => {
+    repairWith(severance);
+    const result = await validateAndRepair(broken, "Severance");
+    expect(result.cardContent).toBe(severance.trim());
+    expect(result.validation.repaired).toBe(true);
+    expect(result.validation.violations.map((v) => v.rule)).toEqual(["emoji"]);
+    expect(result.validation.remaining).toEqual([]);
+  });
+
+  it("keeps the original when the repair is no better", async () => {
+    repairWith(broken.replace("Watching it feels", "watching it feels"));
+    const result = await validateAndRepair(broken, "Severance");
+    expect(result.cardContent).toBe(broken);
+    expect(result.validation).toMatchObject({ repaired: false });
+    expect(result.validation.remaining).toEqual(result.validation.violations);
+  });
+
+  it("keeps the original when every repair provider fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(llm, "completeWithFallback").mockRejectedValue(new Error("down"));
+    const result = await validateAndRepair(broken, "Severance");
+    expect(result.cardContent).toBe(broken);
+    expect(result.validation.repaired).toBe(false);
+  });
+});
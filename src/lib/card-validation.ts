@@ -0,0 +1,214 @@
+import { CardDocument, SectionKey, listSectionOrder } from "@/lib/card-document";
+import { findPhrases, lintCalibrationSentence } from "@/lib/calibration-lint";
+
+// Checks a generated card against the rules in SYSTEM_PROMPT. Violations are
+// fed back to the model as a targeted repair prompt before the card is saved.
+
+export type CardRule =
+  | "missing-section"
+  | "section-order"
+  | "comparison-count"
+  | "missing-calibration"
+  | "calibration-style"
+  | "word-count"
+  | "warning-phrase"
+  | "title-fidelity"
+  | "stray-bullets"
+  | "emoji"
+  | "lowercase-section";
+
+export interface CardViolation {
+  rule: CardRule;
+  message: string;
+}
+
+// What we found at generation time, stored with the card
+export interface CardValidation {
+  violations: CardViolation[]; // Found in the model's first draft
+  repaired: boolean; // Whether the saved content is a repaired draft
+  remaining: CardViolation[]; // Still present in the saved content
+}
+
+export const MAX_CARD_WORDS = 250;
+const MIN_COMPARISONS = 3;
+const MAX_COMPARISONS = 4;
+
+// Required order from SYSTEM_PROMPT's "Card Structure (STRICT ORDER)"
+const SECTION_ORDER: SectionKey[] = [
+  "opening",
+  "howItFeels",
+  "whatMakesItHeavy",
+  "comparisons",
+  "calibration",
+  "worthKnowing",
+];
+
+const SECTION_LABELS: Record<SectionKey, string> = {
+  opening: "Opening",
+  howItFeels: "How it feels",
+  whatMakesItHeavy: "What makes it heavy",
+  comparisons: "Compared to shows you may know",
+  calibration: "Calibration sentence",
+  worthKnowing: "Worth knowing",
+};
+
+const WARNING_PHRASES = ["trigger warning", "content warning"];
+
+export function countWords(cardContent: string): number {
+  return cardContent
+    .replace(/[*#→]|->/g, " ")
+    .split(/\s+/)
+    .filter((word) => /[A-Za-z0-9]/.test(word)).length;
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function normalizeTitle(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/'s\b/g, "")
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Find near-miss spellings of the title ("Unforgotten" for "Unforgiven").
+// Only capitalized runs are considered, and comparison titles are ignored.
+export function findTitleSubstitutions(cardContent: string, title: string, ignore: string[] = []): string[] {
+  const target = normalizeTitle(title);
+  if (target.length < 5) {
+    return [];
+  }
+
+  const ignored = new Set(ignore.map(normalizeTitle));
+  const words = cardContent.replace(/[*_#]/g, " ").split(/\s+/).filter(Boolean);
+  const size = title.trim().split(/\s+/).length;
+  const found = new Set<string>();
+
+  for (let i = 0; i + size <= words.length; i++) {
+    const run = words.slice(i, i + size);
+    if (!/^[A-Z]/.test(run[0])) continue;
+
+    const candidate = normalizeTitle(run.join(" "));
+    if (!candidate || candidate === target || ignored.has(candidate)) continue;
+    if (candidate[0] !== target[0]) continue;
+
+    const distance = levenshtein(candidate, target);
+    if (distance / Math.max(candidate.length, target.length) <= 0.3) {
+      found.add(run.join(" ").replace(/[^A-Za-z0-9'\s]+$/, ""));
+    }
+  }
+
+  return Array.from(found);
+}
+
+export function validateCard(
+  cardContent: string,
+  doc: CardDocument,
+  options: { title: string }
+): CardViolation[] {
+  const violations: CardViolation[] = [];
+
+  // Structure
+  const required: [SectionKey, boolean][] = [
+    ["opening", !!doc.opening],
+    ["howItFeels", !!doc.howItFeels?.body],
+    ["comparisons", doc.comparisons.length > 0],
+    ["worthKnowing", !!doc.worthKnowing?.body],
+  ];
+  for (const [key, present] of required) {
+    if (!present) {
+      violations.push({ rule: "missing-section", message: `Missing the "${SECTION_LABELS[key]}" section.` });
+    }
+  }
+
+  const order = listSectionOrder(cardContent);
+  const ranks = order.map((key) => SECTION_ORDER.indexOf(key));
+  const outOfOrder = ranks.findIndex((rank, i) => i > 0 && rank < ranks[i - 1]);
+  if (outOfOrder > 0) {
+    violations.push({
+      rule: "section-order",
+      message: `"${SECTION_LABELS[order[outOfOrder]]}" appears after "${SECTION_LABELS[order[outOfOrder - 1]]}". Required order: ${SECTION_ORDER.map((key) => SECTION_LABELS[key]).join(" → ")}.`,
+    });
+  }
+
+  if (doc.comparisons.length > 0 && (doc.comparisons.length < MIN_COMPARISONS || doc.comparisons.length > MAX_COMPARISONS)) {
+    violations.push({
+      rule: "comparison-count",
+      message: `Has ${doc.comparisons.length} comparisons; needs ${MIN_COMPARISONS}-${MAX_COMPARISONS} in the "- *Title* → sentence" format.`,
+    });
+  }
+
+  // Calibration sentence
+  if (!doc.calibration) {
+    violations.push({
+      rule: "missing-calibration",
+      message: 'Missing the calibration sentence ("*If *Title* felt like X, this feels like Y.*") between the comparisons and "Worth knowing".',
+    });
+  } else {
+    // Only hard errors go to repair; style warnings are for ranking and the admin
+    const lint = lintCalibrationSentence(doc.calibration.text);
+    for (const v of lint.violations.filter((v) => v.severity === "error")) {
+      violations.push({ rule: "calibration-style", message: `Calibration sentence: ${v.message}` });
+    }
+  }
+
+  // Constraints
+  const words = countWords(cardContent);
+  if (words >= MAX_CARD_WORDS) {
+    violations.push({ rule: "word-count", message: `Card is ${words} words; must be under ${MAX_CARD_WORDS}.` });
+  }
+
+  const warnings = findPhrases(cardContent, WARNING_PHRASES);
+  if (warnings.length > 0) {
+    violations.push({
+      rule: "warning-phrase",
+      message: `Uses ${warnings.map((w) => `"${w}"`).join(" and ")}; frame sensitivities as observations instead.`,
+    });
+  }
+
+  const substitutions = findTitleSubstitutions(cardContent, options.title, [
+    ...doc.comparisons.map((c) => c.title),
+    ...(doc.calibration ? [doc.calibration.title] : []),
+  ]);
+  if (substitutions.length > 0) {
+    violations.push({
+      rule: "title-fidelity",
+      message: `Refers to ${substitutions.map((t) => `"${t}"`).join(", ")} instead of the exact title "${options.title}".`,
+    });
+  }
+
+  // Formatting
+  const prose = [doc.opening, doc.howItFeels?.body, doc.whatMakesItHeavy?.body, doc.worthKnowing?.body];
+  if (prose.some((body) => body && /^[-*]\s/m.test(body))) {
+    violations.push({ rule: "stray-bullets", message: "Uses bullet points outside the comparison section." });
+  }
+
+  // Emoji (astral plane) plus the misc symbols block, which covers ★ and ☆
+  if (/[\uD83C-\uDBFF][\uDC00-\uDFFF]|[\u2600-\u27BF]/.test(cardContent)) {
+    violations.push({ rule: "emoji", message: "Contains emoji or rating symbols." });
+  }
+
+  const sections = [doc.howItFeels, doc.whatMakesItHeavy, doc.worthKnowing];
+  const lowercase = sections.filter((section) => section?.body && /^[a-z]/.test(section.body));
+  if (lowercase.length > 0) {
+    violations.push({
+      rule: "lowercase-section",
+      message: `First word after ${lowercase.map((s) => `"${s!.heading}"`).join(", ")} is not capitalized.`,
+    });
+  }
+
+  return violations;
+}
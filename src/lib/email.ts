@@ -5,7 +5,7 @@ const resend = new Resend(process.env.RESEND_API_KEY);
 interface Card {
   id: string;
   title: string;
-  slug: string;
+  slug: string | null;
   year: string | null;
   calibration_sentence: string | null;
   poster_url: string | null;
@@ -17,13 +17,13 @@ interface PostPreviewEmailProps {
   approvalToken: string;
   slot: "morning" | "afternoon" | "evening";
   scheduledFor: Date;
+  imageUrl: string; // The selected card's share image
 }
 
 export async function sendPostPreviewEmail(props: PostPreviewEmailProps) {
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch";
   const approveUrl = `${baseUrl}/api/approve/${props.approvalToken}`;
   const adminUrl = `${baseUrl}/admin`;
-  const ogImageUrl = `${baseUrl}/api/og/${props.selectedCard.slug}`;
 
   const slotLabels = {
     morning: "Morning (Classic)",
@@ -58,7 +58,7 @@ export async function sendPostPreviewEmail(props: PostPreviewEmailProps) {
         </div>
 
         <div style="padding: 0;">
-          <img src="${ogImageUrl}" alt="${props.selectedCard.title}" style="width: 100%; display: block;" />
+          <img src="${props.imageUrl}" alt="${props.selectedCard.title}" style="width: 100%; display: block;" />
         </div>
 
         <div style="padding: 20px;">
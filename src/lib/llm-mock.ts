@@ -0,0 +1,138 @@
+import type { LLMProvider, LLMRequest } from "@/lib/llm";
+
+// Offline stand-in for the real models. OFFLINE_MODE=1 makes every chain
+// ["mock"]; it isn't registered otherwise, so it can't be named in a chain or forced.
+//
+// Output is deterministic for a given prompt. Knobs:
+//   MOCK_LLM_FIRST_CHUNK_DELAY_MS  wait before the first chunk (default 150)
+//   MOCK_LLM_CHUNK_DELAY_MS        wait between chunks (default 15)
+//   MOCK_LLM_FAILURE               "error" to throw, "timeout" to stall for 30s and then throw
+//   MOCK_LLM_FAIL_EVERY            fail every Nth call only (with MOCK_LLM_FAILURE)
+
+const CHUNK_WORDS = 3;
+
+let calls = 0;
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Throw or hang according to MOCK_LLM_FAILURE / MOCK_LLM_FAIL_EVERY
+async function maybeFail(): Promise<void> {
+  calls++;
+  const failure = process.env.MOCK_LLM_FAILURE;
+  if (!failure) return;
+
+  const every = envNumber("MOCK_LLM_FAIL_EVERY", 1);
+  if (every > 1 && calls % every !== 0) return;
+
+  if (failure === "timeout") {
+    await sleep(30_000);
+    throw new Error("Mock LLM timeout");
+  }
+  throw new Error("Mock LLM failure");
+}
+
+// The title the caller asked about ('...calibration card for "The Bear"')
+function requestedTitle(prompt: string): string {
+  const match = prompt.match(/card for "([^"]+)"/);
+  return match ? match[1].trim() : "this title";
+}
+
+function mockCard(title: string): string {
+  return `*${title}* looks like a story about work and family, but it is really about what it costs to keep showing up for people who are hard to love.
+
+**How it feels**
+Watching it feels like standing too close to a hot stove for an hour. The tension rarely breaks, and the quiet moments land harder because you are braced for the next shout.
+
+**What makes it heavy**
+Grief sits under every scene, along with addiction in the family and long stretches of shouting that can feel like being in the room.
+
+**Compared to shows you may know**
+- *Succession* → Both are about families at war, but this one wants its people to get better.
+- *The Office* → Same workplace awkwardness, with the laugh track replaced by a ringing in your ears.
+- *Ted Lasso* → Where that show hands you a biscuit, this one hands you a dish towel and asks you to help.
+
+*If *Succession* felt like watching a fire from across the street, this feels like breathing the smoke on the walk home.*
+
+**Worth knowing**
+The later episodes slow down and let characters breathe, so the first stretch is the most intense part.`;
+}
+
+const MOCK_SENTENCES = [
+  "*If *Ted Lasso* felt like a warm hug, this feels like a hug from someone whose hands are still shaking.*",
+  "*If *Succession* felt like watching a fire from across the street, this feels like breathing the smoke on the walk home.*",
+  "*If *The Office* felt like cringing on the couch, this feels like wanting to text your old boss an apology.*",
+  "*If *Severance* felt like a locked door, this feels like finally finding the key and not wanting to use it.*",
+];
+
+function mockResponse(request: LLMRequest): string {
+  const prompt = request.prompt;
+
+  // Calibration regeneration
+  if (/calibration sentences/i.test(prompt)) {
+    return MOCK_SENTENCES.join("\n");
+  }
+
+  // Versus pages
+  if (/Compare these two titles/i.test(prompt)) {
+    return JSON.stringify({
+      shared: ["Slow-burn tension", "Found family", "Grief under the jokes"],
+      contrasts: [
+        { a: "Loud and frantic", b: "Quiet and watchful" },
+        { a: "Kitchen heat", b: "Office chill" },
+      ],
+      verdict: "Both keep you braced for the next blow-up, so watch them when you have the energy to care about people who are hard to love.",
+    });
+  }
+
+  // Discovery scoring
+  if (/Respond in JSON/i.test(prompt)) {
+    return JSON.stringify({ isRelevant: true, score: 75, detectedTitle: "The Bear" });
+  }
+
+  // Repair: hand the card back unchanged
+  const repair = prompt.match(/## Card\n([\s\S]*)$/);
+  if (repair) {
+    return repair[1].trim();
+  }
+
+  return mockCard(requestedTitle(prompt));
+}
+
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  model: "mock",
+  timeoutMs: 8000,
+  cost: { inputPerMTok: 0, outputPerMTok: 0 },
+  isConfigured: () => true,
+
+  async stream(request) {
+    await maybeFail();
+    const words = mockResponse(request).match(/\S+\s*/g) || [];
+    const firstChunkDelay = envNumber("MOCK_LLM_FIRST_CHUNK_DELAY_MS", 150);
+    const chunkDelay = envNumber("MOCK_LLM_CHUNK_DELAY_MS", 15);
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        await sleep(firstChunkDelay);
+        for (let i = 0; i < words.length; i += CHUNK_WORDS) {
+          if (i > 0) await sleep(chunkDelay);
+          yield words.slice(i, i + CHUNK_WORDS).join("");
+        }
+      },
+    };
+  },
+
+  async complete(request) {
+    await maybeFail();
+    await sleep(envNumber("MOCK_LLM_FIRST_CHUNK_DELAY_MS", 150));
+    return mockResponse(request);
+  },
+};
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "@/lib/llm";
+
+// Health is per module instance, so each test imports a fresh registry
+let llm: typeof import("@/lib/llm");
+
+function fakeProvider(id: string, options: { configured?: boolean; fail?: boolean; stall?: boolean } = {}): LLMProvider {
+  const { configured = true, fail = false, stall = false } = options;
+  return {
+    id,
+    model: `${id}-model`,
+    timeoutMs: 20,
+    cost: { inputPerMTok: 1, outputPerMTok: 1 },
+    isConfigured: () => configured,
+    async stream() {
+      if (fail) throw new Error(`${id} is down`);
+      return {
+        async *[Symbol.asyncIterator]() {
+          if (stall) await new Promise(() => {});
+          yield `${id} chunk`;
+        },
+      };
+    },
+    async complete() {
+      if (fail) throw new Error(`${id} is down`);
+      return `${id} text`;
+    },
+  };
+}
+
+function ids(chain: LLMProvider[]): string[] {
+  return chain.map((provider) => provider.id);
+}
+
+async function loadLlm(): Promise<void> {
+  vi.resetModules();
+  llm = await import("@/lib/llm");
+}
+
+describe("LLM provider chains", () => {
+  beforeEach(async () => {
+    vi.stubEnv("OFFLINE_MODE", "");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await loadLlm();
+    llm.registerProvider(fakeProvider("claude"));
+    llm.registerProvider(fakeProvider("gemini"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("orders each task's chain, and LLM_CHAIN_<TASK> overrides it", () => {
+    expect(ids(llm.getProviderChain("card"))).toEqual(["gemini", "claude"]);
+    expect(ids(llm.getProviderChain("repair"))).toEqual(["claude", "gemini"]);
+
+    vi.stubEnv("LLM_CHAIN_CARD", " claude , unknown,gemini");
+    expect(ids(llm.getProviderChain("card"))).toEqual(["claude", "gemini"]);
+    expect(ids(llm.getProviderChain("versus"))).toEqual(["gemini", "claude"]);
+  });
+
+  it("skips providers without credentials", () => {
+    llm.registerProvider(fakeProvider("gemini", { configured: false }));
+    expect(ids(llm.getProviderChain("card"))).toEqual(["claude"]);
+  });
+
+  it("falls back to the next provider when one fails or stalls", async () => {
+    llm.registerProvider(fakeProvider("gemini", { stall: true }));
+    const started = await llm.streamWithFallback({ prompt: "hi" }, llm.getProviderChain("card"));
+    expect(started.provider.id).toBe("claude");
+    expect(started.firstChunk).toBe("claude chunk");
+
+    llm.registerProvider(fakeProvider("claude", { fail: true }));
+    const { provider, text } = await llm.completeWithFallback({ prompt: "hi" }, llm.getProviderChain("repair"));
+    expect(provider.id).toBe("gemini");
+    expect(text).toBe("gemini text");
+  });
+
+  it("throws when every provider fails", async () => {
+    const chain = [fakeProvider("claude", { fail: true }), fakeProvider("gemini", { fail: true })];
+    const error = await llm.completeWithFallback({ prompt: "hi" }, chain).catch((e) => e);
+    expect(error).toBeInstanceOf(llm.AllProvidersFailedError);
+    expect(error.errors.map((e: { provider: string }) => e.provider)).toEqual(["claude", "gemini"]);
+  });
+
+  it("skips a failing provider until its cooldown expires", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    const broken = fakeProvider("gemini", { fail: true });
+    llm.registerProvider(broken);
+
+    for (let i = 0; i < 3; i++) {
+      await llm.completeWithFallback({ prompt: "hi" }, llm.getProviderChain("card"));
+    }
+    expect(llm.isProviderHealthy("gemini")).toBe(false);
+    expect(ids(llm.getProviderChain("card"))).toEqual(["claude"]);
+    expect(llm.getProviderHealth("gemini")).toMatchObject({ failures: 3, consecutiveFailures: 3, lastError: "gemini is down" });
+
+    vi.setSystemTime(new Date("2025-01-01T00:01:01Z"));
+    expect(llm.isProviderHealthy("gemini")).toBe(true);
+    expect(ids(llm.getProviderChain("card"))).toEqual(["gemini", "claude"]);
+  });
+
+  it("keeps unhealthy providers when nothing else is left", async () => {
+    llm.registerProvider(fakeProvider("claude", { configured: false }));
+    llm.registerProvider(fakeProvider("gemini", { fail: true }));
+    for (let i = 0; i < 3; i++) {
+      await llm.completeWithFallback({ prompt: "hi" }, llm.getProviderChain("card")).catch(() => {});
+    }
+    expect(ids(llm.getProviderChain("card"))).toEqual(["gemini"]);
+  });
+
+  it("forces only registered, configured providers", () => {
+    expect(ids(llm.getProviderChain("card", "claude"))).toEqual(["claude"]);
+
+    llm.registerProvider(fakeProvider("claude", { configured: false }));
+    expect(llm.getProviderChain("card", "claude")).toEqual([]);
+    // The mock only exists offline
+    expect(llm.getProviderChain("card", "mock")).toEqual([]);
+    expect(llm.getProvider("mock")).toBeNull();
+  });
+
+  it("routes everything to the mock offline", async () => {
+    vi.stubEnv("OFFLINE_MODE", "1");
+    await loadLlm();
+    expect(ids(llm.getProviderChain("card"))).toEqual(["mock"]);
+    expect(ids(llm.getProviderChain("discover", "claude"))).toEqual(["mock"]);
+    expect(llm.getProvider("mock")).not.toBeNull();
+  });
+});
@@ -0,0 +1,315 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { mockProvider } from "@/lib/llm-mock";
+
+// LLM provider registry. Every place that calls a model (card generation,
+// repair, calibration regeneration, discovery scoring, versus pages, seeding)
+// goes through here, so adding a provider means registering it once and naming
+// it in a chain.
+
+export interface LLMRequest {
+  system?: string;
+  prompt: string;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  id: string; // Short name used in chains and forceProvider, e.g. "claude"
+  model: string; // Stored in cards.provider
+  timeoutMs: number; // Max wait for the first chunk (and between chunks) before falling back
+  cost: { inputPerMTok: number; outputPerMTok: number }; // USD per million tokens
+  isConfigured(): boolean;
+  stream(request: LLMRequest): Promise<AsyncIterable<string>>;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+// What a chain is used for; each has its own default order
+export type LLMTask = "card" | "repair" | "calibration" | "discover" | "versus";
+
+const DEFAULT_CHAINS: Record<LLMTask, string[]> = {
+  card: ["gemini", "claude"], // Gemini first (faster), Claude as fallback
+  repair: ["claude", "gemini"],
+  calibration: ["claude", "gemini"],
+  discover: ["claude", "gemini"],
+  versus: ["gemini", "claude"],
+};
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+// After this many consecutive failures a provider is skipped for HEALTH_COOLDOWN_MS
+const UNHEALTHY_AFTER_FAILURES = 3;
+const HEALTH_COOLDOWN_MS = 60_000;
+
+export class AllProvidersFailedError extends Error {
+  constructor(public errors: { provider: string; error: unknown }[]) {
+    super(`All LLM providers failed: ${errors.map((e) => e.provider).join(", ") || "none configured"}`);
+    this.name = "AllProvidersFailedError";
+  }
+}
+
+// --- Built-in providers ---
+
+let anthropic: Anthropic | null = null;
+let gemini: GoogleGenerativeAI | null = null;
+
+// Clients are created on first use so scripts can load .env before calling in
+function getAnthropic(): Anthropic {
+  anthropic ??= new Anthropic();
+  return anthropic;
+}
+
+function getGemini(): GoogleGenerativeAI {
+  gemini ??= new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+  return gemini;
+}
+
+const claudeProvider: LLMProvider = {
+  id: "claude",
+  model: "claude-sonnet-4-20250514",
+  timeoutMs: 8000,
+  cost: { inputPerMTok: 3, outputPerMTok: 15 },
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+
+  async stream(request) {
+    const stream = getAnthropic().messages.stream({
+      model: this.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(request.system ? { system: request.system } : {}),
+      messages: [{ role: "user", content: request.prompt }],
+    });
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        for await (const event of stream) {
+          if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+            yield event.delta.text;
+          }
+        }
+      },
+    };
+  },
+
+  async complete(request) {
+    const response = await getAnthropic().messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(request.system ? { system: request.system } : {}),
+      messages: [{ role: "user", content: request.prompt }],
+    });
+
+    const textBlock = response.content.find((block) => block.type === "text");
+    if (!textBlock || textBlock.type !== "text") {
+      throw new Error("Claude returned no text");
+    }
+    return textBlock.text;
+  },
+};
+
+const geminiProvider: LLMProvider = {
+  id: "gemini",
+  model: "gemini-2.5-flash-lite-preview-06-17",
+  timeoutMs: 8000,
+  cost: { inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+
+  async stream(request) {
+    const result = await getGemini()
+      .getGenerativeModel({
+        model: this.model,
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        generationConfig: { maxOutputTokens: request.maxTokens || DEFAULT_MAX_TOKENS },
+      })
+      .generateContentStream(request.prompt);
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        for await (const chunk of result.stream) {
+          const text = chunk.text();
+          if (text) yield text;
+        }
+      },
+    };
+  },
+
+  async complete(request) {
+    const result = await getGemini()
+      .getGenerativeModel({
+        model: this.model,
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        generationConfig: { maxOutputTokens: request.maxTokens || DEFAULT_MAX_TOKENS },
+      })
+      .generateContent(request.prompt);
+
+    return result.response.text();
+  },
+};
+
+// --- Registry ---
+
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): LLMProvider | null {
+  return providers.get(id) || null;
+}
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+registerProvider(claudeProvider);
+registerProvider(geminiProvider);
+// Never in production: a forced or chained "mock" would save canned cards
+if (process.env.OFFLINE_MODE === "1") {
+  registerProvider(mockProvider);
+}
+
+// --- Health ---
+
+export interface ProviderHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastLatencyMs: number | null;
+}
+
+// Per-instance only: a cold serverless instance starts with every provider healthy
+const health = new Map<string, ProviderHealth>();
+
+export function getProviderHealth(id: string): ProviderHealth {
+  let entry = health.get(id);
+  if (!entry) {
+    entry = {
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastFailureAt: null,
+      lastLatencyMs: null,
+    };
+    health.set(id, entry);
+  }
+  return entry;
+}
+
+function recordSuccess(id: string, latencyMs: number): void {
+  const entry = getProviderHealth(id);
+  entry.successes++;
+  entry.consecutiveFailures = 0;
+  entry.lastLatencyMs = latencyMs;
+}
+
+function recordFailure(id: string, error: unknown): void {
+  const entry = getProviderHealth(id);
+  entry.failures++;
+  entry.consecutiveFailures++;
+  entry.lastError = error instanceof Error ? error.message : String(error);
+  entry.lastFailureAt = Date.now();
+}
+
+export function isProviderHealthy(id: string): boolean {
+  const entry = getProviderHealth(id);
+  if (entry.consecutiveFailures < UNHEALTHY_AFTER_FAILURES || !entry.lastFailureAt) {
+    return true;
+  }
+  return Date.now() - entry.lastFailureAt > HEALTH_COOLDOWN_MS;
+}
+
+// --- Chains ---
+
+// Ordered providers for a task. LLM_CHAIN_<TASK> (e.g. LLM_CHAIN_CARD="claude,gemini")
+// overrides the default order; forceProvider pins the chain to a single configured
+// provider. OFFLINE_MODE=1 routes every task to the mock provider.
+export function getProviderChain(task: LLMTask, forceProvider?: string): LLMProvider[] {
+  if (process.env.OFFLINE_MODE === "1") {
+    return [mockProvider];
+  }
+
+  if (forceProvider) {
+    const forced = getProvider(forceProvider);
+    return forced?.isConfigured() ? [forced] : [];
+  }
+
+  const configured = process.env[`LLM_CHAIN_${task.toUpperCase()}`];
+  const ids = configured
+    ? configured.split(",").map((id) => id.trim()).filter(Boolean)
+    : DEFAULT_CHAINS[task];
+
+  const chain = ids
+    .map((id) => getProvider(id))
+    .filter((provider): provider is LLMProvider => !!provider && provider.isConfigured());
+
+  // Skip providers that keep failing, unless that would leave nothing to try
+  const healthy = chain.filter((provider) => isProviderHealthy(provider.id));
+  return healthy.length > 0 ? healthy : chain;
+}
+
+// Rough cost of a call, using ~4 characters per token
+export function estimateCost(provider: LLMProvider, input: string, output: string): number {
+  const inputTokens = input.length / 4;
+  const outputTokens = output.length / 4;
+  return (inputTokens * provider.cost.inputPerMTok + outputTokens * provider.cost.outputPerMTok) / 1_000_000;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("Stream timeout")), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Start a stream on the first provider in the chain that produces a chunk in time.
+// The caller keeps reading from the returned iterator.
+export async function streamWithFallback(
+  request: LLMRequest,
+  chain: LLMProvider[]
+): Promise<{ provider: LLMProvider; firstChunk: string; iterator: AsyncIterator<string> }> {
+  const errors: { provider: string; error: unknown }[] = [];
+
+  for (const provider of chain) {
+    const startedAt = Date.now();
+    try {
+      const stream = await withTimeout(provider.stream(request), provider.timeoutMs);
+      const iterator = stream[Symbol.asyncIterator]();
+      const result = await withTimeout(iterator.next(), provider.timeoutMs);
+
+      recordSuccess(provider.id, Date.now() - startedAt);
+      return { provider, firstChunk: result.done ? "" : result.value, iterator };
+    } catch (error) {
+      console.error(`${provider.id} failed or timed out:`, error);
+      recordFailure(provider.id, error);
+      errors.push({ provider: provider.id, error });
+    }
+  }
+
+  throw new AllProvidersFailedError(errors);
+}
+
+// Run a non-streaming completion, falling back through the chain
+export async function completeWithFallback(
+  request: LLMRequest,
+  chain: LLMProvider[]
+): Promise<{ provider: LLMProvider; text: string }> {
+  const errors: { provider: string; error: unknown }[] = [];
+
+  for (const provider of chain) {
+    const startedAt = Date.now();
+    try {
+      const text = await provider.complete(request);
+      recordSuccess(provider.id, Date.now() - startedAt);
+      return { provider, text };
+    } catch (error) {
+      console.error(`${provider.id} failed:`, error);
+      recordFailure(provider.id, error);
+      errors.push({ provider: provider.id, error });
+    }
+  }
+
+  throw new AllProvidersFailedError(errors);
+}
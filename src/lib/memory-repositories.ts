@@ -0,0 +1,299 @@
+import crypto from "crypto";
+import type { CachedCard } from "@/lib/supabase";
+import { buildSnippet, scoreCard, searchTerms } from "@/lib/card-search";
+import type {
+  AdminSession,
+  CardSlugHistory,
+  CardVersus,
+  DiscoveredPost,
+  PendingPost,
+  PostLog,
+  Repositories,
+  TmdbCacheEntry,
+} from "@/lib/repositories";
+
+// In-memory implementations of the repositories, for local development
+// (OFFLINE_MODE=1 / DATA_STORE=memory) and route tests. Mirrors the Supabase
+// behavior the routes rely on: upsert by (media_type, tmdb_id, scope), column defaults, ordering.
+
+export interface MemoryStore {
+  cards: CachedCard[];
+  pendingPosts: PendingPost[];
+  postLogs: PostLog[];
+  sessions: AdminSession[];
+  discoveredPosts: DiscoveredPost[];
+  tmdbCache: Map<string, TmdbCacheEntry>;
+  slugHistory: CardSlugHistory[];
+  versus: CardVersus[];
+  ogImages: Map<string, Buffer>;
+}
+
+export function createMemoryStore(seed: Partial<MemoryStore> = {}): MemoryStore {
+  return {
+    cards: seed.cards ? [...seed.cards] : [],
+    pendingPosts: seed.pendingPosts ? [...seed.pendingPosts] : [],
+    postLogs: seed.postLogs ? [...seed.postLogs] : [],
+    sessions: seed.sessions ? [...seed.sessions] : [],
+    discoveredPosts: seed.discoveredPosts ? [...seed.discoveredPosts] : [],
+    tmdbCache: new Map(seed.tmdbCache),
+    slugHistory: seed.slugHistory ? [...seed.slugHistory] : [],
+    versus: seed.versus ? [...seed.versus] : [],
+    ogImages: new Map(seed.ogImages),
+  };
+}
+
+// Shared across hot reloads in `next dev`, so cards survive an edit
+const globalStore = globalThis as unknown as { textureMemoryStore?: MemoryStore };
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function byNewest<T extends { created_at: string }>(a: T, b: T): number {
+  return b.created_at.localeCompare(a.created_at);
+}
+
+function newestPostsFirst(posts: PostLog[]): PostLog[] {
+  return [...posts].sort((a, b) => b.posted_at.localeCompare(a.posted_at));
+}
+
+export function createMemoryRepositories(store?: MemoryStore): Repositories {
+  if (!store) {
+    globalStore.textureMemoryStore ??= createMemoryStore();
+    store = globalStore.textureMemoryStore;
+  }
+  const db = store;
+
+  return {
+    cards: {
+      getById: async (id) => db.cards.find((c) => c.id === id) || null,
+      getByTmdbId: async (tmdbId, mediaType, scope = "") =>
+        db.cards.find((c) => c.tmdb_id === tmdbId && c.media_type === mediaType && c.scope === scope) || null,
+      getByTmdbIds: async (tmdbIds) =>
+        db.cards.filter((c) => c.tmdb_id !== null && tmdbIds.includes(c.tmdb_id) && c.scope === ""),
+      listScoped: async (tmdbId, mediaType) =>
+        db.cards.filter((c) => c.tmdb_id === tmdbId && c.media_type === mediaType && c.scope !== ""),
+      getBySlug: async (slug) => db.cards.find((c) => c.slug === slug) || null,
+      getByIds: async (ids) => db.cards.filter((c) => ids.includes(c.id)),
+
+      async list({ search, promptVersion, limit, offset = 0 }) {
+        return db.cards
+          .filter((c) => !search || c.title.toLowerCase().includes(search.toLowerCase()))
+          .filter((c) => promptVersion === undefined || promptVersion === "" || c.prompt_version === promptVersion)
+          .sort(byNewest)
+          .slice(offset, offset + limit);
+      },
+
+      async browse({ mediaType, genre, yearFrom, yearTo }, limit, offset) {
+        const matches = db.cards
+          .filter((c) => c.scope === "")
+          .filter((c) => !mediaType || c.media_type === mediaType)
+          .filter((c) => !genre || (c.genres || []).includes(genre))
+          .filter((c) => yearFrom === undefined || (c.year !== null && c.year >= String(yearFrom)))
+          .filter((c) => yearTo === undefined || (c.year !== null && c.year <= String(yearTo)))
+          .sort((a, b) => (a.title < b.title ? -1 : a.title > b.title ? 1 : a.id < b.id ? -1 : 1));
+        return { cards: matches.slice(offset, offset + limit), total: matches.length };
+      },
+
+      listFacets: async () =>
+        db.cards
+          .filter((c) => c.scope === "")
+          .map(({ media_type, year, genres }) => ({ media_type, year, genres })),
+
+      listSlugs: async (limit, offset) =>
+        db.cards
+          .filter((c) => c.slug !== null)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+          .slice(offset, offset + limit)
+          .map(({ slug, created_at }) => ({ slug, created_at })),
+
+      countSlugs: async () => db.cards.filter((c) => c.slug !== null).length,
+
+      countByPromptVersion: async (promptVersion) =>
+        db.cards.filter((c) => c.prompt_version === promptVersion).length,
+
+      async search(query, limit) {
+        const terms = searchTerms(query);
+        return db.cards
+          .map((card) => ({ card, rank: scoreCard(card, terms) }))
+          .filter((hit) => hit.rank > 0)
+          .sort((a, b) => b.rank - a.rank || byNewest(a.card, b.card))
+          .slice(0, limit)
+          .map((hit) => ({ ...hit, snippet: buildSnippet(hit.card, terms) }));
+      },
+
+      async listPostable(column, notPostedSince, limit) {
+        return db.cards
+          .filter((c) => c.calibration_sentence && c.slug)
+          .filter((c) => !c[column] || new Date(c[column]!) < notPostedSince)
+          .slice(0, limit);
+      },
+
+      async upsert(card) {
+        const existing =
+          card.tmdb_id !== null
+            ? db.cards.find(
+                (c) => c.tmdb_id === card.tmdb_id && c.media_type === card.media_type && c.scope === card.scope
+              )
+            : undefined;
+        // Slugs are unique (cards_slug_key)
+        if (card.slug && db.cards.some((c) => c.slug === card.slug && c !== existing)) {
+          throw new Error(`Slug "${card.slug}" is already taken`);
+        }
+        if (existing) {
+          Object.assign(existing, card);
+          return { id: existing.id, slug: existing.slug! };
+        }
+
+        const row: CachedCard = {
+          ...card,
+          id: crypto.randomUUID(),
+          created_at: now(),
+          last_posted_at: null,
+          last_posted_bluesky: null,
+          og_layout: null,
+          og_theme: null,
+          og_images: null,
+        };
+        db.cards.push(row);
+        return { id: row.id, slug: row.slug! };
+      },
+
+      async update(id, fields) {
+        const card = db.cards.find((c) => c.id === id);
+        if (card) Object.assign(card, fields);
+      },
+    },
+
+    pendingPosts: {
+      getById: async (id) => db.pendingPosts.find((p) => p.id === id) || null,
+      getByApprovalToken: async (token) => db.pendingPosts.find((p) => p.approval_token === token) || null,
+
+      async listOpen(limit) {
+        return db.pendingPosts
+          .filter((p) => p.status === "pending" || p.status === "approved")
+          .sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+          .slice(0, limit);
+      },
+
+      async findForSlot(slot, from, to) {
+        return (
+          db.pendingPosts
+            .filter((p) => p.slot === slot && (p.status === "pending" || p.status === "approved"))
+            .filter((p) => new Date(p.scheduled_for) >= from && new Date(p.scheduled_for) < to)
+            .sort(byNewest)[0] || null
+        );
+      },
+
+      async create(post) {
+        const row: PendingPost = {
+          ...post,
+          id: crypto.randomUUID(),
+          approved_at: null,
+          approved_via: null,
+          posted_to_x: false,
+          posted_to_bluesky: false,
+          created_at: now(),
+        };
+        db.pendingPosts.push(row);
+        return row;
+      },
+
+      async update(id, fields) {
+        const post = db.pendingPosts.find((p) => p.id === id);
+        if (!post) return null;
+        Object.assign(post, fields);
+        return post;
+      },
+    },
+
+    postLogs: {
+      async create(log) {
+        db.postLogs.push({ ...log, id: crypto.randomUUID() });
+      },
+
+      list: async (limit, offset) => newestPostsFirst(db.postLogs).slice(offset, offset + limit),
+      listByCard: async (cardId) => newestPostsFirst(db.postLogs.filter((p) => p.card_id === cardId)),
+
+      async moveToCard(ids, cardId) {
+        for (const post of db.postLogs) {
+          if (ids.includes(post.id)) post.card_id = cardId;
+        }
+      },
+    },
+
+    sessions: {
+      async create(token, expiresAt) {
+        db.sessions.push({ token, expires_at: expiresAt.toISOString() });
+      },
+
+      getValid: async (token) =>
+        db.sessions.find((s) => s.token === token && new Date(s.expires_at) > new Date()) || null,
+
+      async delete(token) {
+        db.sessions = db.sessions.filter((s) => s.token !== token);
+      },
+    },
+
+    discoveredPosts: {
+      async listPending(limit) {
+        return db.discoveredPosts
+          .filter((p) => p.status === "pending")
+          .sort((a, b) => b.relevance_score - a.relevance_score)
+          .slice(0, limit);
+      },
+
+      async insertIfNew(post) {
+        if (db.discoveredPosts.some((p) => p.post_uri === post.post_uri)) {
+          return false;
+        }
+        db.discoveredPosts.push({ ...post, id: crypto.randomUUID(), discovered_at: now(), acted_on_at: null });
+        return true;
+      },
+
+      async updateStatus(id, status) {
+        const post = db.discoveredPosts.find((p) => p.id === id);
+        if (post) Object.assign(post, { status, acted_on_at: now() });
+      },
+    },
+
+    tmdbCache: {
+      get: async (key) => db.tmdbCache.get(key) || null,
+
+      async set(entry) {
+        db.tmdbCache.set(entry.key, entry);
+      },
+    },
+
+    slugHistory: {
+      getCardId: async (slug) => db.slugHistory.find((h) => h.slug === slug)?.card_id || null,
+
+      async add(slug, cardId) {
+        db.slugHistory = db.slugHistory.filter((h) => h.slug !== slug);
+        db.slugHistory.push({ slug, card_id: cardId, replaced_at: now() });
+      },
+    },
+
+    versus: {
+      get: async (cardAId, cardBId) =>
+        db.versus.find((v) => v.card_a_id === cardAId && v.card_b_id === cardBId) || null,
+
+      async save(versus) {
+        db.versus = db.versus.filter((v) => !(v.card_a_id === versus.card_a_id && v.card_b_id === versus.card_b_id));
+        db.versus.push({ ...versus, created_at: now() });
+      },
+    },
+
+    ogImages: {
+      // There's no public bucket offline, so the URL carries the image itself
+      async put(path, png) {
+        db.ogImages.set(path, png);
+        return `data:image/png;base64,${png.toString("base64")}`;
+      },
+
+      async remove(paths) {
+        paths.forEach((path) => db.ogImages.delete(path));
+      },
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CardImageOptions, CardImagePosters, renderCardImage } from "@/lib/og-card";
+import { OG_FORMATS, OgFormat, ogImageUrl, parseOgFormat } from "@/lib/og-images";
+import { resolveOgTemplate } from "@/lib/og-templates";
+import { makeCard } from "@/lib/test-fixtures";
+
+// Visual regression snapshots: each image is rendered and compared byte for
+// byte with the PNG in __snapshots__/og-card. After a deliberate design change
+// or when adding a snapshot, regenerate them with `UPDATE_OG_SNAPSHOTS=1 npm test`
+// and look at the diff.
+const SNAPSHOT_DIR = fileURLToPath(new URL("./__snapshots__/og-card", import.meta.url));
+
+// A flat two-tone poster, so snapshots don't depend on TMDB
+const POSTER = `data:image/svg+xml;base64,${Buffer.from(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="2" height="3"><rect width="2" height="3" fill="#3b2f6b"/><rect y="2" width="2" height="1" fill="#c2410c"/></svg>'
+).toString("base64")}`;
+
+const card = makeCard({
+  calibration_sentence: "A **panic attack** in a kitchen that somehow turns into the warmest show about family you will watch this year.",
+});
+
+// Width and height from the PNG's IHDR chunk
+function pngSize(png: Buffer): { width: number; height: number } {
+  return { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+}
+
+// The formats in the default template, plus each other layout and theme in a
+// format it's likely to be used in
+const SNAPSHOTS: [string, CardImageOptions][] = [
+  ...(Object.keys(OG_FORMATS) as OgFormat[]).map((format): [string, CardImageOptions] => [
+    format,
+    { format, layout: "classic", theme: "dark" },
+  ]),
+  ["quote-landscape", { format: "landscape", layout: "quote", theme: "dark" }],
+  ["quote-story", { format: "story", layout: "quote", theme: "dark" }],
+  ["poster-wall-landscape", { format: "landscape", layout: "poster-wall", theme: "dark" }],
+  ["poster-wall-square", { format: "square", layout: "poster-wall", theme: "halloween" }],
+  ["light-landscape", { format: "landscape", layout: "classic", theme: "light" }],
+];
+
+const posters: CardImagePosters = {
+  poster: POSTER,
+  comparisons: [
+    { title: "Succession", dataUrl: POSTER },
+    { title: "Ted Lasso", dataUrl: null },
+    { title: "The Office", dataUrl: POSTER },
+  ],
+};
+
+describe("og card images", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each(SNAPSHOTS)("renders %s like its snapshot", async (name, options) => {
+    const png = Buffer.from(await renderCardImage(card, options, posters).arrayBuffer());
+    expect(pngSize(png)).toEqual(OG_FORMATS[options.format]);
+
+    const snapshot = `${SNAPSHOT_DIR}/${name}.png`;
+    if (process.env.UPDATE_OG_SNAPSHOTS === "1") {
+      mkdirSync(SNAPSHOT_DIR, { recursive: true });
+      writeFileSync(snapshot, png);
+    }
+    // A missing snapshot fails rather than being written, so CI can't pass without one
+    expect(existsSync(snapshot), `${snapshot} is missing; run UPDATE_OG_SNAPSHOTS=1 npm test to create it`).toBe(true);
+    expect(
+      png.equals(readFileSync(snapshot)),
+      `${name} differs from ${snapshot}; if the change is deliberate, run UPDATE_OG_SNAPSHOTS=1 npm test`
+    ).toBe(true);
+  });
+
+  it("parses format parameters and builds URLs", () => {
+    vi.stubEnv("NEXT_PUBLIC_BASE_URL", "https://example.test");
+
+    expect(parseOgFormat(null)).toBe("landscape");
+    expect(parseOgFormat("story")).toBe("story");
+    expect(parseOgFormat("toString")).toBeNull();
+    expect(ogImageUrl("the-bear-2022/s2")).toBe("https://example.test/api/og/the-bear-2022/s2");
+    expect(ogImageUrl("the-bear-2022", "square")).toBe("https://example.test/api/og/the-bear-2022?format=square");
+  });
+
+  it("prefers a previewed template to the card's, and the card's to the default", () => {
+    expect(resolveOgTemplate(card)).toEqual({ layout: "classic", theme: "dark" });
+
+    const picked = { ...card, og_layout: "quote", og_theme: "light" };
+    expect(resolveOgTemplate(picked)).toEqual({ layout: "quote", theme: "light" });
+    expect(resolveOgTemplate(picked, { theme: "awards" })).toEqual({ layout: "quote", theme: "awards" });
+
+    // A template that has since been removed
+    expect(resolveOgTemplate({ ...card, og_layout: "collage", og_theme: "summer" })).toEqual({
+      layout: "classic",
+      theme: "dark",
+    });
+  });
+});
@@ -0,0 +1,441 @@
+/* eslint-disable @next/next/no-img-element */
+import type { CSSProperties } from "react";
+import { ImageResponse } from "@vercel/og";
+import type { CachedCard } from "@/lib/supabase";
+import { parseScope, scopeLabel } from "@/lib/card-scope";
+import { OG_FORMATS, OgFormat } from "@/lib/og-images";
+import { OG_THEMES, OgLayout, OgTheme, OgThemeName } from "@/lib/og-templates";
+
+// The card OG image (/api/og/<card>) in each format, layout and theme.
+// Landscape and compact put the poster beside the text; square and story stack
+// the poster above it. Snapshots live in src/lib/__snapshots__/og-card.
+
+interface FormatSizes {
+  stacked: boolean;
+  paddingX: number;
+  paddingY: number; // Stories keep clear of the app's own header and reply bar
+  gap: number;
+  poster: { width: number; height: number };
+  tile: { width: number; height: number }; // Poster wall
+  wallColumns: number;
+  thumb: number; // Quote card poster width
+  branding: number;
+  title: number;
+  longTitle: number; // Titles over 25 characters
+  meta: number;
+  sentence: number;
+  quote: number;
+  tagline: number;
+}
+
+const SIZES: Record<OgFormat, FormatSizes> = {
+  landscape: {
+    stacked: false,
+    paddingX: 48,
+    paddingY: 48,
+    gap: 36,
+    poster: { width: 280, height: 534 },
+    tile: { width: 174, height: 261 },
+    wallColumns: 2,
+    thumb: 56,
+    branding: 16,
+    title: 56,
+    longTitle: 44,
+    meta: 20,
+    sentence: 24,
+    quote: 44,
+    tagline: 16,
+  },
+  compact: {
+    stacked: false,
+    paddingX: 32,
+    paddingY: 32,
+    gap: 24,
+    poster: { width: 186, height: 354 },
+    tile: { width: 114, height: 171 },
+    wallColumns: 2,
+    thumb: 40,
+    branding: 12,
+    title: 38,
+    longTitle: 30,
+    meta: 15,
+    sentence: 17,
+    quote: 30,
+    tagline: 12,
+  },
+  square: {
+    stacked: true,
+    paddingX: 72,
+    paddingY: 64,
+    gap: 36,
+    poster: { width: 300, height: 450 },
+    tile: { width: 222, height: 333 },
+    wallColumns: 4,
+    thumb: 72,
+    branding: 18,
+    title: 60,
+    longTitle: 46,
+    meta: 24,
+    sentence: 30,
+    quote: 56,
+    tagline: 18,
+  },
+  story: {
+    stacked: true,
+    paddingX: 96,
+    paddingY: 220,
+    gap: 48,
+    poster: { width: 600, height: 900 },
+    tile: { width: 295, height: 442 },
+    wallColumns: 2,
+    thumb: 96,
+    branding: 22,
+    title: 76,
+    longTitle: 58,
+    meta: 28,
+    sentence: 40,
+    quote: 68,
+    tagline: 22,
+  },
+};
+
+const TILE_GAP = 12;
+const WALL_TILES = 4;
+const LONG_QUOTE_CHARS = 160;
+
+// A card's poster and, for the poster wall, those of the titles it's compared to
+export interface CardImagePosters {
+  poster: string | null; // From posterDataURL()
+  comparisons: { title: string; dataUrl: string | null }[];
+}
+
+export interface CardImageOptions {
+  format: OgFormat;
+  layout: OgLayout;
+  theme: OgThemeName;
+}
+
+// What the image says about a card, whatever the format
+export function cardImageText(card: CachedCard): { metaLine: string; sentence: string } {
+  const genreDisplay = card.genres?.[0] || "";
+  const typeDisplay = card.scope
+    ? scopeLabel(parseScope(card.scope), card.scope_name)
+    : card.media_type === "tv" ? "TV Series" : "Film";
+  const metaLine = [card.year, typeDisplay, genreDisplay].filter(Boolean).join(" · ");
+  // Strip markdown bold markers for OG display
+  const rawSentence = card.calibration_sentence || "Know what it is like before you watch.";
+  return { metaLine, sentence: rawSentence.replace(/\*\*/g, "") };
+}
+
+interface LayoutProps {
+  card: CachedCard;
+  sizes: FormatSizes;
+  theme: OgTheme;
+  width: number;
+  frame: CSSProperties;
+  posters: CardImagePosters;
+}
+
+function Poster({
+  width,
+  height,
+  dataUrl,
+  title,
+  placeholder,
+  theme,
+  highlight = false,
+}: {
+  width: number;
+  height: number;
+  dataUrl: string | null;
+  title: string;
+  placeholder: string;
+  theme: OgTheme;
+  highlight?: boolean;
+}) {
+  return (
+    <div
+      style={{
+        width,
+        height,
+        borderRadius: 16,
+        overflow: "hidden",
+        backgroundColor: theme.poster,
+        flexShrink: 0,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        ...(highlight ? { border: `3px solid ${theme.accent}` } : {}),
+      }}
+    >
+      {dataUrl ? (
+        <img src={dataUrl} alt={title} width={width} height={height} style={{ objectFit: "cover" }} />
+      ) : (
+        <div style={{ color: theme.faint, fontSize: 20, padding: 12, textAlign: "center" }}>{placeholder}</div>
+      )}
+    </div>
+  );
+}
+
+function Branding({ sizes, theme }: { sizes: FormatSizes; theme: OgTheme }) {
+  return (
+    <div
+      style={{
+        fontSize: sizes.branding,
+        letterSpacing: 4,
+        color: theme.faint,
+        marginBottom: 16,
+      }}
+    >
+      TEXTURE
+    </div>
+  );
+}
+
+function Tagline({ sizes, theme }: { sizes: FormatSizes; theme: OgTheme }) {
+  return <div style={{ fontSize: sizes.tagline, color: theme.tagline }}>texture.watch</div>;
+}
+
+function Title({ card, sizes, theme, style }: { card: CachedCard; sizes: FormatSizes; theme: OgTheme; style?: CSSProperties }) {
+  return (
+    <div
+      style={{
+        fontSize: card.title.length > 25 ? sizes.longTitle : sizes.title,
+        fontWeight: 700,
+        color: theme.text,
+        marginBottom: 8,
+        ...style,
+      }}
+    >
+      {card.title}
+    </div>
+  );
+}
+
+// The sentence beside a left border (side by side) or under a short rule (stacked)
+function Sentence({ text, sizes, theme }: { text: string; sizes: FormatSizes; theme: OgTheme }) {
+  const scale = sizes.title / SIZES.landscape.title;
+
+  if (sizes.stacked) {
+    return (
+      <div style={{ display: "flex", flexDirection: "column", alignItems: "center", alignSelf: "stretch" }}>
+        <div style={{ width: 64, height: 4, backgroundColor: theme.accent, marginBottom: 20 }}></div>
+        <div style={{ fontSize: sizes.sentence, fontStyle: "italic", color: theme.sentence }}>{text}</div>
+      </div>
+    );
+  }
+  return (
+    <div
+      style={{
+        fontSize: sizes.sentence,
+        fontStyle: "italic",
+        color: theme.sentence,
+        borderLeft: `4px solid ${theme.accent}`,
+        paddingLeft: Math.round(20 * scale),
+        paddingTop: 4,
+        paddingBottom: 4,
+      }}
+    >
+      {text}
+    </div>
+  );
+}
+
+// Poster, title, meta and sentence: the original card image
+function Classic({ card, sizes, theme, width, frame, posters }: LayoutProps) {
+  const { metaLine, sentence } = cardImageText(card);
+  const scale = sizes.title / SIZES.landscape.title;
+  const poster = (
+    <Poster {...sizes.poster} dataUrl={posters.poster} title={card.title} placeholder="No Poster" theme={theme} />
+  );
+
+  // Satori lays a fragment out as its own flex row, so each branch renders its
+  // own root element from the shared frame
+  if (sizes.stacked) {
+    return (
+      <div style={{ ...frame, flexDirection: "column", alignItems: "center", textAlign: "center" }}>
+        <Branding sizes={sizes} theme={theme} />
+        {poster}
+        <Title card={card} sizes={sizes} theme={theme} style={{ marginTop: sizes.gap }} />
+        <div style={{ fontSize: sizes.meta, color: theme.muted, marginBottom: sizes.gap }}>{metaLine}</div>
+        <Sentence text={sentence} sizes={sizes} theme={theme} />
+        <div style={{ flexGrow: 1 }}></div>
+        <Tagline sizes={sizes} theme={theme} />
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ ...frame, gap: sizes.gap }}>
+      {poster}
+      <div
+        style={{
+          width: width - sizes.paddingX * 2 - sizes.poster.width - sizes.gap,
+          height: sizes.poster.height,
+          display: "flex",
+          flexDirection: "column",
+        }}
+      >
+        <Branding sizes={sizes} theme={theme} />
+        <Title card={card} sizes={sizes} theme={theme} />
+        <div style={{ fontSize: sizes.meta, color: theme.muted, marginBottom: Math.round(40 * scale) }}>{metaLine}</div>
+        <Sentence text={sentence} sizes={sizes} theme={theme} />
+        <div style={{ flexGrow: 1 }}></div>
+        <Tagline sizes={sizes} theme={theme} />
+      </div>
+    </div>
+  );
+}
+
+// The calibration sentence large, with the title and a small poster underneath
+function Quote({ card, sizes, theme, frame, posters }: LayoutProps) {
+  const { metaLine, sentence } = cardImageText(card);
+  const fontSize = sentence.length > LONG_QUOTE_CHARS ? Math.round(sizes.quote * 0.8) : sizes.quote;
+
+  return (
+    <div style={{ ...frame, flexDirection: "column" }}>
+      <Branding sizes={sizes} theme={theme} />
+      <div style={{ flexGrow: 1 }}></div>
+      <div style={{ width: Math.round(fontSize * 1.5), height: 6, backgroundColor: theme.accent, marginBottom: 24 }}></div>
+      <div style={{ fontSize, lineHeight: 1.3, color: theme.text }}>{sentence}</div>
+      <div style={{ flexGrow: 1 }}></div>
+      <div style={{ display: "flex", alignItems: "center", gap: Math.round(sizes.thumb / 3.5) }}>
+        <Poster
+          width={sizes.thumb}
+          height={Math.round(sizes.thumb * 1.5)}
+          dataUrl={posters.poster}
+          title={card.title}
+          placeholder=""
+          theme={theme}
+        />
+        <div style={{ display: "flex", flexDirection: "column", flexGrow: 1 }}>
+          <div style={{ fontSize: Math.round(sizes.meta * 1.4), fontWeight: 700, color: theme.text }}>{card.title}</div>
+          <div style={{ fontSize: sizes.meta, color: theme.muted }}>{metaLine}</div>
+        </div>
+        <Tagline sizes={sizes} theme={theme} />
+      </div>
+    </div>
+  );
+}
+
+// The card's poster among those of the titles it's compared to
+function PosterWall(props: LayoutProps) {
+  const { card, sizes, theme, width, frame, posters } = props;
+  if (posters.comparisons.length === 0) {
+    return <Classic {...props} />;
+  }
+
+  const { metaLine, sentence } = cardImageText(card);
+  const tiles = [
+    { title: card.title, dataUrl: posters.poster, highlight: true },
+    ...posters.comparisons.map((c) => ({ ...c, highlight: false })),
+  ].slice(0, WALL_TILES);
+  const wallWidth = sizes.wallColumns * sizes.tile.width + (sizes.wallColumns - 1) * TILE_GAP;
+  const wall = (
+    <div style={{ width: wallWidth, display: "flex", flexWrap: "wrap", gap: TILE_GAP, flexShrink: 0 }}>
+      {tiles.map((tile, i) => (
+        <Poster
+          key={i}
+          {...sizes.tile}
+          dataUrl={tile.dataUrl}
+          title={tile.title}
+          placeholder={tile.title}
+          theme={theme}
+          highlight={tile.highlight}
+        />
+      ))}
+    </div>
+  );
+
+  if (sizes.stacked) {
+    return (
+      <div style={{ ...frame, flexDirection: "column", alignItems: "center", textAlign: "center" }}>
+        <Branding sizes={sizes} theme={theme} />
+        {wall}
+        <Title card={card} sizes={sizes} theme={theme} style={{ marginTop: sizes.gap }} />
+        <div style={{ fontSize: sizes.meta, color: theme.muted, marginBottom: sizes.gap }}>{metaLine}</div>
+        <Sentence text={sentence} sizes={sizes} theme={theme} />
+        <div style={{ flexGrow: 1 }}></div>
+        <Tagline sizes={sizes} theme={theme} />
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ ...frame, gap: sizes.gap }}>
+      <div
+        style={{
+          width: width - sizes.paddingX * 2 - wallWidth - sizes.gap,
+          height: sizes.poster.height,
+          display: "flex",
+          flexDirection: "column",
+        }}
+      >
+        <Branding sizes={sizes} theme={theme} />
+        <Title card={card} sizes={sizes} theme={theme} />
+        <div style={{ fontSize: sizes.meta, color: theme.muted, marginBottom: sizes.gap }}>{metaLine}</div>
+        <Sentence text={sentence} sizes={sizes} theme={theme} />
+        <div style={{ flexGrow: 1 }}></div>
+        <Tagline sizes={sizes} theme={theme} />
+      </div>
+      {wall}
+    </div>
+  );
+}
+
+const LAYOUTS: Record<OgLayout, (props: LayoutProps) => JSX.Element> = {
+  classic: Classic,
+  quote: Quote,
+  "poster-wall": PosterWall,
+};
+
+// The card's image in the given format, layout and theme
+export function renderCardImage(
+  card: CachedCard,
+  { format, layout, theme }: CardImageOptions,
+  posters: CardImagePosters,
+  headers?: Record<string, string>
+): ImageResponse {
+  const { width, height } = OG_FORMATS[format];
+  const sizes = SIZES[format];
+  const colors: OgTheme = OG_THEMES[theme];
+  const frame: CSSProperties = {
+    width,
+    height,
+    display: "flex",
+    backgroundColor: colors.background,
+    color: colors.text,
+    padding: `${sizes.paddingY}px ${sizes.paddingX}px`,
+  };
+  const Layout = LAYOUTS[layout];
+
+  return new ImageResponse(
+    <Layout card={card} sizes={sizes} theme={colors} width={width} frame={frame} posters={posters} />,
+    { width, height, headers }
+  );
+}
+
+// A plain message in place of a card (not found, render errors)
+export function renderMessageImage(message: string, format: OgFormat, { color = "white", fontSize = 48 } = {}): ImageResponse {
+  const { width, height } = OG_FORMATS[format];
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width,
+          height,
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          backgroundColor: "#0a0a0a",
+          color,
+          fontSize,
+          padding: 40,
+        }}
+      >
+        {message}
+      </div>
+    ),
+    { width, height }
+  );
+}
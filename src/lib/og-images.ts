@@ -0,0 +1,76 @@
+// Helpers shared by the OG image routes (src/app/api/og)
+
+import { getRepositories } from "@/lib/repositories";
+import type { CachedCard } from "@/lib/supabase";
+
+// Fetch image and convert to data URL (avoids remote image issues in ImageResponse)
+export async function fetchAsDataURL(url: string): Promise<string | null> {
+  try {
+    const res = await fetch(url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0",
+        "Accept": "image/*",
+      },
+    });
+
+    if (!res.ok) return null;
+
+    const contentType = res.headers.get("content-type") ?? "image/jpeg";
+    const arrayBuffer = await res.arrayBuffer();
+    const base64 = Buffer.from(arrayBuffer).toString("base64");
+    return `data:${contentType};base64,${base64}`;
+  } catch {
+    return null;
+  }
+}
+
+// A card's poster as a data URL, or null without one
+export async function posterDataURL(posterUrl: string | null): Promise<string | null> {
+  return posterUrl?.startsWith("http") ? fetchAsDataURL(posterUrl) : null;
+}
+
+// Posters of the titles a card is compared to, in its order. Titles without a
+// card of their own still get a tile, just without a poster.
+export async function comparisonPosters(
+  card: CachedCard,
+  limit: number
+): Promise<{ title: string; dataUrl: string | null }[]> {
+  const comparisons = (card.comparisons || []).slice(0, limit);
+  if (comparisons.length === 0) return [];
+
+  const others = await getRepositories().cards.getByTmdbIds(
+    comparisons.flatMap((c) => (c.tmdb_id !== null ? [c.tmdb_id] : []))
+  );
+  return Promise.all(
+    comparisons.map(async (comparison) => {
+      const other = others.find((c) => c.tmdb_id === comparison.tmdb_id && c.media_type === comparison.media_type);
+      return { title: comparison.title, dataUrl: await posterDataURL(other?.poster_url || null) };
+    })
+  );
+}
+
+// Image sizes /api/og/<card>?format= can render. Landscape is the default
+// (link previews); the others are for platforms that crop it badly.
+export type OgFormat = "landscape" | "square" | "story" | "compact";
+
+export const OG_FORMATS: Record<OgFormat, { width: number; height: number }> = {
+  landscape: { width: 1200, height: 630 },
+  square: { width: 1080, height: 1080 }, // Bluesky and Instagram feeds
+  story: { width: 1080, height: 1920 }, // Vertical stories
+  compact: { width: 800, height: 418 }, // Emails and other narrow embeds
+};
+
+export const DEFAULT_OG_FORMAT: OgFormat = "landscape";
+
+// The format a ?format= value names; missing means the default, unknown means null
+export function parseOgFormat(value: string | null): OgFormat | null {
+  if (!value) return DEFAULT_OG_FORMAT;
+  return Object.keys(OG_FORMATS).includes(value) ? (value as OgFormat) : null;
+}
+
+// Absolute URL of a card's OG image in the given format
+export function ogImageUrl(cardPath: string, format: OgFormat = DEFAULT_OG_FORMAT): string {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch";
+  const query = format === DEFAULT_OG_FORMAT ? "" : `?format=${format}`;
+  return `${baseUrl}/api/og/${cardPath}${query}`;
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from "@/lib/memory-repositories";
+import { getRepositories, setRepositories } from "@/lib/repositories";
+import { cardOgImageUrl, getOgImagePng, ogImageHash, storedOgImage, storeOgImages } from "@/lib/og-storage";
+import type { CachedCard } from "@/lib/supabase";
+import { makeCard } from "@/lib/test-fixtures";
+
+const card = makeCard({ calibration_sentence: "A panic attack in a kitchen that turns into a show about family." });
+
+async function storedCard(): Promise<CachedCard> {
+  return (await getRepositories().cards.getById(card.id))!;
+}
+
+describe("og image storage", () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    vi.stubEnv("NEXT_PUBLIC_BASE_URL", "https://example.test");
+    store = createMemoryStore({ cards: [{ ...card }] });
+    setRepositories(createMemoryRepositories(store));
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("hashes what the image shows and nothing else", () => {
+    const hash = ogImageHash(card, "square");
+    expect(ogImageHash({ ...card, last_posted_at: "2025-02-01T00:00:00Z" }, "square")).toBe(hash);
+
+    expect(ogImageHash(card, "landscape")).not.toBe(hash);
+    expect(ogImageHash({ ...card, calibration_sentence: "Something else." }, "square")).not.toBe(hash);
+    expect(ogImageHash({ ...card, poster_url: "https://image.tmdb.org/t/p/w500/x.jpg" }, "square")).not.toBe(hash);
+    expect(ogImageHash({ ...card, og_theme: "light" }, "square")).not.toBe(hash);
+  });
+
+  it("stores renders under their hash and links them", async () => {
+    expect(cardOgImageUrl(card, "square")).toBe("https://example.test/api/og/the-bear-2022?format=square");
+
+    await storeOgImages(await storedCard(), ["square", "compact"]);
+    const saved = await storedCard();
+
+    const square = storedOgImage(saved, "square")!;
+    expect(square.path).toBe(`${card.id}/square-${ogImageHash(card, "square")}.png`);
+    expect(cardOgImageUrl(saved, "square")).toBe(square.url);
+    expect(Array.from(store.ogImages.keys()).sort()).toEqual([saved.og_images!.compact!.path, square.path]);
+    expect(storedOgImage(saved, "landscape")).toBeNull();
+  });
+
+  it("re-renders a stale image and removes the one it replaces", async () => {
+    await storeOgImages(await storedCard(), ["square"]);
+    const old = (await storedCard()).og_images!.square!;
+
+    await getRepositories().cards.update(card.id, { calibration_sentence: "A new sentence." });
+    const edited = await storedCard();
+    expect(storedOgImage(edited, "square")).toBeNull();
+    expect(cardOgImageUrl(edited, "square")).toContain("/api/og/");
+
+    await storeOgImages(edited, ["square"]);
+    const fresh = storedOgImage(await storedCard(), "square")!;
+    expect(fresh.path).not.toBe(old.path);
+    expect(Array.from(store.ogImages.keys())).toEqual([fresh.path]);
+  });
+
+  it("serves the stored PNG, storing it first if needed", async () => {
+    const png = await getOgImagePng(await storedCard(), "compact");
+    expect(png?.subarray(1, 4).toString()).toBe("PNG");
+
+    const saved = await storedCard();
+    expect(store.ogImages.get(saved.og_images!.compact!.path)?.equals(png!)).toBe(true);
+    expect((await getOgImagePng(saved, "compact"))?.equals(png!)).toBe(true);
+  });
+});
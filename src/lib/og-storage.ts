@@ -0,0 +1,159 @@
+// Pre-rendered OG images. Each format is rendered once per card version and
+// uploaded to storage under a content hash; cards.og_images records the hash,
+// path and public URL. Anything the image shows goes into the hash, so editing
+// the calibration sentence, poster or template leaves the stored render stale:
+// readers fall back to the /api/og route until it's re-rendered.
+
+import { createHash } from "crypto";
+import { getRepositories } from "@/lib/repositories";
+import type { CachedCard, StoredOgImage, StoredOgImages } from "@/lib/supabase";
+import { cardImageText, CardImageOptions, renderCardImage } from "@/lib/og-card";
+import { comparisonPosters, DEFAULT_OG_FORMAT, OG_FORMATS, OgFormat, ogImageUrl, posterDataURL } from "@/lib/og-images";
+import { resolveOgTemplate } from "@/lib/og-templates";
+
+// Bump after a design change to og-card.tsx so every stored render goes stale
+export const OG_RENDER_VERSION = 1;
+
+// Poster wall: the card's own poster plus up to three comparisons
+const WALL_COMPARISONS = 3;
+
+const ALL_FORMATS = Object.keys(OG_FORMATS) as OgFormat[];
+
+// Hash of everything the card's image shows in a format. Comparison posters
+// are identified by title, not image, so a comparison's new poster only shows
+// up after the card's next change (or an OG_RENDER_VERSION bump).
+export function ogImageHash(card: CachedCard, format: OgFormat): string {
+  const template = resolveOgTemplate(card);
+  const inputs = {
+    version: OG_RENDER_VERSION,
+    format,
+    ...template,
+    title: card.title,
+    ...cardImageText(card),
+    poster: card.poster_url,
+    comparisons:
+      template.layout === "poster-wall"
+        ? (card.comparisons || []).slice(0, WALL_COMPARISONS).map((c) => [c.tmdb_id, c.media_type, c.title])
+        : [],
+  };
+  return createHash("sha256").update(JSON.stringify(inputs)).digest("hex").slice(0, 16);
+}
+
+// The card's stored image in a format, or null if it's missing or stale
+export function storedOgImage(card: CachedCard, format: OgFormat): StoredOgImage | null {
+  const stored = card.og_images?.[format];
+  return stored && stored.hash === ogImageHash(card, format) ? stored : null;
+}
+
+// Where to link the card's image: the stored render, else the on-demand route
+export function cardOgImageUrl(card: CachedCard, format: OgFormat = DEFAULT_OG_FORMAT): string {
+  return storedOgImage(card, format)?.url || ogImageUrl(card.slug || card.id, format);
+}
+
+// Render a card's image, fetching the posters its layout needs
+export async function renderOgImage(card: CachedCard, options: CardImageOptions, headers?: Record<string, string>) {
+  const [poster, comparisons] = await Promise.all([
+    posterDataURL(card.poster_url),
+    options.layout === "poster-wall" ? comparisonPosters(card, WALL_COMPARISONS) : [],
+  ]);
+  return renderCardImage(card, options, { poster, comparisons }, headers);
+}
+
+async function renderPng(card: CachedCard, format: OgFormat): Promise<Buffer> {
+  const image = await renderOgImage(card, { format, ...resolveOgTemplate(card) });
+  return Buffer.from(await image.arrayBuffer());
+}
+
+// Upload rendered PNGs and record them on the card, returning its updated
+// og_images. Replaced objects are removed once the card points at the new ones.
+async function storeRendered(card: CachedCard, pngs: [OgFormat, Buffer][]): Promise<StoredOgImages> {
+  const { cards, ogImages } = getRepositories();
+  const rendered: StoredOgImages = {};
+  for (const [format, png] of pngs) {
+    const hash = ogImageHash(card, format);
+    const path = `${card.id}/${format}-${hash}.png`;
+    rendered[format] = { hash, path, url: await ogImages.put(path, png) };
+  }
+
+  // Merge into the latest record so a concurrent store of other formats isn't lost
+  const current = (await cards.getById(card.id))?.og_images || card.og_images || {};
+  const images = { ...current, ...rendered };
+  await cards.update(card.id, { og_images: images });
+
+  const replaced = Object.keys(rendered)
+    .map((format) => current[format]?.path)
+    .filter((path): path is string => !!path && !Object.values(rendered).some((image) => image?.path === path));
+  try {
+    await ogImages.remove(replaced);
+  } catch (error) {
+    console.error(`Failed to remove replaced OG images for ${card.id}:`, error);
+  }
+  return images;
+}
+
+// Bring the stored images of a card up to date (all formats by default),
+// rendering only the stale ones. Returns the card's updated og_images.
+export async function storeOgImages(card: CachedCard, formats: OgFormat[] = ALL_FORMATS): Promise<StoredOgImages> {
+  const stale = formats.filter((format) => !storedOgImage(card, format));
+  if (stale.length === 0) return card.og_images || {};
+
+  const pngs: [OgFormat, Buffer][] = [];
+  for (const format of stale) {
+    pngs.push([format, await renderPng(card, format)]);
+  }
+  return storeRendered(card, pngs);
+}
+
+// Re-render a card's images (all formats unless given) after it changes. Awaited
+// by callers so the work finishes before the function ends, but never fails them:
+// a card without stored images is still served by the route.
+export async function refreshOgImages(cardId: string, formats: OgFormat[] = ALL_FORMATS): Promise<void> {
+  try {
+    const card = await getRepositories().cards.getById(cardId);
+    if (card) await storeOgImages(card, formats);
+  } catch (error) {
+    console.error(`Failed to store OG images for ${cardId}:`, error);
+  }
+}
+
+// The card's image as a PNG: the stored render if it's current, otherwise a
+// fresh one (stored for next time). Null only if rendering itself fails.
+export async function getOgImagePng(card: CachedCard, format: OgFormat): Promise<Buffer | null> {
+  const stored = storedOgImage(card, format);
+  if (stored) {
+    try {
+      const response = await fetch(stored.url, { cache: "no-store" });
+      if (response.ok) return Buffer.from(await response.arrayBuffer());
+      console.error(`Stored OG image fetch failed: ${response.status}`);
+    } catch (error) {
+      console.error("Failed to fetch stored OG image:", error);
+    }
+  }
+
+  let png: Buffer;
+  try {
+    png = await renderPng(card, format);
+  } catch (error) {
+    console.error("Failed to render OG image:", error);
+    return null;
+  }
+  try {
+    await storeRendered(card, [[format, png]]);
+  } catch (error) {
+    console.error(`Failed to store OG image for ${card.id}:`, error);
+  }
+  return png;
+}
+
+// Public URL of the card's current image, storing it first if needed. Falls
+// back to the route URL when storing fails.
+export async function ensureOgImageUrl(card: CachedCard, format: OgFormat = DEFAULT_OG_FORMAT): Promise<string> {
+  try {
+    const images = await storeOgImages(card, [format]);
+    const stored = images[format];
+    if (stored) return stored.url;
+  } catch (error) {
+    console.error(`Failed to store OG image for ${card.id}:`, error);
+  }
+  return ogImageUrl(card.slug || card.id, format);
+}
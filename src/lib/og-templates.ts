@@ -0,0 +1,116 @@
+// OG image templates: a layout (what the image shows) in a theme (its
+// colours). A card stores its pick in og_layout / og_theme, set from the admin
+// Cards tab; null columns, and names that are no longer defined, fall back to
+// the defaults. Kept free of server imports so the admin page can list them.
+
+export type OgLayout = "classic" | "quote" | "poster-wall";
+
+export const OG_LAYOUTS: { name: OgLayout; label: string; description: string }[] = [
+  { name: "classic", label: "Classic", description: "Poster, title and calibration sentence" },
+  { name: "quote", label: "Quote card", description: "The calibration sentence as the hero" },
+  { name: "poster-wall", label: "Poster wall", description: "Adds the posters of the titles it's compared to" },
+];
+
+export interface OgTheme {
+  label: string;
+  kind: "base" | "seasonal" | "campaign";
+  background: string;
+  text: string; // Title
+  sentence: string;
+  muted: string; // Meta line, captions
+  faint: string; // Branding, placeholders
+  tagline: string;
+  accent: string;
+  poster: string; // Behind posters and placeholders
+}
+
+export const OG_THEMES = {
+  dark: {
+    label: "Dark",
+    kind: "base",
+    background: "#0a0a0a",
+    text: "white",
+    sentence: "#e0e0e0",
+    muted: "#888",
+    faint: "#666",
+    tagline: "#555",
+    accent: "#8b5cf6",
+    poster: "#222",
+  },
+  light: {
+    label: "Light",
+    kind: "base",
+    background: "#fafaf9",
+    text: "#18181b",
+    sentence: "#27272a",
+    muted: "#71717a",
+    faint: "#a1a1aa",
+    tagline: "#d4d4d8",
+    accent: "#7c3aed",
+    poster: "#e4e4e7",
+  },
+  halloween: {
+    label: "Halloween",
+    kind: "seasonal",
+    background: "#140a02",
+    text: "#fff7ed",
+    sentence: "#fed7aa",
+    muted: "#d6a77a",
+    faint: "#9a6b3f",
+    tagline: "#7c5332",
+    accent: "#f97316",
+    poster: "#2a1606",
+  },
+  holidays: {
+    label: "Holidays",
+    kind: "seasonal",
+    background: "#0b1f17",
+    text: "#f0fdf4",
+    sentence: "#dcfce7",
+    muted: "#86b39a",
+    faint: "#5f8a72",
+    tagline: "#4a6b59",
+    accent: "#dc2626",
+    poster: "#12301f",
+  },
+  awards: {
+    label: "Awards season",
+    kind: "campaign",
+    background: "#0c0a09",
+    text: "#fafaf9",
+    sentence: "#e7e5e4",
+    muted: "#a8a29e",
+    faint: "#78716c",
+    tagline: "#57534e",
+    accent: "#d4a017",
+    poster: "#1c1917",
+  },
+} satisfies Record<string, OgTheme>;
+
+export type OgThemeName = keyof typeof OG_THEMES;
+
+export const DEFAULT_OG_LAYOUT: OgLayout = "classic";
+export const DEFAULT_OG_THEME: OgThemeName = "dark";
+
+export function isOgLayout(value: string): value is OgLayout {
+  return OG_LAYOUTS.some((layout) => layout.name === value);
+}
+
+export function isOgTheme(value: string): value is OgThemeName {
+  return Object.keys(OG_THEMES).includes(value);
+}
+
+// The template to render: ?layout= / ?theme= previews win over the card's pick
+export function resolveOgTemplate(
+  card: { og_layout: string | null; og_theme: string | null },
+  preview: { layout?: OgLayout | null; theme?: OgThemeName | null } = {}
+): { layout: OgLayout; theme: OgThemeName } {
+  const stored = {
+    layout: card.og_layout && isOgLayout(card.og_layout) ? card.og_layout : null,
+    theme: card.og_theme && isOgTheme(card.og_theme) ? card.og_theme : null,
+  };
+  return {
+    layout: preview.layout || stored.layout || DEFAULT_OG_LAYOUT,
+    theme: preview.theme || stored.theme || DEFAULT_OG_THEME,
+  };
+}
@@ -0,0 +1,33 @@
+import { SYSTEM_PROMPT, SYSTEM_PROMPT_V1 } from "@/lib/system-prompt";
+
+// Every system prompt we've generated cards with. Each saved card is stamped
+// with the version that produced it (cards.prompt_version), so after a prompt
+// change we can find and regenerate the cards written with an older one.
+//
+// To change the prompt: keep the old text, add a new record at the end, and
+// point SYSTEM_PROMPT at the new text. Never edit a published version.
+
+export interface PromptVersion {
+  version: string;
+  description: string;
+  systemPrompt: string;
+}
+
+export const PROMPT_VERSIONS: PromptVersion[] = [
+  {
+    version: "v1",
+    description: "Original seed prompt: quoted section names, plain comparison titles, no calibration formatting rules",
+    systemPrompt: SYSTEM_PROMPT_V1,
+  },
+  {
+    version: "v2",
+    description: "Strict section order, italic comparison titles, calibration sentence before Worth knowing, exact-title rule",
+    systemPrompt: SYSTEM_PROMPT,
+  },
+];
+
+export const CURRENT_PROMPT = PROMPT_VERSIONS[PROMPT_VERSIONS.length - 1];
+
+export function getPromptVersion(version: string): PromptVersion | null {
+  return PROMPT_VERSIONS.find((p) => p.version === version) || null;
+}
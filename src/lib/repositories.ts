@@ -0,0 +1,255 @@
+import type { CachedCard } from "@/lib/supabase";
+import { createSupabaseRepositories } from "@/lib/supabase-repositories";
+import { createMemoryRepositories } from "@/lib/memory-repositories";
+
+// Data-access layer. Routes talk to these interfaces instead of calling
+// supabase.from(...) directly, so the same handlers run against Supabase in
+// production and an in-memory store locally (OFFLINE_MODE=1 or
+// DATA_STORE=memory) and in tests (setRepositories).
+//
+// Supabase implementations throw on query errors; "not found" is null.
+
+export type PostSlot = "morning" | "afternoon" | "evening";
+export type PendingPostStatus = "pending" | "approved" | "skipped" | "posted" | "expired";
+export type DiscoveredPostStatus = "pending" | "liked" | "quoted" | "dismissed";
+
+export interface PendingPost {
+  id: string;
+  slot: PostSlot;
+  scheduled_for: string;
+  selected_card_id: string;
+  alternative_card_ids: string[];
+  approval_token: string;
+  token_expires_at: string;
+  status: PendingPostStatus;
+  approved_at: string | null;
+  approved_via: "admin" | "email" | null;
+  posted_to_x: boolean;
+  posted_to_bluesky: boolean;
+  created_at: string;
+}
+
+export interface PostLog {
+  id: string;
+  card_id: string;
+  slot: PostSlot;
+  tweet_id: string | null; // Post ID on either platform
+  platform: "twitter" | "bluesky";
+  posted_at: string;
+  title: string;
+  slug: string | null;
+  calibration_sentence: string | null;
+  year: string | null;
+  poster_url: string | null;
+}
+
+export interface AdminSession {
+  token: string;
+  expires_at: string;
+}
+
+export interface DiscoveredPost {
+  id: string;
+  platform: string;
+  post_uri: string;
+  post_url: string;
+  author_handle: string;
+  author_display_name: string | null;
+  content: string;
+  detected_title: string | null;
+  relevance_score: number;
+  status: DiscoveredPostStatus;
+  search_phrase: string | null;
+  discovered_at: string;
+  acted_on_at: string | null;
+}
+
+export interface TmdbCacheEntry {
+  key: string; // The endpoint, e.g. "/tv/136315?append_to_response=credits"
+  value: unknown;
+  fetched_at: string;
+}
+
+// A slug a card used to have (its title or year changed, or it was disambiguated)
+export interface CardSlugHistory {
+  slug: string;
+  card_id: string;
+  replaced_at: string;
+}
+
+// How two titles compare, written by a model for a pair no card links; see versus.ts
+export interface CardVersus {
+  card_a_id: string;
+  card_b_id: string;
+  shared: string[]; // Traits both have, most telling first
+  contrasts: VersusContrast[];
+  verdict: string;
+  provider: string;
+  created_at: string;
+}
+
+// Where the two differ: how title A has it, and how title B does
+export interface VersusContrast {
+  a: string;
+  b: string;
+}
+
+// Columns the app writes when saving a card; everything else is defaulted
+export type CardInsert = Omit<
+  CachedCard,
+  "id" | "created_at" | "last_posted_at" | "last_posted_bluesky" | "og_layout" | "og_theme" | "og_images"
+>;
+
+// Which timestamp records a card's last post on a platform
+export type PostedColumn = "last_posted_at" | "last_posted_bluesky";
+
+export interface CardListOptions {
+  search?: string;
+  promptVersion?: string | null; // null = cards saved before prompt versioning
+  limit: number;
+  offset?: number;
+}
+
+// Which whole-title cards a browse page lists; unset fields don't filter
+export interface CardBrowseFilter {
+  mediaType?: string;
+  genre?: string;
+  yearFrom?: number; // Inclusive
+  yearTo?: number; // Inclusive
+}
+
+// The fields browse pages group cards by
+export type CardFacets = Pick<CachedCard, "media_type" | "year" | "genres">;
+
+// What the sitemap needs about a card
+export type CardSitemapEntry = Pick<CachedCard, "slug" | "created_at">;
+
+// A card matching a full-text search; see card-search.ts
+export interface CardSearchHit {
+  card: CachedCard;
+  rank: number;
+  snippet: string; // Matches wrapped in HIGHLIGHT_START/HIGHLIGHT_END
+}
+
+export interface CardRepository {
+  getById(id: string): Promise<CachedCard | null>;
+  // Movie and TV ids overlap, so a card is keyed on (media_type, tmdb_id, scope).
+  // scope "" is the whole-title card.
+  getByTmdbId(tmdbId: number, mediaType: string, scope?: string): Promise<CachedCard | null>;
+  // Whole-title cards with any of these ids, of either media type
+  getByTmdbIds(tmdbIds: number[]): Promise<CachedCard[]>;
+  // A title's season and episode cards, in no particular order
+  listScoped(tmdbId: number, mediaType: string): Promise<CachedCard[]>;
+  getBySlug(slug: string): Promise<CachedCard | null>;
+  getByIds(ids: string[]): Promise<CachedCard[]>;
+  // Newest first
+  list(options: CardListOptions): Promise<CachedCard[]>;
+  countByPromptVersion(promptVersion: string | null): Promise<number>;
+  // Whole-title cards matching a browse filter, by title, with the total count
+  browse(filter: CardBrowseFilter, limit: number, offset: number): Promise<{ cards: CachedCard[]; total: number }>;
+  // Media type, year and genres of every whole-title card
+  listFacets(): Promise<CardFacets[]>;
+  // Cards with a slug, oldest first
+  listSlugs(limit: number, offset: number): Promise<CardSitemapEntry[]>;
+  countSlugs(): Promise<number>;
+  // Full-text search over titles, calibration sentences, comparisons and prose, most relevant first
+  search(query: string, limit: number): Promise<CardSearchHit[]>;
+  // Cards with a slug and calibration sentence that haven't been posted since `notPostedSince`
+  listPostable(column: PostedColumn, notPostedSince: Date, limit: number): Promise<CachedCard[]>;
+  // Insert or replace by (media_type, tmdb_id, scope)
+  upsert(card: CardInsert): Promise<{ id: string; slug: string }>;
+  update(id: string, fields: Partial<CachedCard>): Promise<void>;
+}
+
+export interface PendingPostRepository {
+  getById(id: string): Promise<PendingPost | null>;
+  getByApprovalToken(token: string): Promise<PendingPost | null>;
+  // Pending and approved posts, soonest first
+  listOpen(limit: number): Promise<PendingPost[]>;
+  // Latest pending or approved post for a slot scheduled in [from, to)
+  findForSlot(slot: PostSlot, from: Date, to: Date): Promise<PendingPost | null>;
+  create(
+    post: Pick<PendingPost, "slot" | "scheduled_for" | "selected_card_id" | "alternative_card_ids" | "approval_token" | "token_expires_at" | "status">
+  ): Promise<PendingPost>;
+  update(id: string, fields: Partial<PendingPost>): Promise<PendingPost | null>;
+}
+
+export interface PostLogRepository {
+  create(log: Omit<PostLog, "id">): Promise<void>;
+  // Newest first
+  list(limit: number, offset: number): Promise<PostLog[]>;
+  // A card's posts, newest first
+  listByCard(cardId: string): Promise<PostLog[]>;
+  moveToCard(ids: string[], cardId: string): Promise<void>;
+}
+
+export interface SessionRepository {
+  create(token: string, expiresAt: Date): Promise<void>;
+  // The session if it exists and hasn't expired
+  getValid(token: string): Promise<AdminSession | null>;
+  delete(token: string): Promise<void>;
+}
+
+export interface DiscoveredPostRepository {
+  // Pending posts, most relevant first
+  listPending(limit: number): Promise<DiscoveredPost[]>;
+  // Insert unless a post with the same post_uri exists; returns whether it was inserted
+  insertIfNew(post: Omit<DiscoveredPost, "id" | "discovered_at" | "acted_on_at">): Promise<boolean>;
+  updateStatus(id: string, status: DiscoveredPostStatus): Promise<void>;
+}
+
+export interface TmdbCacheRepository {
+  get(key: string): Promise<TmdbCacheEntry | null>;
+  // Insert or replace by key
+  set(entry: TmdbCacheEntry): Promise<void>;
+}
+
+export interface CardSlugHistoryRepository {
+  // The card that used to have this slug
+  getCardId(slug: string): Promise<string | null>;
+  // Insert or replace by slug
+  add(slug: string, cardId: string): Promise<void>;
+}
+
+export interface CardVersusRepository {
+  // The stored comparison with card A shown first
+  get(cardAId: string, cardBId: string): Promise<CardVersus | null>;
+  // Insert or replace by (card_a_id, card_b_id)
+  save(versus: Omit<CardVersus, "created_at">): Promise<void>;
+}
+
+// Object storage for pre-rendered OG images. Paths are content-addressed, so
+// an object is written once and never changes.
+export interface OgImageStore {
+  // Uploads a PNG and returns its public URL
+  put(path: string, png: Buffer): Promise<string>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export interface Repositories {
+  cards: CardRepository;
+  pendingPosts: PendingPostRepository;
+  postLogs: PostLogRepository;
+  sessions: SessionRepository;
+  discoveredPosts: DiscoveredPostRepository;
+  tmdbCache: TmdbCacheRepository;
+  slugHistory: CardSlugHistoryRepository;
+  versus: CardVersusRepository;
+  ogImages: OgImageStore;
+}
+
+let repositories: Repositories | null = null;
+
+export function usesMemoryStore(): boolean {
+  return process.env.DATA_STORE === "memory" || process.env.OFFLINE_MODE === "1";
+}
+
+export function getRepositories(): Repositories {
+  repositories ??= usesMemoryStore() ? createMemoryRepositories() : createSupabaseRepositories();
+  return repositories;
+}
+
+// Swap the data store (tests use createMemoryRepositories())
+export function setRepositories(next: Repositories | null): void {
+  repositories = next;
+}
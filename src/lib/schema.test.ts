@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { TABLE_COLUMNS, TableName } from "@/lib/schema";
+
+const MIGRATIONS_DIR = path.join(__dirname, "..", "..", "supabase", "migrations");
+
+// Replay CREATE TABLE / ADD COLUMN / DROP COLUMN across every migration, in order
+function columnsFromMigrations(): Map<string, Set<string>> {
+  const tables = new Map<string, Set<string>>();
+  const files = fs.readdirSync(MIGRATIONS_DIR).filter((f) => f.endsWith(".sql")).sort();
+
+  for (const file of files) {
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), "utf8").replace(/--.*$/gm, "");
+
+    for (const [, table, body] of Array.from(sql.matchAll(/CREATE TABLE (?:IF NOT EXISTS )?(\w+) \(([\s\S]*?)\n\);/g))) {
+      const columns = body
+        .split("\n")
+        .map((line) => line.trim().match(/^(\w+) [A-Z]/)?.[1])
+        .filter((column): column is string => !!column);
+      tables.set(table, new Set(columns));
+    }
+
+    for (const [, table, column] of Array.from(sql.matchAll(/ALTER TABLE (\w+) ADD COLUMN (?:IF NOT EXISTS )?(\w+)/g))) {
+      tables.get(table)?.add(column);
+    }
+    for (const [, table, column] of Array.from(sql.matchAll(/ALTER TABLE (\w+) DROP COLUMN (?:IF EXISTS )?(\w+)/g))) {
+      tables.get(table)?.delete(column);
+    }
+  }
+
+  return tables;
+}
+
+describe("schema", () => {
+  const migrated = columnsFromMigrations();
+
+  it("has a migration for every table the app reads", () => {
+    expect(Array.from(migrated.keys()).sort()).toEqual(Object.keys(TABLE_COLUMNS).sort());
+  });
+
+  for (const table of Object.keys(TABLE_COLUMNS) as TableName[]) {
+    it(`${table} row type matches the migrated columns`, () => {
+      expect(Object.keys(TABLE_COLUMNS[table]).sort()).toEqual(Array.from(migrated.get(table) || []).sort());
+    });
+  }
+});
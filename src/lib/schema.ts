@@ -0,0 +1,124 @@
+import type { CachedCard } from "@/lib/supabase";
+import type {
+  AdminSession,
+  CardSlugHistory,
+  CardVersus,
+  DiscoveredPost,
+  PendingPost,
+  PostLog,
+  TmdbCacheEntry,
+} from "@/lib/repositories";
+
+// The row type each table is read into, with its columns listed at runtime.
+// Record<keyof Row, true> makes the compiler reject a missing or extra column,
+// and schema.test.ts checks the lists against supabase/migrations, so a column
+// added in SQL but not in TypeScript (or the other way round) fails the tests.
+
+type Columns<Row> = Record<keyof Row, true>;
+
+export interface TableRows {
+  cards: CachedCard;
+  posts: PostLog;
+  pending_posts: PendingPost;
+  admin_sessions: AdminSession;
+  discovered_posts: DiscoveredPost;
+  tmdb_cache: TmdbCacheEntry;
+  card_slug_history: CardSlugHistory;
+  card_versus: CardVersus;
+}
+
+export type TableName = keyof TableRows;
+
+export const TABLE_COLUMNS: { [Table in TableName]: Columns<TableRows[Table]> } = {
+  cards: {
+    id: true,
+    tmdb_id: true,
+    scope: true,
+    scope_name: true,
+    title: true,
+    slug: true,
+    media_type: true,
+    year: true,
+    poster_url: true,
+    genres: true,
+    card_content: true,
+    card_document: true,
+    calibration_sentence: true,
+    comparisons: true,
+    provider: true,
+    prompt_version: true,
+    validation: true,
+    last_posted_at: true,
+    last_posted_bluesky: true,
+    og_layout: true,
+    og_theme: true,
+    og_images: true,
+    created_at: true,
+  },
+  posts: {
+    id: true,
+    card_id: true,
+    slot: true,
+    tweet_id: true,
+    platform: true,
+    posted_at: true,
+    title: true,
+    slug: true,
+    calibration_sentence: true,
+    year: true,
+    poster_url: true,
+  },
+  pending_posts: {
+    id: true,
+    slot: true,
+    scheduled_for: true,
+    selected_card_id: true,
+    alternative_card_ids: true,
+    approval_token: true,
+    token_expires_at: true,
+    status: true,
+    approved_at: true,
+    approved_via: true,
+    posted_to_x: true,
+    posted_to_bluesky: true,
+    created_at: true,
+  },
+  admin_sessions: {
+    token: true,
+    expires_at: true,
+  },
+  discovered_posts: {
+    id: true,
+    platform: true,
+    post_uri: true,
+    post_url: true,
+    author_handle: true,
+    author_display_name: true,
+    content: true,
+    detected_title: true,
+    relevance_score: true,
+    status: true,
+    search_phrase: true,
+    discovered_at: true,
+    acted_on_at: true,
+  },
+  tmdb_cache: {
+    key: true,
+    value: true,
+    fetched_at: true,
+  },
+  card_slug_history: {
+    slug: true,
+    card_id: true,
+    replaced_at: true,
+  },
+  card_versus: {
+    card_a_id: true,
+    card_b_id: true,
+    shared: true,
+    contrasts: true,
+    verdict: true,
+    provider: true,
+    created_at: true,
+  },
+};
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CARDS_PER_SITEMAP,
+  cardSitemap,
+  countCardSitemaps,
+  pageSitemap,
+  renderSitemapIndex,
+  sitemapIndexUrls,
+} from "@/lib/sitemap";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import type { CachedCard } from "@/lib/supabase";
+import { makeCard } from "@/lib/test-fixtures";
+
+describe("sitemaps", () => {
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  function cards(count: number): CachedCard[] {
+    return Array.from({ length: count }, (_, i) =>
+      makeCard({
+        id: `card-${i}`,
+        tmdb_id: i,
+        title: `Film ${i}`,
+        slug: i === 0 ? null : `film-${i}`,
+        media_type: "movie",
+        year: "1999",
+        genres: ["Drama"],
+        card_content: "A card.",
+        created_at: new Date(Date.UTC(2026, 0, 1) + i * 1000).toISOString(),
+      })
+    );
+  }
+
+  it("splits cards with slugs across sitemaps", async () => {
+    setRepositories(createMemoryRepositories(createMemoryStore({ cards: cards(CARDS_PER_SITEMAP + 2) })));
+
+    expect(await countCardSitemaps()).toBe(2);
+    const first = await cardSitemap(0);
+    const second = await cardSitemap(1);
+    expect(first).toHaveLength(CARDS_PER_SITEMAP);
+    expect(first[0].url).toBe("https://texture.watch/card/film-1");
+    expect(second.map((entry) => entry.url)).toEqual(["https://texture.watch/card/film-5001"]);
+  });
+
+  it("lists every browse page", async () => {
+    setRepositories(createMemoryRepositories(createMemoryStore({ cards: cards(30) })));
+
+    const urls = (await pageSitemap()).map((entry) => entry.url.replace("https://texture.watch", ""));
+    expect(urls).toEqual([
+      "",
+      "/browse",
+      "/browse/movie",
+      "/browse/movie/2",
+      "/browse/genre/drama",
+      "/browse/genre/drama/2",
+      "/browse/decade/1990s",
+      "/browse/decade/1990s/2",
+    ]);
+  });
+
+  it("builds without a data store, but still fails at runtime", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const repositories = createMemoryRepositories(createMemoryStore());
+    repositories.cards.listFacets = () => Promise.reject(new Error("Supabase is not configured"));
+    repositories.cards.listSlugs = () => Promise.reject(new Error("Supabase is not configured"));
+    setRepositories(repositories);
+
+    await expect(pageSitemap()).rejects.toThrow("Supabase is not configured");
+    await expect(cardSitemap(0)).rejects.toThrow("Supabase is not configured");
+
+    vi.stubEnv("NEXT_PHASE", "phase-production-build");
+    expect((await pageSitemap()).map((entry) => entry.url)).toEqual(["https://texture.watch", "https://texture.watch/browse"]);
+    expect(await cardSitemap(0)).toEqual([]);
+  });
+
+  it("renders the index", () => {
+    expect(renderSitemapIndex(sitemapIndexUrls(1))).toContain(
+      "<sitemap><loc>https://texture.watch/sitemaps/cards/sitemap/0.xml</loc></sitemap>"
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import type { MetadataRoute } from "next";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
+import { getRepositories } from "@/lib/repositories";
+import { BROWSE_PAGE_SIZE, getStaticBrowseIndex, sectionPath } from "@/lib/browse";
+
+// /sitemap.xml is an index of:
+// - /sitemaps/pages/sitemap.xml: the home page and every browse page, paginated
+// - /sitemaps/cards/sitemap/<n>.xml: every card with a slug, CARDS_PER_SITEMAP
+//   to a file (the protocol allows 50,000)
+
+export const CARDS_PER_SITEMAP = 5000;
+// PostgREST returns at most 1000 rows per request
+const SLUG_BATCH = 1000;
+
+function baseUrl(): string {
+  return process.env.NEXT_PUBLIC_BASE_URL || "https://texture.watch";
+}
+
+export function sitemapIndexUrls(cardSitemaps: number): string[] {
+  const urls = [`${baseUrl()}/sitemaps/pages/sitemap.xml`];
+  for (let id = 0; id < cardSitemaps; id++) {
+    urls.push(`${baseUrl()}/sitemaps/cards/sitemap/${id}.xml`);
+  }
+  return urls;
+}
+
+export function renderSitemapIndex(urls: string[]): string {
+  const entries = urls.map((url) => `  <sitemap><loc>${url}</loc></sitemap>`).join("\n");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries}
+</sitemapindex>
+`;
+}
+
+// At least one, so the index never points at nothing
+export async function countCardSitemaps(): Promise<number> {
+  const count = await getRepositories().cards.countSlugs();
+  return Math.max(1, Math.ceil(count / CARDS_PER_SITEMAP));
+}
+
+// Empty while building without a data store, like getStaticBrowseIndex
+export async function cardSitemap(id: number): Promise<MetadataRoute.Sitemap> {
+  const entries: MetadataRoute.Sitemap = [];
+  const start = id * CARDS_PER_SITEMAP;
+
+  try {
+    const { cards } = getRepositories();
+    for (let offset = start; offset < start + CARDS_PER_SITEMAP; offset += SLUG_BATCH) {
+      const batch = await cards.listSlugs(SLUG_BATCH, offset);
+      for (const card of batch) {
+        entries.push({ url: `${baseUrl()}/card/${card.slug}`, lastModified: card.created_at });
+      }
+      if (batch.length < SLUG_BATCH) break;
+    }
+  } catch (error) {
+    if (process.env.NEXT_PHASE !== PHASE_PRODUCTION_BUILD) throw error;
+    console.error("Failed to list cards for the sitemap at build time:", error);
+    return [];
+  }
+  return entries;
+}
+
+export async function pageSitemap(): Promise<MetadataRoute.Sitemap> {
+  const index = await getStaticBrowseIndex();
+  const sections = [...index.media, ...index.genres, ...index.decades];
+  return [
+    { url: baseUrl(), changeFrequency: "daily", priority: 1 },
+    { url: `${baseUrl()}/browse`, changeFrequency: "daily", priority: 0.8 },
+    ...sections.flatMap(({ section, count }) =>
+      Array.from({ length: Math.ceil(count / BROWSE_PAGE_SIZE) }, (_, i) => ({
+        url: `${baseUrl()}${sectionPath(section, i + 1)}`,
+        changeFrequency: "daily" as const,
+        priority: i === 0 ? 0.6 : 0.4,
+      }))
+    ),
+  ];
+}
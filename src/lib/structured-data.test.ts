@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { cardJsonLd, serializeJsonLd } from "@/lib/structured-data";
+import type { CachedCard } from "@/lib/supabase";
+import { makeCard } from "@/lib/test-fixtures";
+
+function card(fields: Partial<CachedCard>): CachedCard {
+  return makeCard({ card_content: "A card.", calibration_sentence: "Like a panic attack in a kitchen.", ...fields });
+}
+
+describe("cardJsonLd", () => {
+  const url = "https://texture.watch/card/the-bear-2022";
+
+  it("describes a show with the card as a review", () => {
+    const data = cardJsonLd(card({}), url);
+    expect(data).toMatchObject({
+      "@context": "https://schema.org",
+      "@type": "TVSeries",
+      name: "The Bear",
+      startDate: "2022",
+      genre: ["Drama", "Comedy"],
+      sameAs: "https://www.themoviedb.org/tv/136315",
+      review: {
+        "@type": "Review",
+        reviewBody: "Like a panic attack in a kitchen.",
+        author: { "@type": "Organization", name: "Texture", url: "https://texture.watch" },
+      },
+    });
+  });
+
+  it("nests episodes under their season and series", () => {
+    const data = cardJsonLd(card({ scope: "s2e6", scope_name: "Fishes" }), `${url}/s2e6`);
+    expect(data).toMatchObject({
+      "@type": "TVEpisode",
+      name: "Fishes",
+      episodeNumber: 6,
+      partOfSeason: { "@type": "TVSeason", seasonNumber: 2 },
+      partOfSeries: { "@type": "TVSeries", name: "The Bear" },
+    });
+  });
+
+  it("leaves out the review for a card without a calibration sentence", () => {
+    const data = cardJsonLd(card({ media_type: "movie", calibration_sentence: null }), url);
+    expect(data["@type"]).toBe("Movie");
+    expect(data.datePublished).toBe("2022");
+    expect(data.review).toBeUndefined();
+  });
+
+  it("can't close its script tag", () => {
+    const json = serializeJsonLd(cardJsonLd(card({ title: "</script><b>" }), url));
+    expect(json).not.toContain("</script>");
+    expect(JSON.parse(json).name).toBe("</script><b>");
+  });
+});
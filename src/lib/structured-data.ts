@@ -0,0 +1,64 @@
+import type { CachedCard } from "@/lib/supabase";
+import { parseScope, scopedTitle } from "@/lib/card-scope";
+
+// schema.org JSON-LD for a card page: the title as a Movie, TVSeries,
+// TVSeason or TVEpisode, with the card as a Review of it whose body is the
+// calibration sentence.
+
+type JsonLd = Record<string, unknown>;
+
+function work(card: CachedCard): JsonLd {
+  const tmdbUrl = card.tmdb_id !== null ? `https://www.themoviedb.org/${card.media_type}/${card.tmdb_id}` : undefined;
+  const base: JsonLd = {
+    name: card.title,
+    ...(card.year && { [card.media_type === "tv" ? "startDate" : "datePublished"]: card.year }),
+    ...(card.genres && card.genres.length > 0 && { genre: card.genres }),
+    ...(tmdbUrl && { sameAs: tmdbUrl }),
+  };
+
+  if (card.media_type !== "tv") {
+    return { "@type": "Movie", ...base };
+  }
+
+  const scope = parseScope(card.scope);
+  if (!scope) {
+    return { "@type": "TVSeries", ...base };
+  }
+
+  const series = { "@type": "TVSeries", ...base };
+  const season = { "@type": "TVSeason", seasonNumber: scope.season, partOfSeries: series };
+  if (scope.episode === undefined) {
+    return { ...season, name: scopedTitle(card.title, card.scope, card.scope_name) };
+  }
+  return {
+    "@type": "TVEpisode",
+    name: card.scope_name || scopedTitle(card.title, card.scope, null),
+    episodeNumber: scope.episode,
+    partOfSeason: season,
+    partOfSeries: series,
+  };
+}
+
+export function cardJsonLd(card: CachedCard, url: string): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    ...work(card),
+    url,
+    ...(card.poster_url && { image: card.poster_url }),
+    ...(card.calibration_sentence && {
+      review: {
+        "@type": "Review",
+        name: `What ${scopedTitle(card.title, card.scope, card.scope_name)} feels like`,
+        reviewBody: card.calibration_sentence,
+        datePublished: card.created_at,
+        url,
+        author: { "@type": "Organization", name: "Texture", url: new URL(url).origin },
+      },
+    }),
+  };
+}
+
+// For a <script type="application/ld+json">; "<" is escaped so card text can't close the tag
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
@@ -0,0 +1,465 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type { CachedCard } from "@/lib/supabase";
+import type {
+  AdminSession,
+  CardFacets,
+  CardRepository,
+  CardSearchHit,
+  CardSitemapEntry,
+  CardSlugHistoryRepository,
+  CardVersus,
+  CardVersusRepository,
+  DiscoveredPost,
+  DiscoveredPostRepository,
+  OgImageStore,
+  PendingPost,
+  PendingPostRepository,
+  PostLog,
+  PostLogRepository,
+  Repositories,
+  SessionRepository,
+  TmdbCacheEntry,
+  TmdbCacheRepository,
+} from "@/lib/repositories";
+
+// Server-side client. Created lazily to avoid build-time errors when env vars are missing.
+export function getSupabase(): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+}
+
+// PostgREST's "no rows" error from .single()
+const NOT_FOUND = "PGRST116";
+
+// Querying a uuid column with anything else is an error, not a miss
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function fail(action: string, error: { message: string }): never {
+  throw new Error(`Supabase ${action} failed: ${error.message}`);
+}
+
+function cardRepository(supabase: SupabaseClient): CardRepository {
+  const getOne = async (column: string, value: string | number): Promise<CachedCard | null> => {
+    const { data, error } = await supabase.from("cards").select("*").eq(column, value).single();
+    if (error && error.code !== NOT_FOUND) fail("card lookup", error);
+    return (data as CachedCard) || null;
+  };
+
+  return {
+    getById: async (id) => (UUID_PATTERN.test(id) ? getOne("id", id) : null),
+    async getByTmdbId(tmdbId, mediaType, scope = "") {
+      const { data, error } = await supabase
+        .from("cards")
+        .select("*")
+        .eq("tmdb_id", tmdbId)
+        .eq("media_type", mediaType)
+        .eq("scope", scope)
+        .maybeSingle();
+      if (error) fail("card lookup", error);
+      return (data as CachedCard) || null;
+    },
+    getBySlug: (slug) => getOne("slug", slug),
+
+    async getByTmdbIds(tmdbIds) {
+      if (tmdbIds.length === 0) return [];
+      const { data, error } = await supabase.from("cards").select("*").in("tmdb_id", tmdbIds).eq("scope", "");
+      if (error) fail("card lookup", error);
+      return (data as CachedCard[]) || [];
+    },
+
+    async listScoped(tmdbId, mediaType) {
+      const { data, error } = await supabase
+        .from("cards")
+        .select("*")
+        .eq("tmdb_id", tmdbId)
+        .eq("media_type", mediaType)
+        .neq("scope", "");
+      if (error) fail("card lookup", error);
+      return (data as CachedCard[]) || [];
+    },
+
+    async getByIds(ids) {
+      ids = ids.filter((id) => UUID_PATTERN.test(id));
+      if (ids.length === 0) return [];
+      const { data, error } = await supabase.from("cards").select("*").in("id", ids);
+      if (error) fail("card lookup", error);
+      return (data as CachedCard[]) || [];
+    },
+
+    async list({ search, promptVersion, limit, offset = 0 }) {
+      let query = supabase
+        .from("cards")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (search) {
+        query = query.ilike("title", `%${search}%`);
+      }
+      if (promptVersion === null) {
+        query = query.is("prompt_version", null);
+      } else if (promptVersion) {
+        query = query.eq("prompt_version", promptVersion);
+      }
+
+      const { data, error } = await query;
+      if (error) fail("card list", error);
+      return (data as CachedCard[]) || [];
+    },
+
+    async countByPromptVersion(promptVersion) {
+      const query = supabase.from("cards").select("id", { count: "exact", head: true });
+      const { count, error } = await (promptVersion === null
+        ? query.is("prompt_version", null)
+        : query.eq("prompt_version", promptVersion));
+      if (error) fail("card count", error);
+      return count || 0;
+    },
+
+    async browse({ mediaType, genre, yearFrom, yearTo }, limit, offset) {
+      let query = supabase
+        .from("cards")
+        .select("*", { count: "exact" })
+        .eq("scope", "")
+        .order("title")
+        .order("id")
+        .range(offset, offset + limit - 1);
+
+      if (mediaType) {
+        query = query.eq("media_type", mediaType);
+      }
+      if (genre) {
+        query = query.contains("genres", [genre]);
+      }
+      // year is four-digit text, so string comparison orders it
+      if (yearFrom !== undefined) {
+        query = query.gte("year", String(yearFrom));
+      }
+      if (yearTo !== undefined) {
+        query = query.lte("year", String(yearTo));
+      }
+
+      const { data, error, count } = await query;
+      if (error) fail("card browse", error);
+      return { cards: (data as CachedCard[]) || [], total: count || 0 };
+    },
+
+    async listFacets() {
+      // PostgREST caps a response at 1000 rows, so page through
+      const facets: CardFacets[] = [];
+      const pageSize = 1000;
+      for (let offset = 0; ; offset += pageSize) {
+        const { data, error } = await supabase
+          .from("cards")
+          .select("media_type, year, genres")
+          .eq("scope", "")
+          .order("id")
+          .range(offset, offset + pageSize - 1);
+        if (error) fail("card facets", error);
+        facets.push(...((data as CardFacets[]) || []));
+        if (!data || data.length < pageSize) return facets;
+      }
+    },
+
+    async listSlugs(limit, offset) {
+      const { data, error } = await supabase
+        .from("cards")
+        .select("slug, created_at")
+        .not("slug", "is", null)
+        .order("created_at")
+        .order("id")
+        .range(offset, offset + limit - 1);
+      if (error) fail("card slugs", error);
+      return (data as CardSitemapEntry[]) || [];
+    },
+
+    async countSlugs() {
+      const { count, error } = await supabase
+        .from("cards")
+        .select("id", { count: "exact", head: true })
+        .not("slug", "is", null);
+      if (error) fail("card count", error);
+      return count || 0;
+    },
+
+    async search(query, limit) {
+      const { data, error } = await supabase.rpc("search_cards", { query, max_results: limit });
+      if (error) fail("card search", error);
+      return (data as CardSearchHit[]) || [];
+    },
+
+    async listPostable(column, notPostedSince, limit) {
+      const { data, error } = await supabase
+        .from("cards")
+        .select("*")
+        .not("calibration_sentence", "is", null)
+        .not("slug", "is", null)
+        .or(`${column}.is.null,${column}.lt.${notPostedSince.toISOString()}`)
+        .limit(limit);
+      if (error) fail("postable cards", error);
+      return (data as CachedCard[]) || [];
+    },
+
+    async upsert(card) {
+      const { data, error } = await supabase
+        .from("cards")
+        .upsert(card, { onConflict: "media_type,tmdb_id,scope" })
+        .select("id, slug")
+        .single();
+      if (error || !data) fail("card save", error || { message: "no row returned" });
+      return { id: data.id, slug: data.slug };
+    },
+
+    async update(id, fields) {
+      const { error } = await supabase.from("cards").update(fields).eq("id", id);
+      if (error) fail("card update", error);
+    },
+  };
+}
+
+function pendingPostRepository(supabase: SupabaseClient): PendingPostRepository {
+  const getOne = async (column: string, value: string): Promise<PendingPost | null> => {
+    const { data, error } = await supabase.from("pending_posts").select("*").eq(column, value).single();
+    if (error && error.code !== NOT_FOUND) fail("pending post lookup", error);
+    return (data as PendingPost) || null;
+  };
+
+  return {
+    getById: async (id) => (UUID_PATTERN.test(id) ? getOne("id", id) : null),
+    // Tokens are issued with crypto.randomUUID()
+    getByApprovalToken: async (token) => (UUID_PATTERN.test(token) ? getOne("approval_token", token) : null),
+
+    async listOpen(limit) {
+      const { data, error } = await supabase
+        .from("pending_posts")
+        .select("*")
+        .in("status", ["pending", "approved"])
+        .order("scheduled_for", { ascending: true })
+        .limit(limit);
+      if (error) fail("pending post list", error);
+      return (data as PendingPost[]) || [];
+    },
+
+    async findForSlot(slot, from, to) {
+      const { data, error } = await supabase
+        .from("pending_posts")
+        .select("*")
+        .eq("slot", slot)
+        .in("status", ["approved", "pending"])
+        .gte("scheduled_for", from.toISOString())
+        .lt("scheduled_for", to.toISOString())
+        .order("created_at", { ascending: false })
+        .limit(1);
+      if (error) fail("pending post lookup", error);
+      return (data?.[0] as PendingPost) || null;
+    },
+
+    async create(post) {
+      const { data, error } = await supabase.from("pending_posts").insert(post).select().single();
+      if (error || !data) fail("pending post insert", error || { message: "no row returned" });
+      return data as PendingPost;
+    },
+
+    async update(id, fields) {
+      if (!UUID_PATTERN.test(id)) return null;
+      const { data, error } = await supabase
+        .from("pending_posts")
+        .update(fields)
+        .eq("id", id)
+        .select()
+        .single();
+      if (error && error.code !== NOT_FOUND) fail("pending post update", error);
+      return (data as PendingPost) || null;
+    },
+  };
+}
+
+function postLogRepository(supabase: SupabaseClient): PostLogRepository {
+  return {
+    async create(log) {
+      const { error } = await supabase.from("posts").insert(log);
+      if (error) fail("post log insert", error);
+    },
+
+    async list(limit, offset) {
+      const { data, error } = await supabase
+        .from("posts")
+        .select("*")
+        .order("posted_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+      if (error) fail("post log list", error);
+      return (data as PostLog[]) || [];
+    },
+
+    async listByCard(cardId) {
+      const { data, error } = await supabase
+        .from("posts")
+        .select("*")
+        .eq("card_id", cardId)
+        .order("posted_at", { ascending: false });
+      if (error) fail("post log list", error);
+      return (data as PostLog[]) || [];
+    },
+
+    async moveToCard(ids, cardId) {
+      if (ids.length === 0) return;
+      const { error } = await supabase.from("posts").update({ card_id: cardId }).in("id", ids);
+      if (error) fail("post log update", error);
+    },
+  };
+}
+
+function sessionRepository(supabase: SupabaseClient): SessionRepository {
+  return {
+    async create(token, expiresAt) {
+      const { error } = await supabase.from("admin_sessions").insert({
+        token,
+        expires_at: expiresAt.toISOString(),
+      });
+      if (error) fail("session insert", error);
+    },
+
+    async getValid(token) {
+      if (!UUID_PATTERN.test(token)) return null;
+      const { data, error } = await supabase
+        .from("admin_sessions")
+        .select("*")
+        .eq("token", token)
+        .gt("expires_at", new Date().toISOString())
+        .single();
+      if (error && error.code !== NOT_FOUND) fail("session lookup", error);
+      return (data as AdminSession) || null;
+    },
+
+    async delete(token) {
+      const { error } = await supabase.from("admin_sessions").delete().eq("token", token);
+      if (error) fail("session delete", error);
+    },
+  };
+}
+
+function discoveredPostRepository(supabase: SupabaseClient): DiscoveredPostRepository {
+  return {
+    async listPending(limit) {
+      const { data, error } = await supabase
+        .from("discovered_posts")
+        .select("*")
+        .eq("status", "pending")
+        .order("relevance_score", { ascending: false })
+        .limit(limit);
+      if (error) fail("discovered post list", error);
+      return (data as DiscoveredPost[]) || [];
+    },
+
+    async insertIfNew(post) {
+      const { data, error } = await supabase
+        .from("discovered_posts")
+        .upsert(post, { onConflict: "post_uri", ignoreDuplicates: true })
+        .select("id");
+      if (error) fail("discovered post insert", error);
+      return (data?.length || 0) > 0;
+    },
+
+    async updateStatus(id, status) {
+      const { error } = await supabase
+        .from("discovered_posts")
+        .update({ status, acted_on_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) fail("discovered post update", error);
+    },
+  };
+}
+
+function tmdbCacheRepository(supabase: SupabaseClient): TmdbCacheRepository {
+  return {
+    async get(key) {
+      const { data, error } = await supabase.from("tmdb_cache").select("*").eq("key", key).maybeSingle();
+      if (error) fail("TMDB cache lookup", error);
+      return (data as TmdbCacheEntry) || null;
+    },
+
+    async set(entry) {
+      const { error } = await supabase.from("tmdb_cache").upsert(entry, { onConflict: "key" });
+      if (error) fail("TMDB cache write", error);
+    },
+  };
+}
+
+function slugHistoryRepository(supabase: SupabaseClient): CardSlugHistoryRepository {
+  return {
+    async getCardId(slug) {
+      const { data, error } = await supabase.from("card_slug_history").select("card_id").eq("slug", slug).maybeSingle();
+      if (error) fail("slug history lookup", error);
+      return data?.card_id || null;
+    },
+
+    async add(slug, cardId) {
+      const { error } = await supabase
+        .from("card_slug_history")
+        .upsert({ slug, card_id: cardId, replaced_at: new Date().toISOString() }, { onConflict: "slug" });
+      if (error) fail("slug history write", error);
+    },
+  };
+}
+
+function versusRepository(supabase: SupabaseClient): CardVersusRepository {
+  return {
+    async get(cardAId, cardBId) {
+      const { data, error } = await supabase
+        .from("card_versus")
+        .select("*")
+        .eq("card_a_id", cardAId)
+        .eq("card_b_id", cardBId)
+        .maybeSingle();
+      if (error) fail("versus lookup", error);
+      return (data as CardVersus) || null;
+    },
+
+    async save(versus) {
+      const { error } = await supabase
+        .from("card_versus")
+        .upsert({ ...versus, created_at: new Date().toISOString() }, { onConflict: "card_a_id,card_b_id" });
+      if (error) fail("versus write", error);
+    },
+  };
+}
+
+// Public bucket created by migration 0011
+const OG_IMAGE_BUCKET = "og-images";
+
+function ogImageStore(supabase: SupabaseClient): OgImageStore {
+  const bucket = () => supabase.storage.from(OG_IMAGE_BUCKET);
+  return {
+    async put(path, png) {
+      const { error } = await bucket().upload(path, png, {
+        contentType: "image/png",
+        cacheControl: "31536000",
+        upsert: true, // Concurrent renders of the same card write identical bytes
+      });
+      if (error) fail("OG image upload", error);
+      return bucket().getPublicUrl(path).data.publicUrl;
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) return;
+      const { error } = await bucket().remove(paths);
+      if (error) fail("OG image removal", error);
+    },
+  };
+}
+
+export function createSupabaseRepositories(supabase: SupabaseClient = getSupabase()): Repositories {
+  return {
+    cards: cardRepository(supabase),
+    pendingPosts: pendingPostRepository(supabase),
+    postLogs: postLogRepository(supabase),
+    sessions: sessionRepository(supabase),
+    discoveredPosts: discoveredPostRepository(supabase),
+    tmdbCache: tmdbCacheRepository(supabase),
+    slugHistory: slugHistoryRepository(supabase),
+    versus: versusRepository(supabase),
+    ogImages: ogImageStore(supabase),
+  };
+}
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  generateSlug,
+  getCachedCard,
+  getCachedTitleKeys,
+  getCardBySlugOrId,
+  isSafeSlug,
+  saveCard,
+  slugCandidates,
+  titleKey,
+} from "@/lib/supabase";
+import { createMemoryRepositories, createMemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+
+describe("generateSlug", () => {
+  it("lowercases, hyphenates and appends the year", () => {
+    expect(generateSlug("The Bear", "2022")).toBe("the-bear-2022");
+  });
+
+  it("drops punctuation", () => {
+    expect(generateSlug("Schitt's Creek", "2015")).toBe("schitts-creek-2015");
+    expect(generateSlug("Mission: Impossible", "1996")).toBe("mission-impossible-1996");
+  });
+
+  it("collapses repeated and edge hyphens", () => {
+    expect(generateSlug("  Spider-Man -- Far From Home ", "2019")).toBe("spider-man-far-from-home-2019");
+    expect(generateSlug("Alien³", null)).toBe("alien");
+  });
+
+  it("omits a missing year", () => {
+    expect(generateSlug("Severance", null)).toBe("severance");
+  });
+});
+
+describe("card cache key", () => {
+  afterEach(() => setRepositories(null));
+
+  // TMDB numbers movies and shows separately, so both can have id 1396
+  const card = {
+    tmdbId: 1396,
+    year: "2008",
+    posterUrl: null,
+    genres: null,
+    cardContent: "A card.",
+    provider: "mock",
+    promptVersion: "v1",
+  };
+
+  it("keeps a movie and a show with the same TMDB id apart", async () => {
+    const store = createMemoryStore();
+    setRepositories(createMemoryRepositories(store));
+
+    await saveCard({ ...card, title: "Breaking Bad", mediaType: "tv" });
+    expect(await getCachedCard(1396, "movie")).toBeNull();
+
+    await saveCard({ ...card, title: "A Different Film", mediaType: "movie" });
+
+    expect(store.cards).toHaveLength(2);
+    expect((await getCachedCard(1396, "tv"))?.title).toBe("Breaking Bad");
+    expect((await getCachedCard(1396, "movie"))?.title).toBe("A Different Film");
+  });
+
+  it("reports cached titles by media type", async () => {
+    setRepositories(createMemoryRepositories(createMemoryStore()));
+    await saveCard({ ...card, title: "Breaking Bad", mediaType: "tv" });
+
+    const cached = await getCachedTitleKeys([
+      { id: 1396, mediaType: "movie" },
+      { id: 1396, mediaType: "tv" },
+    ]);
+
+    expect(Array.from(cached)).toEqual([titleKey("tv", 1396)]);
+  });
+});
+
+describe("card slugs", () => {
+  afterEach(() => setRepositories(null));
+
+  const heat = {
+    title: "Heat",
+    mediaType: "movie",
+    year: "1995",
+    posterUrl: null,
+    genres: null,
+    cardContent: "A card.",
+    provider: "mock",
+    promptVersion: "v1",
+  };
+
+  it("disambiguates titles that share a slug, deterministically", async () => {
+    setRepositories(createMemoryRepositories(createMemoryStore()));
+
+    expect((await saveCard({ ...heat, tmdbId: 949 })).slug).toBe("heat-1995");
+    expect((await saveCard({ ...heat, tmdbId: 12345 })).slug).toBe("heat-1995-12345");
+    expect((await saveCard({ ...heat, tmdbId: null })).slug).toBe("heat-1995-2");
+    // Re-saving keeps each card's slug
+    expect((await saveCard({ ...heat, tmdbId: 12345 })).slug).toBe("heat-1995-12345");
+  });
+
+  it("keeps old slugs pointing at a card after it's renamed", async () => {
+    const store = createMemoryStore();
+    setRepositories(createMemoryRepositories(store));
+
+    const original = await saveCard({ ...heat, tmdbId: 949, year: null });
+    const renamed = await saveCard({ ...heat, tmdbId: 949 });
+
+    expect([original.slug, renamed.slug]).toEqual(["heat", "heat-1995"]);
+    expect((await getCardBySlugOrId("heat"))?.slug).toBe("heat-1995");
+    expect((await getCardBySlugOrId(original.id))?.slug).toBe("heat-1995");
+
+    // Another card can't take the old slug while it still redirects
+    expect((await saveCard({ ...heat, tmdbId: 1, year: null })).slug).toBe("heat-1");
+  });
+
+  it("nests season slugs under the show card's slug", () => {
+    const card = { title: "The Bear", year: "2022", tmdbId: 136315, mediaType: "tv", scope: { season: 2 } };
+    expect(slugCandidates(card, "the-bear-2022-136315")).toEqual([
+      "the-bear-2022-136315/s2",
+      "the-bear-2022-136315-136315/s2",
+      "the-bear-2022-136315-tv-136315/s2",
+    ]);
+  });
+
+  it("only treats slugs of the generated shape as safe to redirect to", () => {
+    expect(isSafeSlug("heat-1995-movie-949")).toBe(true);
+    expect(isSafeSlug("the-bear-2022/s2e6")).toBe(true);
+    for (const slug of ["", "../admin", "heat/../../admin", "heat//evil.com", "heat-1995/extra", "Heat", "heat?x=1"]) {
+      expect(isSafeSlug(slug)).toBe(false);
+    }
+  });
+});
@@ -1,23 +1,35 @@
-import { createClient } from "@supabase/supabase-js";
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-
-export const supabase = createClient(supabaseUrl, supabaseKey);
+import { CardDocument, parseCardDocument } from "@/lib/card-document";
+import { CardScope, formatScope, parseScope } from "@/lib/card-scope";
+import { CardValidation } from "@/lib/card-validation";
+import { getRepositories } from "@/lib/repositories";
 
 export interface Comparison {
   title: string;
   original_title?: string; // The title as written by Claude (for matching)
-  tmdb_id: number;
-  media_type: "movie" | "tv";
+  // null (with an empty slug) while unresolved: TMDB was unavailable when the
+  // card was saved, and `texture backfill comparisons` retries it
+  tmdb_id: number | null;
+  media_type: "movie" | "tv" | null;
   year: string;
   slug: string;
   phrase: string;
 }
 
+// A pre-rendered OG image in storage. hash covers everything the image shows,
+// so a render whose hash no longer matches the card is stale.
+export interface StoredOgImage {
+  hash: string;
+  path: string;
+  url: string;
+}
+
+export type StoredOgImages = Partial<Record<string, StoredOgImage>>; // By OgFormat
+
 export interface CachedCard {
   id: string;
   tmdb_id: number | null;
+  scope: string; // "" for the whole title, "s2" / "s2e6" for a season or episode (see card-scope.ts)
+  scope_name: string | null; // TMDB's season or episode name
   title: string;
   slug: string | null;
   media_type: string;
@@ -25,9 +37,17 @@ export interface CachedCard {
   poster_url: string | null;
   genres: string[] | null;
   card_content: string;
+  card_document: CardDocument | null;
   calibration_sentence: string | null;
   comparisons: Comparison[] | null;
-  provider: string | null;
+  provider: string | null; // Model that wrote the card, e.g. "claude-sonnet-4-20250514"
+  prompt_version: string | null; // See PROMPT_VERSIONS; null for cards saved before versioning
+  validation: CardValidation | null;
+  last_posted_at: string | null; // Last post to X
+  last_posted_bluesky: string | null;
+  og_layout: string | null; // OG image template (see og-templates.ts); null for the default
+  og_theme: string | null;
+  og_images: StoredOgImages | null; // Pre-rendered images by format (see og-storage.ts)
   created_at: string;
 }
 
@@ -43,169 +63,149 @@ export function generateSlug(title: string, year: string | null): string {
   return year ? `${baseSlug}-${year}` : baseSlug;
 }
 
-// Parse comparison titles and phrases from card content markdown
-// Patterns: "- Title → phrase" or "* Title → phrase" or "- *Title* → phrase"
-export interface ParsedComparison {
-  title: string;
-  phrase: string;
+// Whether a stored slug has the shape slugCandidates gives ("heat-1995", "the-bear-2022/s2e6"),
+// so it's safe to build a redirect URL from
+export function isSafeSlug(slug: string): boolean {
+  return /^[a-z0-9-]+(\/s\d+(e\d+)?)?$/.test(slug);
 }
 
-export function parseComparisons(cardContent: string): ParsedComparison[] {
-  const comparisons: ParsedComparison[] = [];
-
-  // Match lines like: "- Title → phrase" or "* Title → phrase" or "- *Title* → phrase"
-  // Handle both - and * bullets, and both → and -> arrows
-  const pattern = /^[-*]\s+\*?([^*→\->]+?)\*?\s*(?:→|->)\s*(.+)$/gm;
-
-  let match;
-  while ((match = pattern.exec(cardContent)) !== null) {
-    const title = match[1].trim();
-    const phrase = match[2].trim();
-
-    if (title && phrase) {
-      comparisons.push({ title, phrase });
-    }
-  }
-
-  return comparisons;
+const MAX_SLUG_COUNTER = 50;
+
+// Slugs a card may take, most preferred first. They depend only on the card, so
+// disambiguation is deterministic: "heat-1995", then with the TMDB id
+// ("heat-1995-949"), then with the media type too ("heat-1995-movie-949").
+// Cards without a TMDB id get a counter instead. Season and episode cards use
+// their show card's slug (when it exists) plus the scope, e.g. "the-bear-2022/s2".
+export function slugCandidates(
+  card: { title: string; year: string | null; tmdbId: number | null; mediaType: string; scope?: CardScope | null },
+  showSlug: string | null = null
+): string[] {
+  const base = showSlug || generateSlug(card.title, card.year);
+  const bases =
+    card.tmdbId !== null
+      ? [base, `${base}-${card.tmdbId}`, `${base}-${card.mediaType}-${card.tmdbId}`]
+      : [base, ...Array.from({ length: MAX_SLUG_COUNTER - 1 }, (_, i) => `${base}-${i + 2}`)];
+  const scope = formatScope(card.scope || null);
+  return scope ? bases.map((slug) => `${slug}/${scope}`) : bases;
 }
 
-// Extract calibration sentence from card content
-// Pattern: "If [Title] felt (like) X, this/[Title2] (may) feel(s) (like) Y"
-// Must be on its own line (not inside a bullet list)
-export function extractCalibrationSentence(cardContent: string): string | null {
-  // Split into lines and find lines that match the calibration pattern
-  // but are NOT bullet points (don't start with - or *)
-  const lines = cardContent.split('\n');
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    // Skip bullet points
-    if (trimmedLine.startsWith('-') || trimmedLine.startsWith('*') && !trimmedLine.startsWith('*If')) {
-      continue;
-    }
-    // Skip lines that are part of comparison section (contain →)
-    if (trimmedLine.includes('→') || trimmedLine.includes('->')) {
-      continue;
-    }
-
-    // Look for calibration pattern on standalone lines
-    const patterns = [
-      // Pattern with "this": If X felt (like) Y, this feels Z
-      /^\*?If\s+\*?([^*,]+?)\*?\s+felt\s+(like\s+)?(.+?),\s+this\s+((?:may\s+)?feel[s]?\s+(?:like\s+)?.+?)\.?\*?$/i,
-      // Pattern with title name: If X felt (like) Y, Title feels Z
-      /^\*?If\s+\*?([^*,]+?)\*?\s+felt\s+(like\s+)?(.+?),\s+([A-Z][A-Za-z0-9\s':]+?)\s+((?:may\s+)?feel[s]?\s+(?:like\s+)?.+?)\.?\*?$/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = trimmedLine.match(pattern);
-      if (match) {
-        if (match.length === 5) {
-          // Pattern 1: title, likeWord, feltPart, feelsPart
-          const [, title, likeWord, feltPart, feelsPart] = match;
-          const cleanTitle = title.replace(/\*/g, '').trim();
-          const cleanFelt = feltPart.replace(/\*/g, '').trim();
-          const cleanFeels = feelsPart.replace(/\*/g, '').replace(/\.+$/, '').trim();
-          const feltPrefix = likeWord ? 'like ' : '';
-          return `If ${cleanTitle} felt ${feltPrefix}${cleanFelt}, this ${cleanFeels}.`;
-        } else if (match.length === 6) {
-          // Pattern 2: title, likeWord, feltPart, subject, feelsPart
-          const [, title, likeWord, feltPart, , feelsPart] = match;
-          const cleanTitle = title.replace(/\*/g, '').trim();
-          const cleanFelt = feltPart.replace(/\*/g, '').trim();
-          const cleanFeels = feelsPart.replace(/\*/g, '').replace(/\.+$/, '').trim();
-          const feltPrefix = likeWord ? 'like ' : '';
-          return `If ${cleanTitle} felt ${feltPrefix}${cleanFelt}, this ${cleanFeels}.`;
-        }
-      }
-    }
+// First candidate no other card has now or had before (old slugs keep redirecting)
+async function chooseSlug(candidates: string[], cardId: string | null): Promise<string> {
+  const repositories = getRepositories();
+  for (const slug of candidates) {
+    const holder = await repositories.cards.getBySlug(slug);
+    if (holder && holder.id !== cardId) continue;
+    const formerHolder = await repositories.slugHistory.getCardId(slug);
+    if (formerHolder && formerHolder !== cardId) continue;
+    return slug;
   }
+  throw new Error(`No free slug for "${candidates[0]}"`);
+}
 
-  return null;
+// TMDB movie and TV ids are separate namespaces: movie 1396 and TV 1396 are different titles
+export function titleKey(mediaType: string, tmdbId: number): string {
+  return `${mediaType}:${tmdbId}`;
 }
 
-export async function getCachedCard(tmdbId: number): Promise<CachedCard | null> {
-  const { data, error } = await supabase
-    .from("cards")
-    .select("*")
-    .eq("tmdb_id", tmdbId)
-    .single();
+export async function getCachedCard(
+  tmdbId: number,
+  mediaType: string,
+  scope: CardScope | null = null
+): Promise<CachedCard | null> {
+  return getRepositories().cards.getByTmdbId(tmdbId, mediaType, formatScope(scope));
+}
 
-  if (error || !data) {
-    return null;
-  }
+// A title's season and episode cards, in season then episode order
+export async function getScopedCards(tmdbId: number, mediaType: string): Promise<CachedCard[]> {
+  const cards = await getRepositories().cards.listScoped(tmdbId, mediaType);
+  const order = (card: CachedCard) => {
+    const scope = parseScope(card.scope);
+    return scope ? scope.season * 10000 + (scope.episode || 0) : 0;
+  };
+  return cards.sort((a, b) => order(a) - order(b));
+}
 
-  return data as CachedCard;
+// titleKeys of the titles (of those given) that already have a whole-title card, in one query
+export async function getCachedTitleKeys(titles: { id: number; mediaType: string }[]): Promise<Set<string>> {
+  const cards = await getRepositories().cards.getByTmdbIds(titles.map((title) => title.id));
+  return new Set(cards.map((card) => titleKey(card.media_type, card.tmdb_id!)));
 }
 
 export async function getCardById(id: string): Promise<CachedCard | null> {
-  const { data, error } = await supabase
-    .from("cards")
-    .select("*")
-    .eq("id", id)
-    .single();
-
-  if (error || !data) {
-    return null;
-  }
-
-  return data as CachedCard;
+  return getRepositories().cards.getById(id);
 }
 
-// Get card by slug or UUID (for backwards compatibility)
+// Get card by slug, a slug it used to have, or UUID (for backwards compatibility).
+// Callers compare the result's slug with what they asked for to redirect.
 export async function getCardBySlugOrId(slugOrId: string): Promise<CachedCard | null> {
-  // First try by slug
-  const { data: bySlug } = await supabase
-    .from("cards")
-    .select("*")
-    .eq("slug", slugOrId)
-    .single();
-
-  if (bySlug) {
-    return bySlug as CachedCard;
-  }
-
-  // Fall back to UUID lookup
-  const { data: byId } = await supabase
-    .from("cards")
-    .select("*")
-    .eq("id", slugOrId)
-    .single();
-
-  if (byId) {
-    return byId as CachedCard;
+  const { cards, slugHistory } = getRepositories();
+  const current = await cards.getBySlug(slugOrId);
+  if (current) {
+    return current;
   }
-
-  return null;
+  const formerId = await slugHistory.getCardId(slugOrId);
+  return (formerId && (await cards.getById(formerId))) || (await cards.getById(slugOrId));
 }
 
 export async function saveCard(card: {
   tmdbId: number | null;
+  scope?: CardScope | null;
+  scopeName?: string | null;
   title: string;
   mediaType: string;
   year: string | null;
   posterUrl: string | null;
   genres: string[] | null;
   cardContent: string;
+  cardDocument?: CardDocument;
   comparisons?: Comparison[] | null;
   provider: string;
-}): Promise<{ id: string; slug: string; calibrationSentence: string | null; comparisons: Comparison[] | null } | null> {
-  console.log("Attempting to save card:", { tmdbId: card.tmdbId, title: card.title, provider: card.provider });
+  promptVersion: string;
+  validation?: CardValidation | null;
+}): Promise<{
+  id: string;
+  slug: string;
+  calibrationSentence: string | null;
+  cardDocument: CardDocument;
+  comparisons: Comparison[] | null;
+}> {
+  console.log("Attempting to save card:", {
+    tmdbId: card.tmdbId,
+    scope: formatScope(card.scope || null),
+    title: card.title,
+    provider: card.provider,
+    promptVersion: card.promptVersion,
+  });
 
-  // Extract calibration sentence from card content
-  const calibrationSentence = extractCalibrationSentence(card.cardContent);
+  // Parse structure from card content (unless the caller already did)
+  const cardDocument = card.cardDocument || parseCardDocument(card.cardContent);
+  const calibrationSentence = cardDocument.calibration?.text || null;
   if (calibrationSentence) {
     console.log("Extracted calibration sentence:", calibrationSentence);
   }
 
-  // Generate slug from title and year
-  const slug = generateSlug(card.title, card.year);
+  // Pick a unique slug. A card keeps the one it has while it's still a candidate,
+  // so regenerating doesn't move it; otherwise the old slug goes to the history.
+  const repositories = getRepositories();
+  const scope = formatScope(card.scope || null);
+  const existing =
+    card.tmdbId !== null ? await repositories.cards.getByTmdbId(card.tmdbId, card.mediaType, scope) : null;
+  const show =
+    scope && card.tmdbId !== null ? await repositories.cards.getByTmdbId(card.tmdbId, card.mediaType) : null;
+  const candidates = slugCandidates(card, show?.slug);
+  const previousSlug = existing?.slug || null;
+  const slug =
+    previousSlug && candidates.includes(previousSlug)
+      ? previousSlug
+      : await chooseSlug(candidates, existing?.id || null);
   console.log("Generated slug:", slug);
 
   const comparisons = card.comparisons || null;
 
-  const { data, error } = await supabase.from("cards").upsert({
+  const data = await repositories.cards.upsert({
     tmdb_id: card.tmdbId,
+    scope,
+    scope_name: card.scopeName || null,
     title: card.title,
     slug,
     media_type: card.mediaType,
@@ -213,16 +213,19 @@ export async function saveCard(card: {
     poster_url: card.posterUrl,
     genres: card.genres,
     card_content: card.cardContent,
+    card_document: cardDocument,
     calibration_sentence: calibrationSentence,
     comparisons,
     provider: card.provider,
-  }, { onConflict: 'tmdb_id' }).select('id, slug').single();
+    prompt_version: card.promptVersion,
+    validation: card.validation || null,
+  });
 
-  if (error) {
-    console.error("Failed to save card:", error);
-    throw new Error(`Supabase save failed: ${error.message}`);
+  if (previousSlug && previousSlug !== slug) {
+    await repositories.slugHistory.add(previousSlug, data.id);
+    console.log(`Slug changed from ${previousSlug}, old URL will redirect`);
   }
 
-  console.log("Card saved successfully:", card.title, "ID:", data?.id, "Slug:", data?.slug);
-  return data ? { id: data.id, slug: data.slug, calibrationSentence, comparisons } : null;
+  console.log("Card saved successfully:", card.title, "ID:", data.id, "Slug:", data.slug);
+  return { id: data.id, slug: data.slug, calibrationSentence, cardDocument, comparisons };
 }
@@ -0,0 +1,33 @@
+import type { CachedCard } from "@/lib/supabase";
+
+// A stored card for tests: The Bear's whole-title card, with nothing generated or
+// posted yet. Tests override the fields they're about, so a new CachedCard column
+// only needs a default here.
+export function makeCard(overrides: Partial<CachedCard> = {}): CachedCard {
+  return {
+    id: "11111111-1111-1111-1111-111111111111",
+    tmdb_id: 136315,
+    scope: "",
+    scope_name: null,
+    title: "The Bear",
+    slug: "the-bear-2022",
+    media_type: "tv",
+    year: "2022",
+    poster_url: null,
+    genres: ["Drama", "Comedy"],
+    card_content: "",
+    card_document: null,
+    calibration_sentence: null,
+    comparisons: null,
+    provider: "mock",
+    prompt_version: "v1",
+    validation: null,
+    last_posted_at: null,
+    last_posted_bluesky: null,
+    og_layout: null,
+    og_theme: null,
+    og_images: null,
+    created_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
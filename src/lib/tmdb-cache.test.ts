@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cachedTmdbFetch, clearTmdbMemoryCache } from "@/lib/tmdb-cache";
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("cachedTmdbFetch", () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    store = createMemoryStore();
+    setRepositories(createMemoryRepositories(store));
+    clearTmdbMemoryCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    setRepositories(null);
+  });
+
+  it("serves repeat requests from the cache", async () => {
+    const load = vi.fn().mockResolvedValue({ popularity: 10 });
+
+    await cachedTmdbFetch("/tv/1", load);
+    const second = await cachedTmdbFetch("/tv/1", load);
+
+    expect(second).toEqual({ popularity: 10 });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one fetch between concurrent requests", async () => {
+    const load = vi.fn().mockResolvedValue({ results: [] });
+
+    await Promise.all([cachedTmdbFetch("/search/multi?query=a", load), cachedTmdbFetch("/search/multi?query=a", load)]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the persistent store after a cold start", async () => {
+    await cachedTmdbFetch("/movie/2", async () => ({ popularity: 5 }));
+    clearTmdbMemoryCache();
+
+    const load = vi.fn();
+    expect(await cachedTmdbFetch("/movie/2", load)).toEqual({ popularity: 5 });
+    expect(load).not.toHaveBeenCalled();
+    expect(store.tmdbCache.has("/movie/2")).toBe(true);
+  });
+
+  it("returns stale values while revalidating in the background", async () => {
+    await cachedTmdbFetch("/search/multi?query=b", async () => "old");
+    vi.advanceTimersByTime(2 * HOUR); // Past the 1h search TTL, inside the stale window
+
+    const load = vi.fn().mockResolvedValue("new");
+    expect(await cachedTmdbFetch("/search/multi?query=b", load)).toBe("old");
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await vi.runAllTimersAsync();
+    expect(await cachedTmdbFetch("/search/multi?query=b", load)).toBe("new");
+  });
+
+  it("waits for a fresh value once the stale window has passed", async () => {
+    await cachedTmdbFetch("/search/multi?query=c", async () => "old");
+    vi.advanceTimersByTime(48 * HOUR);
+
+    expect(await cachedTmdbFetch("/search/multi?query=c", async () => "new")).toBe("new");
+  });
+
+  it("does not cache failures", async () => {
+    await expect(cachedTmdbFetch("/tv/3", () => Promise.reject(new Error("TMDB API error: 500")))).rejects.toThrow();
+    expect(await cachedTmdbFetch("/tv/3", async () => "ok")).toBe("ok");
+  });
+
+  it("bypasses the cache when TMDB_CACHE=off", async () => {
+    vi.stubEnv("TMDB_CACHE", "off");
+    const load = vi.fn().mockResolvedValue("value");
+
+    await cachedTmdbFetch("/tv/4", load);
+    await cachedTmdbFetch("/tv/4", load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,124 @@
+import { getRepositories, TmdbCacheEntry } from "@/lib/repositories";
+
+// Response cache in front of the TMDB API. Lookups go:
+//   1. this instance's memory (cheap, lost on cold start)
+//   2. the tmdb_cache table (shared by every instance and the CLI)
+//   3. the network, with concurrent requests for the same endpoint sharing one fetch
+//
+// Each endpoint has a TTL. Past it, endpoints marked `swr` keep serving the
+// stale value for up to `staleMs` while one background fetch refreshes it;
+// the rest wait for a fresh response. TMDB_CACHE=off bypasses the cache.
+
+interface CacheRule {
+  pattern: RegExp;
+  ttlMs: number;
+  swr: boolean;
+  staleMs: number;
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// First match wins
+const CACHE_RULES: CacheRule[] = [
+  { pattern: /^\/search\//, ttlMs: HOUR, swr: true, staleMs: DAY },
+  { pattern: /^\/(movie|tv)\/popular/, ttlMs: 6 * HOUR, swr: true, staleMs: 2 * DAY },
+  { pattern: /^\/(movie|tv)\/\d+/, ttlMs: DAY, swr: true, staleMs: 7 * DAY },
+  { pattern: /.*/, ttlMs: HOUR, swr: false, staleMs: 0 },
+];
+
+const MAX_MEMORY_ENTRIES = 500;
+
+const memory = new Map<string, TmdbCacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+export function isTmdbCacheEnabled(): boolean {
+  return process.env.TMDB_CACHE !== "off";
+}
+
+function ruleFor(key: string): CacheRule {
+  return CACHE_RULES.find((rule) => rule.pattern.test(key))!;
+}
+
+function remember(entry: TmdbCacheEntry): void {
+  // Map keeps insertion order, so re-inserting moves the key to the end and
+  // the first key is always the least recently stored
+  memory.delete(entry.key);
+  memory.set(entry.key, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+async function readEntry(key: string): Promise<TmdbCacheEntry | null> {
+  const cached = memory.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const stored = await getRepositories().tmdbCache.get(key);
+    if (stored) {
+      remember(stored);
+    }
+    return stored;
+  } catch (error) {
+    console.error("TMDB cache read failed:", error);
+    return null;
+  }
+}
+
+// Fetch once per key at a time and store the result in both tiers
+function refresh<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const request = load()
+    .then(async (value) => {
+      const entry = { key, value, fetched_at: new Date().toISOString() };
+      remember(entry);
+      try {
+        await getRepositories().tmdbCache.set(entry);
+      } catch (error) {
+        console.error("TMDB cache write failed:", error);
+      }
+      return value;
+    })
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, request);
+  return request;
+}
+
+export async function cachedTmdbFetch<T>(key: string, load: () => Promise<T>): Promise<T> {
+  if (!isTmdbCacheEnabled()) {
+    return load();
+  }
+
+  const rule = ruleFor(key);
+  const entry = await readEntry(key);
+
+  if (entry) {
+    const age = Date.now() - new Date(entry.fetched_at).getTime();
+    if (age < rule.ttlMs) {
+      return entry.value as T;
+    }
+
+    if (rule.swr && age < rule.ttlMs + rule.staleMs) {
+      // On serverless the refresh may be cut off when the response ends;
+      // the next request past the TTL just tries again
+      refresh(key, load).catch((error) => console.error(`TMDB revalidation failed for ${key}:`, error));
+      return entry.value as T;
+    }
+  }
+
+  return refresh(key, load);
+}
+
+// Drop this instance's memory tier (the shared table is left alone)
+export function clearTmdbMemoryCache(): void {
+  memory.clear();
+}
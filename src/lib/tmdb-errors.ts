@@ -0,0 +1,37 @@
+// Errors thrown by TMDB lookups. Callers use the type to decide what to do:
+// a TmdbNotFoundError won't change on retry; a TmdbTemporaryError (rate limit,
+// 5xx, network) is worth retrying later.
+
+export class TmdbError extends Error {
+  constructor(
+    message: string,
+    public endpoint: string,
+    public status: number | null // null when the request never got a response
+  ) {
+    super(message);
+    this.name = "TmdbError";
+  }
+}
+
+export class TmdbNotFoundError extends TmdbError {
+  constructor(endpoint: string) {
+    super(`TMDB: nothing at ${endpoint}`, endpoint, 404);
+    this.name = "TmdbNotFoundError";
+  }
+}
+
+export class TmdbTemporaryError extends TmdbError {
+  constructor(
+    endpoint: string,
+    status: number | null,
+    public retryAfterMs: number | null, // From Retry-After, when TMDB sent one
+    public attempts: number
+  ) {
+    super(`TMDB unavailable for ${endpoint} (${status ?? "network error"}) after ${attempts} attempt(s)`, endpoint, status);
+    this.name = "TmdbTemporaryError";
+  }
+}
+
+export function isTemporaryTmdbError(error: unknown): error is TmdbTemporaryError {
+  return error instanceof TmdbTemporaryError;
+}
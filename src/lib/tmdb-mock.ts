@@ -0,0 +1,127 @@
+import fixtures from "@/lib/fixtures/tmdb.json";
+import { TmdbNotFoundError } from "@/lib/tmdb-errors";
+
+// Offline stand-in for the TMDB API. tmdbFetch routes here when TMDB_MOCK=1
+// (or OFFLINE_MODE=1), so searchMediaMultiple, getMediaById, searchMedia and
+// resolveComparisonTitle all run against src/lib/fixtures/tmdb.json. To make a
+// new title available offline, add it to the fixtures. Seasons and episodes of
+// fixture shows are made up from number_of_seasons.
+
+interface FixtureTitle {
+  id: number;
+  media_type: "movie" | "tv";
+  title?: string;
+  name?: string;
+  overview: string;
+  poster_path: string | null;
+  release_date?: string;
+  first_air_date?: string;
+  genres: { id: number; name: string }[];
+  vote_average: number;
+  popularity: number;
+  number_of_seasons?: number;
+}
+
+const EPISODES_PER_SEASON = 8;
+
+const titles = fixtures as FixtureTitle[];
+
+export function isTmdbMocked(): boolean {
+  return process.env.TMDB_MOCK === "1" || process.env.OFFLINE_MODE === "1";
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Search results have genre_ids instead of genres, like the real API
+function toSearchResult(title: FixtureTitle) {
+  const { genres, ...rest } = title;
+  return { ...rest, genre_ids: genres.map((g) => g.id) };
+}
+
+// Exact titles first, then titles containing the query, most popular first
+function search(query: string) {
+  const q = normalize(query);
+  if (!q) {
+    return [];
+  }
+
+  return titles
+    .filter((t) => normalize(t.title || t.name || "").includes(q))
+    .sort((a, b) => {
+      const aExact = normalize(a.title || a.name || "") === q ? 1 : 0;
+      const bExact = normalize(b.title || b.name || "") === q ? 1 : 0;
+      return bExact - aExact || b.popularity - a.popularity;
+    })
+    .map(toSearchResult);
+}
+
+export async function mockTmdbFetch<T>(endpoint: string): Promise<T> {
+  const url = new URL(endpoint, "https://api.themoviedb.org");
+  const path = url.pathname.replace(/^\/3/, "");
+
+  if (path === "/search/multi") {
+    return { results: search(url.searchParams.get("query") || "") } as T;
+  }
+
+  const popular = path.match(/^\/(movie|tv)\/popular$/);
+  if (popular) {
+    const results = titles
+      .filter((t) => t.media_type === popular[1])
+      .sort((a, b) => b.popularity - a.popularity)
+      .map(toSearchResult);
+    return { page: 1, results, total_pages: 1 } as T;
+  }
+
+  const details = path.match(/^\/(movie|tv)\/(\d+)$/);
+  if (details) {
+    const title = titles.find((t) => t.media_type === details[1] && t.id === Number(details[2]));
+    if (title) {
+      return title as T;
+    }
+  }
+
+  const season = path.match(/^\/tv\/(\d+)\/season\/(\d+)(?:\/episode\/(\d+))?$/);
+  if (season) {
+    const show = titles.find((t) => t.media_type === "tv" && t.id === Number(season[1]));
+    const seasonNumber = Number(season[2]);
+    const episodeNumber = season[3] ? Number(season[3]) : null;
+    if (
+      show &&
+      seasonNumber >= 1 &&
+      seasonNumber <= (show.number_of_seasons || 1) &&
+      (episodeNumber === null || (episodeNumber >= 1 && episodeNumber <= EPISODES_PER_SEASON))
+    ) {
+      return (episodeNumber === null ? mockSeason(show, seasonNumber) : mockEpisode(show, seasonNumber, episodeNumber)) as T;
+    }
+  }
+
+  // Same error as a real TMDB miss, so callers exercise their error paths
+  throw new TmdbNotFoundError(endpoint);
+}
+
+function mockSeason(show: FixtureTitle, seasonNumber: number) {
+  const firstYear = Number((show.first_air_date || "2000").split("-")[0]);
+  return {
+    name: `Season ${seasonNumber}`,
+    overview: `Season ${seasonNumber} of ${show.name}.`,
+    air_date: `${firstYear + seasonNumber - 1}-06-01`,
+    poster_path: show.poster_path,
+    episodes: Array.from({ length: EPISODES_PER_SEASON }, (_, i) => ({
+      episode_number: i + 1,
+      name: `Episode ${i + 1}`,
+    })),
+  };
+}
+
+function mockEpisode(show: FixtureTitle, seasonNumber: number, episodeNumber: number) {
+  const firstYear = Number((show.first_air_date || "2000").split("-")[0]);
+  return {
+    name: `Episode ${episodeNumber}`,
+    overview: `Episode ${episodeNumber} of season ${seasonNumber} of ${show.name}.`,
+    air_date: `${firstYear + seasonNumber - 1}-06-${String(episodeNumber).padStart(2, "0")}`,
+    crew: [],
+    guest_stars: [],
+  };
+}
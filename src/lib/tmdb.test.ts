@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMediaById, resolveComparisonTitle } from "@/lib/tmdb";
+import { TmdbNotFoundError, TmdbTemporaryError } from "@/lib/tmdb-errors";
+
+function jsonResponse(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+// Settle a promise that is waiting on backoff timers
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  promise.catch(() => undefined);
+  await vi.runAllTimersAsync();
+  return promise;
+}
+
+describe("TMDB client", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubEnv("TMDB_API_TOKEN", "test-token");
+    vi.stubEnv("TMDB_CACHE", "off");
+    vi.stubEnv("TMDB_MOCK", "");
+    vi.stubEnv("OFFLINE_MODE", "");
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("retries a 429 after the Retry-After delay", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, {}, { "Retry-After": "2" }))
+      .mockResolvedValueOnce(jsonResponse(200, { results: [] }));
+
+    const result = resolveComparisonTitle("Heat");
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await result).toBeNull();
+  });
+
+  it("retries 5xx and network errors, then reports a temporary failure", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValue(jsonResponse(503));
+
+    const error = await settle(resolveComparisonTitle("Heat")).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TmdbTemporaryError);
+    expect(error.status).toBe(503);
+    expect(error.attempts).toBe(4);
+  });
+
+  it("gives up at once when Retry-After is too long to wait", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(429, {}, { "Retry-After": "120" }));
+
+    const error = await settle(resolveComparisonTitle("Heat")).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TmdbTemporaryError);
+    expect(error.retryAfterMs).toBe(120_000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws TmdbNotFoundError for a 404 without retrying", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404));
+
+    await expect(settle(getMediaById(1, "movie"))).rejects.toBeInstanceOf(TmdbNotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns null when a comparison title has no match", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { results: [{ id: 1, name: "Someone", media_type: "person" }] }));
+
+    expect(await settle(resolveComparisonTitle("Nobody"))).toBeNull();
+  });
+});
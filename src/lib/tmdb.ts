@@ -1,5 +1,20 @@
+import { isTmdbMocked, mockTmdbFetch } from "@/lib/tmdb-mock";
+import { cachedTmdbFetch } from "@/lib/tmdb-cache";
+import { TmdbError, TmdbNotFoundError, TmdbTemporaryError } from "@/lib/tmdb-errors";
+import { createTokenBucket } from "@/lib/token-bucket";
+import { CardScope, scopeLabel } from "@/lib/card-scope";
+
 const TMDB_BASE_URL = "https://api.themoviedb.org/3";
 
+// Shared by every TMDB call in this process. TMDB allows roughly 50 requests/second.
+const tmdbLimiter = createTokenBucket({ capacity: 40, refillPerSecond: 40 });
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+// A Retry-After longer than this isn't worth holding a request open for
+const MAX_RETRY_AFTER_MS = 30_000;
+
 interface TMDBSearchResult {
   id: number;
   title?: string;
@@ -37,6 +52,34 @@ interface TMDBDetails {
   };
 }
 
+interface TMDBSeasonDetails {
+  name: string;
+  overview: string;
+  air_date: string | null;
+  poster_path: string | null;
+  episodes?: { episode_number: number; name: string }[];
+}
+
+interface TMDBEpisodeDetails {
+  name: string;
+  overview: string;
+  air_date: string | null;
+  crew?: { name: string; job: string }[];
+  guest_stars?: { name: string }[];
+}
+
+// The season or episode a card is about, for season/episode cards
+export interface MediaScope extends CardScope {
+  name: string;
+  overview: string;
+  airDate: string | null;
+  posterUrl: string | null; // Season poster; null for episodes
+  episodeCount?: number;
+  director?: string;
+  writers?: string[];
+  guestStars?: string[];
+}
+
 export interface MediaInfo {
   id: number;
   title: string;
@@ -52,6 +95,7 @@ export interface MediaInfo {
   creators?: string[];
   director?: string;
   topCast?: string[];
+  scope?: MediaScope;
 }
 
 // Lightweight preview for disambiguation UI
@@ -65,23 +109,97 @@ export interface MediaPreview {
 }
 
 async function tmdbFetch<T>(endpoint: string): Promise<T> {
+  if (isTmdbMocked()) {
+    return mockTmdbFetch<T>(endpoint);
+  }
+
+  return cachedTmdbFetch(endpoint, () => fetchFromTmdb<T>(endpoint));
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoff(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Rate-limited fetch that retries 429s, 5xx and network errors, honoring Retry-After
+async function fetchFromTmdb<T>(endpoint: string): Promise<T> {
   const token = process.env.TMDB_API_TOKEN;
   if (!token) {
-    throw new Error("TMDB_API_TOKEN not configured");
+    throw new TmdbError("TMDB_API_TOKEN not configured", endpoint, null);
   }
 
-  const response = await fetch(`${TMDB_BASE_URL}${endpoint}`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-  });
+  for (let attempt = 1; ; attempt++) {
+    await tmdbLimiter.take();
+
+    let response: Response;
+    try {
+      response = await fetch(`${TMDB_BASE_URL}${endpoint}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+      });
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new TmdbTemporaryError(endpoint, null, null, attempt);
+      }
+      console.error(`TMDB request failed (attempt ${attempt}), retrying:`, error);
+      await sleep(backoff(attempt));
+      continue;
+    }
+
+    if (response.ok) {
+      return response.json();
+    }
+    if (response.status === 404) {
+      throw new TmdbNotFoundError(endpoint);
+    }
+    if (response.status !== 429 && response.status < 500) {
+      throw new TmdbError(`TMDB API error: ${response.status}`, endpoint, response.status);
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    if (attempt >= MAX_ATTEMPTS || (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS)) {
+      throw new TmdbTemporaryError(endpoint, response.status, retryAfter, attempt);
+    }
 
-  if (!response.ok) {
-    throw new Error(`TMDB API error: ${response.status}`);
+    const delay = retryAfter ?? backoff(attempt);
+    if (response.status === 429) {
+      // Hold back every other caller too, not just this request
+      tmdbLimiter.pause(delay);
+    }
+    console.log(`TMDB ${response.status} for ${endpoint}, retrying in ${Math.round(delay)}ms`);
+    await sleep(delay);
   }
+}
 
-  return response.json();
+// TMDB's popularity score for a title (0 if it can't be fetched). Used by the
+// post crons to rank candidate cards; cached with the other detail lookups.
+export async function getTmdbPopularity(tmdbId: number, mediaType: string): Promise<number> {
+  try {
+    const details = await tmdbFetch<{ popularity?: number }>(`/${mediaType}/${tmdbId}`);
+    return details.popularity || 0;
+  } catch (error) {
+    console.error(`Failed to get popularity for ${mediaType} ${tmdbId}:`, error);
+    return 0;
+  }
 }
 
 // Search and return multiple results for disambiguation
@@ -113,6 +231,25 @@ export async function searchMediaMultiple(query: string, limit: number = 5): Pro
   });
 }
 
+// One page (20 titles) of TMDB's popular movies or shows
+export async function getPopularTitles(mediaType: "movie" | "tv", page: number = 1): Promise<MediaPreview[]> {
+  const response = await tmdbFetch<{ results: Omit<TMDBSearchResult, "media_type">[] }>(
+    `/${mediaType}/popular?language=en-US&page=${page}`
+  );
+
+  return response.results.map((r) => {
+    const releaseDate = r.release_date || r.first_air_date;
+    return {
+      id: r.id,
+      title: r.title || r.name || "Unknown",
+      year: releaseDate ? releaseDate.split("-")[0] : "Unknown",
+      posterUrl: r.poster_path ? `https://image.tmdb.org/t/p/w200${r.poster_path}` : null,
+      mediaType,
+      overview: r.overview || "",
+    };
+  });
+}
+
 // Get full details for a specific media by ID
 export async function getMediaById(id: number, mediaType: "movie" | "tv"): Promise<MediaInfo | null> {
   const detailsEndpoint =
@@ -152,6 +289,36 @@ export async function getMediaById(id: number, mediaType: "movie" | "tv"): Promi
   };
 }
 
+// TMDB details for one season, or one episode of it
+export async function getMediaScope(tvId: number, scope: CardScope): Promise<MediaScope> {
+  const seasonEndpoint = `/tv/${tvId}/season/${scope.season}`;
+
+  if (!scope.episode) {
+    const season = await tmdbFetch<TMDBSeasonDetails>(seasonEndpoint);
+    return {
+      season: scope.season,
+      name: season.name,
+      overview: season.overview,
+      airDate: season.air_date,
+      posterUrl: season.poster_path ? `https://image.tmdb.org/t/p/w500${season.poster_path}` : null,
+      episodeCount: season.episodes?.length,
+    };
+  }
+
+  const episode = await tmdbFetch<TMDBEpisodeDetails>(`${seasonEndpoint}/episode/${scope.episode}`);
+  return {
+    season: scope.season,
+    episode: scope.episode,
+    name: episode.name,
+    overview: episode.overview,
+    airDate: episode.air_date,
+    posterUrl: null,
+    director: episode.crew?.find((c) => c.job === "Director")?.name,
+    writers: episode.crew?.filter((c) => c.job === "Writer" || c.job === "Teleplay").map((c) => c.name),
+    guestStars: episode.guest_stars?.slice(0, 5).map((g) => g.name),
+  };
+}
+
 export async function searchMedia(query: string): Promise<MediaInfo | null> {
   const encoded = encodeURIComponent(query);
   const searchResponse = await tmdbFetch<TMDBSearchResponse>(
@@ -211,42 +378,38 @@ export interface ResolvedComparison {
   year: string;
 }
 
+// Null when TMDB has no match; throws TmdbTemporaryError when TMDB couldn't be reached
 export async function resolveComparisonTitle(title: string): Promise<ResolvedComparison | null> {
-  try {
-    const encoded = encodeURIComponent(title);
-    const searchResponse = await tmdbFetch<TMDBSearchResponse>(
-      `/search/multi?query=${encoded}&include_adult=false&language=en-US&page=1`
-    );
+  const encoded = encodeURIComponent(title);
+  const searchResponse = await tmdbFetch<TMDBSearchResponse>(
+    `/search/multi?query=${encoded}&include_adult=false&language=en-US&page=1`
+  );
 
-    const results = searchResponse.results
-      .filter((r) => r.media_type === "movie" || r.media_type === "tv");
+  const results = searchResponse.results
+    .filter((r) => r.media_type === "movie" || r.media_type === "tv");
 
-    if (results.length === 0) {
-      return null;
-    }
+  if (results.length === 0) {
+    return null;
+  }
 
-    // Prioritize exact title match, then by popularity (vote_average as proxy)
-    const normalizedTitle = title.toLowerCase().trim();
-    const exactMatch = results.find((r) => {
-      const resultTitle = (r.title || r.name || "").toLowerCase().trim();
-      return resultTitle === normalizedTitle;
-    });
+  // Prioritize exact title match, then by popularity (vote_average as proxy)
+  const normalizedTitle = title.toLowerCase().trim();
+  const exactMatch = results.find((r) => {
+    const resultTitle = (r.title || r.name || "").toLowerCase().trim();
+    return resultTitle === normalizedTitle;
+  });
 
-    const bestMatch = exactMatch || results[0];
+  const bestMatch = exactMatch || results[0];
 
-    const releaseDate = bestMatch.release_date || bestMatch.first_air_date;
-    const year = releaseDate ? releaseDate.split("-")[0] : "Unknown";
+  const releaseDate = bestMatch.release_date || bestMatch.first_air_date;
+  const year = releaseDate ? releaseDate.split("-")[0] : "Unknown";
 
-    return {
-      title: bestMatch.title || bestMatch.name || title,
-      tmdb_id: bestMatch.id,
-      media_type: bestMatch.media_type,
-      year,
-    };
-  } catch (error) {
-    console.error(`Failed to resolve comparison title "${title}":`, error);
-    return null;
-  }
+  return {
+    title: bestMatch.title || bestMatch.name || title,
+    tmdb_id: bestMatch.id,
+    media_type: bestMatch.media_type,
+    year,
+  };
 }
 
 export function formatContextForClaude(media: MediaInfo): string {
@@ -282,5 +445,34 @@ export function formatContextForClaude(media: MediaInfo): string {
     lines.push(`\nTMDB Rating: ${media.rating.toFixed(1)}/10`);
   }
 
+  if (media.scope) {
+    lines.push("", ...formatScopeContext(media.scope));
+  }
+
   return lines.join("\n");
 }
+
+function formatScopeContext(scope: MediaScope): string[] {
+  const lines = [`This card is about ${scopeLabel(scope, scope.name)}`];
+
+  if (scope.airDate) {
+    lines.push(`${scope.episode ? "Aired" : "Premiered"}: ${scope.airDate}`);
+  }
+  if (scope.episodeCount) {
+    lines.push(`Episodes: ${scope.episodeCount}`);
+  }
+  if (scope.director) {
+    lines.push(`Episode director: ${scope.director}`);
+  }
+  if (scope.writers && scope.writers.length > 0) {
+    lines.push(`Written by: ${scope.writers.join(", ")}`);
+  }
+  if (scope.guestStars && scope.guestStars.length > 0) {
+    lines.push(`Guest stars: ${scope.guestStars.join(", ")}`);
+  }
+  if (scope.overview) {
+    lines.push(`${scope.episode ? "Episode" : "Season"} synopsis: ${scope.overview}`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTokenBucket } from "@/lib/token-bucket";
+
+describe("createTokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows a burst up to capacity, then waits for refills", async () => {
+    const bucket = createTokenBucket({ capacity: 2, refillPerSecond: 1 });
+    let taken = 0;
+    for (let i = 0; i < 4; i++) {
+      bucket.take().then(() => taken++);
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(taken).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(taken).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(taken).toBe(4);
+  });
+
+  it("holds every caller while paused", async () => {
+    const bucket = createTokenBucket({ capacity: 5, refillPerSecond: 5 });
+    bucket.pause(3000);
+    let taken = false;
+    bucket.take().then(() => (taken = true));
+
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(taken).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(taken).toBe(true);
+  });
+
+  it("isn't drained when the clock steps backwards", async () => {
+    vi.setSystemTime(new Date("2025-01-01T00:00:10Z"));
+    const bucket = createTokenBucket({ capacity: 5, refillPerSecond: 5 });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+
+    let taken = false;
+    bucket.take().then(() => (taken = true));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(taken).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+// Token-bucket rate limiter: up to `capacity` calls at once, refilled at
+// `refillPerSecond`. take() resolves when a token is available, so callers
+// queue instead of failing. Limits are per process (one serverless instance
+// or one CLI run), which is what keeps a burst from one place under the cap.
+
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucket {
+  take(): Promise<void>;
+  // Stop handing out tokens for a while (e.g. after a 429 with Retry-After)
+  pause(ms: number): void;
+}
+
+export function createTokenBucket({ capacity, refillPerSecond }: TokenBucketOptions): TokenBucket {
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  // Callers are served in order: each waits for the one before it
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    // Clamped so a clock that steps backwards can't drain the bucket
+    tokens = Math.min(capacity, tokens + (Math.max(0, now - lastRefill) / 1000) * refillPerSecond);
+    lastRefill = now;
+  };
+
+  const waitForToken = async () => {
+    for (;;) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        await sleep(pausedUntil - now);
+        continue;
+      }
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      // Whole milliseconds: Date.now() has to move for the refill to add anything
+      await sleep(Math.max(1, Math.ceil(((1 - tokens) / refillPerSecond) * 1000)));
+    }
+  };
+
+  return {
+    take() {
+      const turn = queue.then(waitForToken);
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+
+    pause(ms) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
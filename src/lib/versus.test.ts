@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  canonicalOrder,
+  getVersus,
+  pairCandidates,
+  parseVersus,
+  resetVersusGenerationLimit,
+  resolvePair,
+  versusPath,
+} from "@/lib/versus";
+import * as llm from "@/lib/llm";
+import { createMemoryRepositories, createMemoryStore, MemoryStore } from "@/lib/memory-repositories";
+import { setRepositories } from "@/lib/repositories";
+import { CachedCard, saveCard } from "@/lib/supabase";
+
+describe("versus", () => {
+  let store: MemoryStore;
+
+  const base = {
+    posterUrl: null,
+    cardContent: "A card.",
+    provider: "mock",
+    promptVersion: "v1",
+  };
+
+  async function save(fields: { tmdbId: number; title: string; mediaType: string; year: string; genres: string[] }) {
+    const { id } = await saveCard({ ...base, ...fields });
+    return store.cards.find((c) => c.id === id) as CachedCard;
+  }
+
+  beforeEach(() => {
+    vi.stubEnv("OFFLINE_MODE", "1");
+    vi.stubEnv("MOCK_LLM_FIRST_CHUNK_DELAY_MS", "0");
+    store = createMemoryStore();
+    setRepositories(createMemoryRepositories(store));
+    resetVersusGenerationLimit();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setRepositories(null);
+  });
+
+  it("splits pairs whose slugs contain -vs-", async () => {
+    expect(pairCandidates("alien-vs-predator-2004-vs-heat-1995")).toEqual([
+      ["alien", "predator-2004-vs-heat-1995"],
+      ["alien-vs-predator-2004", "heat-1995"],
+    ]);
+
+    const avp = await save({ tmdbId: 395, title: "Alien vs. Predator", mediaType: "movie", year: "2004", genres: ["Horror"] });
+    const heat = await save({ tmdbId: 949, title: "Heat", mediaType: "movie", year: "1995", genres: ["Crime"] });
+    const pair = await resolvePair("alien-vs-predator-2004-vs-heat-1995");
+    expect([pair?.a.id, pair?.b.id]).toEqual([avp.id, heat.id]);
+  });
+
+  it("uses a linking card's phrase and puts that card first", async () => {
+    const office = await save({ tmdbId: 2316, title: "The Office", mediaType: "tv", year: "2005", genres: ["Comedy"] });
+    const bear = await save({ tmdbId: 136315, title: "The Bear", mediaType: "tv", year: "2022", genres: ["Drama", "Comedy"] });
+    bear.comparisons = [
+      { title: "The Office", tmdb_id: 2316, media_type: "tv", year: "2005", slug: office.slug!, phrase: "Same awkwardness, louder." },
+    ];
+
+    expect(canonicalOrder(office, bear).map((c) => c.title)).toEqual(["The Bear", "The Office"]);
+    const versus = await getVersus(bear, office);
+    expect(versus).toMatchObject({ verdict: "Same awkwardness, louder.", source: "card", linkedFrom: bear });
+    expect(versus.shared).toEqual(["Comedy", "Both TV series"]);
+    expect(versus.contrasts).toEqual([{ a: "2020s", b: "2000s" }]);
+    expect(store.versus).toHaveLength(0);
+  });
+
+  it("generates other pairs once and stores them", async () => {
+    const heat = await save({ tmdbId: 949, title: "Heat", mediaType: "movie", year: "1995", genres: ["Crime", "Thriller"] });
+    const ring = await save({ tmdbId: 565, title: "The Ring", mediaType: "movie", year: "2002", genres: ["Horror", "Thriller"] });
+    const [a, b] = canonicalOrder(ring, heat);
+    expect(versusPath(a, b)).toBe("/compare/heat-1995-vs-the-ring-2002");
+
+    // The OG image doesn't generate
+    expect((await getVersus(a, b, { generate: false })).source).toBe("metadata");
+
+    const first = await getVersus(a, b);
+    expect(first.source).toBe("generated");
+    expect(first.shared.length).toBeGreaterThan(0);
+    expect(store.versus).toHaveLength(1);
+
+    store.versus[0].verdict = "Stored.";
+    expect((await getVersus(a, b)).verdict).toBe("Stored.");
+  });
+
+  it("doesn't call the model for pairs without a genre in common", async () => {
+    const complete = vi.spyOn(llm, "completeWithFallback");
+    const heat = await save({ tmdbId: 949, title: "Heat", mediaType: "movie", year: "1995", genres: ["Crime"] });
+    const ring = await save({ tmdbId: 565, title: "The Ring", mediaType: "movie", year: "2002", genres: ["Horror"] });
+
+    const versus = await getVersus(heat, ring);
+    expect(versus).toMatchObject({ source: "metadata", verdict: null, shared: ["Both films"] });
+    expect(complete).not.toHaveBeenCalled();
+    expect(store.versus).toHaveLength(0);
+  });
+
+  it("serves the metadata once the hourly generation limit is reached", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const complete = vi.spyOn(llm, "completeWithFallback");
+    const cards: CachedCard[] = [];
+    for (let i = 0; i < 32; i++) {
+      cards.push(await save({ tmdbId: 1000 + i, title: `Drama ${i}`, mediaType: "movie", year: "2001", genres: ["Drama"] }));
+    }
+
+    const sources: string[] = [];
+    for (let i = 1; i < cards.length; i++) {
+      sources.push((await getVersus(cards[0], cards[i])).source);
+    }
+    expect(sources.filter((source) => source === "generated")).toHaveLength(30);
+    expect(sources.slice(30)).toEqual(["metadata"]);
+    expect(complete).toHaveBeenCalledTimes(30);
+  });
+
+  it("rejects unusable model output", () => {
+    expect(parseVersus("Sorry, I can't help with that.")).toBeNull();
+    expect(parseVersus('{"shared": [], "verdict": "Fine."}')).toBeNull();
+    expect(parseVersus('{"shared": ["Dread"], "contrasts": [{"a": "Loud"}], "verdict": "Fine."}')).toEqual({
+      shared: ["Dread"],
+      contrasts: [],
+      verdict: "Fine.",
+    });
+  });
+});
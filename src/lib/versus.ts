@@ -0,0 +1,266 @@
+import { getRepositories } from "@/lib/repositories";
+import type { VersusContrast } from "@/lib/repositories";
+import { CachedCard, getCardBySlugOrId } from "@/lib/supabase";
+import { completeWithFallback, getProviderChain, LLMRequest } from "@/lib/llm";
+import { plainText } from "@/lib/card-search";
+
+// Versus pages (/compare/<a>-vs-<b>) set two titles side by side: traits they
+// share, where they differ, and a verdict. See docs/roadmap/versus-cards.md.
+//
+// - Linked pairs (one card lists the other in its comparisons) use that
+//   card's phrase as the verdict and are shown with the linking card first.
+// - Any other pair sharing a genre is written by the "versus" model chain on
+//   first view and stored in card_versus, up to MAX_GENERATIONS_PER_HOUR per
+//   instance. Until then (or if every provider fails, or for pairs with no
+//   genre in common) the page falls back to what the metadata says: shared
+//   genres, type and era. Any URL naming two cards renders, so that's what
+//   keeps crafted pairs from running up model spend.
+
+export interface Versus {
+  a: CachedCard;
+  b: CachedCard;
+  shared: string[]; // Most telling first
+  contrasts: VersusContrast[];
+  verdict: string | null;
+  source: "card" | "generated" | "metadata";
+  linkedFrom: CachedCard | null; // The card whose comparison phrase is the verdict
+}
+
+const MAX_SHARED = 5;
+const MAX_CONTRASTS = 3;
+const CARD_EXCERPT_CHARS = 1500;
+const MAX_GENERATIONS_PER_HOUR = 30;
+
+const inFlight = new Map<string, Promise<Versus>>();
+let generationWindow = { startedAt: 0, count: 0 };
+
+function cardPath(card: CachedCard): string {
+  return card.slug || card.id;
+}
+
+export function versusPath(a: CachedCard, b: CachedCard): string {
+  return `/compare/${cardPath(a)}-vs-${cardPath(b)}`;
+}
+
+// Every way to split "<a>-vs-<b>"; slugs can contain "-vs-" themselves
+// ("alien-vs-predator-2004")
+export function pairCandidates(pair: string): [string, string][] {
+  const candidates: [string, string][] = [];
+  for (let i = pair.indexOf("-vs-"); i !== -1; i = pair.indexOf("-vs-", i + 1)) {
+    const a = pair.slice(0, i);
+    const b = pair.slice(i + 4);
+    if (a && b) candidates.push([a, b]);
+  }
+  return candidates;
+}
+
+// The two whole-title cards a pair names, in the order given
+export async function resolvePair(pair: string): Promise<{ a: CachedCard; b: CachedCard } | null> {
+  for (const [slugA, slugB] of pairCandidates(pair)) {
+    const [a, b] = await Promise.all([getCardBySlugOrId(slugA), getCardBySlugOrId(slugB)]);
+    if (a && b && a.id !== b.id && !a.scope && !b.scope) {
+      return { a, b };
+    }
+  }
+  return null;
+}
+
+// The phrase `from` uses for `to` in its comparisons, if it links it
+export function linkedPhrase(from: CachedCard, to: CachedCard): string | null {
+  const comparison = (from.comparisons || []).find(
+    (c) => (to.tmdb_id !== null && c.tmdb_id === to.tmdb_id && c.media_type === to.media_type) || c.slug === to.slug
+  );
+  return comparison?.phrase || null;
+}
+
+// A linked pair puts the card that makes the comparison first; others go by slug
+export function canonicalOrder(a: CachedCard, b: CachedCard): [CachedCard, CachedCard] {
+  if (linkedPhrase(a, b)) return [a, b];
+  if (linkedPhrase(b, a)) return [b, a];
+  return cardPath(a) <= cardPath(b) ? [a, b] : [b, a];
+}
+
+function typeLabel(card: CachedCard): string {
+  return card.media_type === "tv" ? "TV series" : "Film";
+}
+
+function decade(card: CachedCard): string | null {
+  const year = parseInt(card.year || "", 10);
+  return Number.isNaN(year) ? null : `${Math.floor(year / 10) * 10}s`;
+}
+
+// What TMDB's metadata alone says about the pair
+export function metadataTraits(a: CachedCard, b: CachedCard): { shared: string[]; contrasts: VersusContrast[] } {
+  const genresA = a.genres || [];
+  const genresB = b.genres || [];
+  const shared = genresA.filter((genre) => genresB.includes(genre));
+  const contrasts: VersusContrast[] = [];
+
+  const onlyA = genresA.filter((genre) => !genresB.includes(genre));
+  const onlyB = genresB.filter((genre) => !genresA.includes(genre));
+  if (onlyA.length > 0 && onlyB.length > 0) {
+    contrasts.push({ a: onlyA[0], b: onlyB[0] });
+  }
+
+  if (a.media_type === b.media_type) {
+    shared.push(`Both ${a.media_type === "tv" ? "TV series" : "films"}`);
+  } else {
+    contrasts.push({ a: typeLabel(a), b: typeLabel(b) });
+  }
+
+  const decadeA = decade(a);
+  const decadeB = decade(b);
+  if (decadeA && decadeA === decadeB) {
+    shared.push(`Both from the ${decadeA}`);
+  } else if (decadeA && decadeB) {
+    contrasts.push({ a: decadeA, b: decadeB });
+  }
+
+  return { shared: shared.slice(0, MAX_SHARED), contrasts: contrasts.slice(0, MAX_CONTRASTS) };
+}
+
+function describeForPrompt(label: string, card: CachedCard): string {
+  const excerpt = plainText(card.card_content).slice(0, CARD_EXCERPT_CHARS);
+  return `## ${label}: ${card.title} (${[card.year, typeLabel(card)].filter(Boolean).join(", ")})
+${card.calibration_sentence || ""}
+${excerpt}`;
+}
+
+export function buildVersusRequest(a: CachedCard, b: CachedCard): LLMRequest {
+  return {
+    maxTokens: 400,
+    prompt: `Compare these two titles for someone deciding what to watch, going by how each one feels to watch rather than its plot.
+
+${describeForPrompt("A", a)}
+
+${describeForPrompt("B", b)}
+
+Respond in JSON only:
+{
+  "shared": ["3 to 5 traits both share, 1-4 words each, most telling first"],
+  "contrasts": [{ "a": "how A has it, 1-4 words", "b": "how B has it, 1-4 words" }],
+  "verdict": "One or two sentences on why they pair well, and for whom"
+}
+
+Give 2 or 3 contrasts. No spoilers.`,
+  };
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// The model's JSON, or null if it isn't usable
+export function parseVersus(text: string): { shared: string[]; contrasts: VersusContrast[]; verdict: string } | null {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  let parsed: { shared?: unknown; contrasts?: unknown; verdict?: unknown };
+  try {
+    parsed = JSON.parse(json[0]);
+  } catch {
+    return null;
+  }
+
+  const shared = Array.isArray(parsed.shared) ? parsed.shared.filter(isText).map((t) => t.trim()) : [];
+  const contrasts = Array.isArray(parsed.contrasts)
+    ? parsed.contrasts
+        .filter((c): c is VersusContrast => Boolean(c) && isText(c.a) && isText(c.b))
+        .map((c) => ({ a: c.a.trim(), b: c.b.trim() }))
+    : [];
+  if (shared.length === 0 || !isText(parsed.verdict)) return null;
+
+  return {
+    shared: shared.slice(0, MAX_SHARED),
+    contrasts: contrasts.slice(0, MAX_CONTRASTS),
+    verdict: parsed.verdict.trim(),
+  };
+}
+
+// Pairs someone could browse between: both listed under a genre's browse section
+function shareGenre(a: CachedCard, b: CachedCard): boolean {
+  return (a.genres || []).some((genre) => (b.genres || []).includes(genre));
+}
+
+function takeGeneration(): boolean {
+  const now = Date.now();
+  if (now - generationWindow.startedAt >= 60 * 60_000) {
+    generationWindow = { startedAt: now, count: 0 };
+  }
+  if (generationWindow.count >= MAX_GENERATIONS_PER_HOUR) {
+    return false;
+  }
+  generationWindow.count++;
+  return true;
+}
+
+export function resetVersusGenerationLimit(): void {
+  generationWindow = { startedAt: 0, count: 0 };
+}
+
+async function generateVersus(a: CachedCard, b: CachedCard): Promise<Versus | null> {
+  try {
+    const { provider, text } = await completeWithFallback(buildVersusRequest(a, b), getProviderChain("versus"));
+    const parsed = parseVersus(text);
+    if (!parsed) {
+      console.error(`Unusable versus response for ${a.title} vs ${b.title}:`, text);
+      return null;
+    }
+    await getRepositories().versus.save({ card_a_id: a.id, card_b_id: b.id, ...parsed, provider: provider.model });
+    return { a, b, ...parsed, source: "generated", linkedFrom: null };
+  } catch (error) {
+    console.error(`Versus generation failed for ${a.title} vs ${b.title}:`, error);
+    return null;
+  }
+}
+
+// The comparison of a and b, in that order. With generate: false (OG images),
+// a pair nobody has viewed yet gets the metadata fallback instead of a model call,
+// as do pairs without a genre in common and any past the hourly limit.
+export async function getVersus(a: CachedCard, b: CachedCard, { generate = true } = {}): Promise<Versus> {
+  const phraseA = linkedPhrase(a, b);
+  const phrase = phraseA || linkedPhrase(b, a);
+  if (phrase) {
+    return { a, b, ...metadataTraits(a, b), verdict: phrase, source: "card", linkedFrom: phraseA ? a : b };
+  }
+
+  const stored = await getRepositories().versus.get(a.id, b.id);
+  if (stored) {
+    const { shared, contrasts, verdict } = stored;
+    return { a, b, shared, contrasts, verdict, source: "generated", linkedFrom: null };
+  }
+
+  const fallback: Versus = { a, b, ...metadataTraits(a, b), verdict: null, source: "metadata", linkedFrom: null };
+  if (!generate || !shareGenre(a, b)) {
+    return fallback;
+  }
+
+  // Concurrent first views of a pair share one model call
+  const key = `${a.id}:${b.id}`;
+  let pending = inFlight.get(key);
+  if (!pending) {
+    if (!takeGeneration()) {
+      console.log(`Versus generation limit reached, serving metadata for ${a.title} vs ${b.title}`);
+      return fallback;
+    }
+    pending = generateVersus(a, b)
+      .then((generated) => generated || fallback)
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+// Versus pages for the titles a card compares itself to that have cards of their own
+export async function getVersusLinks(card: CachedCard): Promise<{ title: string; href: string }[]> {
+  if (card.scope || !card.comparisons || card.comparisons.length === 0) {
+    return [];
+  }
+  const others = await getRepositories().cards.getByTmdbIds(
+    card.comparisons.flatMap((c) => (c.tmdb_id !== null ? [c.tmdb_id] : []))
+  );
+  return card.comparisons.flatMap((comparison) => {
+    const other = others.find((c) => c.tmdb_id === comparison.tmdb_id && c.media_type === comparison.media_type);
+    return other && other.id !== card.id ? [{ title: other.title, href: versusPath(card, other) }] : [];
+  });
+}
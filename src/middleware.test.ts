@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { middleware } from "./middleware";
+
+const ID = "27e5f7d5-90d7-4478-8441-6ddab5456a6f";
+
+function request(path: string): NextRequest {
+  return new NextRequest(`https://texture.watch${path}`);
+}
+
+describe("card redirect middleware", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("doesn't look up paths shaped like slugs", async () => {
+    const response = await middleware(request("/card/the-bear-2022/s2"));
+    expect(response.headers.get("x-middleware-next")).toBe("1");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("301s a UUID link to the card's slug, keeping the query", async () => {
+    fetchMock.mockResolvedValue(Response.json({ slug: "inception-2010" }));
+
+    const response = await middleware(request(`/card/${ID}?ref=x`));
+    expect(response.status).toBe(301);
+    expect(response.headers.get("location")).toBe("https://texture.watch/card/inception-2010?ref=x");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe(`https://texture.watch/api/cards/canonical?path=${ID}`);
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("leaves the page to handle failed lookups", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockRejectedValue(new DOMException("The operation timed out.", "TimeoutError"));
+    expect((await middleware(request(`/card/${ID}`))).headers.get("x-middleware-next")).toBe("1");
+
+    fetchMock.mockResolvedValue(Response.json({ error: "Card not found" }, { status: 404 }));
+    expect((await middleware(request(`/card/${ID}`))).headers.get("x-middleware-next")).toBe("1");
+  });
+});
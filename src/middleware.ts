@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// /card/<uuid> links (and paths that aren't slugs at all) redirect to the card's
+// current slug with a 301. App Router pages can only send 308, so the lookup
+// happens here, through /api/cards/canonical (the repositories don't run on the
+// edge). Anything shaped like a slug goes straight to the page, which answers a
+// slug the card used to have with a 308; if the lookup fails or times out, the
+// page redirects UUIDs the same way.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// The shape isSafeSlug (src/lib/supabase.ts) accepts
+const SLUG_PATTERN = /^[a-z0-9-]+(\/s\d+(e\d+)?)?$/;
+const LOOKUP_TIMEOUT_MS = 1500;
+
+export async function middleware(request: NextRequest) {
+  let requested: string;
+  try {
+    requested = decodeURIComponent(request.nextUrl.pathname.slice("/card/".length)).replace(/\/$/, "");
+  } catch {
+    return NextResponse.next();
+  }
+  if (!requested || (SLUG_PATTERN.test(requested) && !UUID_PATTERN.test(requested))) {
+    return NextResponse.next();
+  }
+
+  try {
+    const lookup = new URL("/api/cards/canonical", request.url);
+    lookup.searchParams.set("path", requested);
+    const response = await fetch(lookup, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+    if (!response.ok) return NextResponse.next();
+
+    const { slug } = (await response.json()) as { slug: string | null };
+    if (!slug || slug === requested) return NextResponse.next();
+
+    const target = request.nextUrl.clone();
+    target.pathname = `/card/${slug}`;
+    return NextResponse.redirect(target, 301);
+  } catch (error) {
+    console.error("Card redirect lookup failed:", error);
+    return NextResponse.next();
+  }
+}
+
+export const config = {
+  matcher: "/card/:path+",
+};
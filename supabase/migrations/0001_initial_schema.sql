@@ -0,0 +1,74 @@
+-- Tables as they existed before migrations were tracked. Everything is
+-- IF NOT EXISTS so this is a no-op against the production database.
+
+CREATE TABLE IF NOT EXISTS cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tmdb_id INTEGER UNIQUE,
+  title TEXT NOT NULL,
+  slug TEXT,
+  media_type TEXT NOT NULL,
+  year TEXT,
+  poster_url TEXT,
+  genres TEXT[],
+  card_content TEXT NOT NULL,
+  calibration_sentence TEXT,
+  comparisons JSONB,
+  provider TEXT,
+  last_posted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cards_slug_idx ON cards (slug);
+
+CREATE TABLE IF NOT EXISTS posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  card_id UUID NOT NULL REFERENCES cards (id) ON DELETE CASCADE,
+  slot TEXT NOT NULL,
+  tweet_id TEXT,
+  posted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  title TEXT NOT NULL,
+  slug TEXT,
+  calibration_sentence TEXT,
+  year TEXT,
+  poster_url TEXT
+);
+
+CREATE TABLE IF NOT EXISTS pending_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot TEXT NOT NULL CHECK (slot IN ('morning', 'afternoon', 'evening')),
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  selected_card_id UUID NOT NULL REFERENCES cards (id) ON DELETE CASCADE,
+  alternative_card_ids UUID[] NOT NULL DEFAULT '{}',
+  approval_token UUID NOT NULL UNIQUE,
+  token_expires_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'skipped', 'posted', 'expired')),
+  approved_at TIMESTAMPTZ,
+  approved_via TEXT CHECK (approved_via IN ('admin', 'email')),
+  posted_to_x BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pending_posts_slot_idx ON pending_posts (slot, scheduled_for);
+
+CREATE TABLE IF NOT EXISTS admin_sessions (
+  token UUID PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS discovered_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  platform TEXT NOT NULL,
+  post_uri TEXT NOT NULL UNIQUE,
+  post_url TEXT NOT NULL,
+  author_handle TEXT NOT NULL,
+  author_display_name TEXT,
+  content TEXT NOT NULL,
+  detected_title TEXT,
+  relevance_score INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'liked', 'quoted', 'dismissed')),
+  search_phrase TEXT,
+  discovered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  acted_on_at TIMESTAMPTZ
+);
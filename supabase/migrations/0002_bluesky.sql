@@ -0,0 +1,4 @@
+-- Posting to Bluesky alongside X
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS last_posted_bluesky TIMESTAMPTZ;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS platform TEXT NOT NULL DEFAULT 'twitter';
+ALTER TABLE pending_posts ADD COLUMN IF NOT EXISTS posted_to_bluesky BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- Parsed card structure, validation results and prompt versioning
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS card_document JSONB;
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS validation JSONB;
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+CREATE INDEX IF NOT EXISTS cards_prompt_version_idx ON cards (prompt_version);
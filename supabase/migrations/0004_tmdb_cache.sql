@@ -0,0 +1,9 @@
+-- Shared TMDB response cache (src/lib/tmdb-cache.ts). Freshness is decided
+-- when reading, from fetched_at and the endpoint's TTL.
+CREATE TABLE IF NOT EXISTS tmdb_cache (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tmdb_cache_fetched_at_idx ON tmdb_cache (fetched_at);
@@ -0,0 +1,8 @@
+-- Season and episode cards (src/lib/card-scope.ts). scope is '' for a card
+-- about the whole title, 's2' for a season, 's2e6' for an episode; a title
+-- can now have one card per scope instead of one card per tmdb_id.
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS scope TEXT NOT NULL DEFAULT '';
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS scope_name TEXT;
+
+ALTER TABLE cards DROP CONSTRAINT IF EXISTS cards_tmdb_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS cards_tmdb_id_scope_key ON cards (tmdb_id, scope);
@@ -0,0 +1,27 @@
+-- TMDB movie and TV ids are separate namespaces, so a card is identified by
+-- (media_type, tmdb_id, scope) rather than (tmdb_id, scope).
+DROP INDEX IF EXISTS cards_tmdb_id_scope_key;
+CREATE UNIQUE INDEX IF NOT EXISTS cards_media_type_tmdb_id_scope_key ON cards (media_type, tmdb_id, scope);
+
+-- Under the old key, saving a card replaced the other media type's card with
+-- the same id in place: the row kept its id and post history but took the new
+-- title, slug and content. A post that matches neither its card's title nor
+-- slug may belong to an overwritten card, or to a card that was just retitled
+-- and re-slugged, so nothing is moved here. `npm run texture --
+-- restore-collisions` confirms each candidate against TMDB first (see
+-- src/lib/card-collisions.ts). To see the candidates without changing
+-- anything:
+--
+--   SELECT c.id AS card_id, c.media_type, c.tmdb_id, c.title, c.slug,
+--          p.title AS posted_title, p.slug AS posted_slug, count(*) AS posts
+--   FROM posts p
+--   JOIN cards c ON c.id = p.card_id
+--   WHERE c.tmdb_id IS NOT NULL
+--     AND p.slug IS NOT NULL
+--     AND p.title <> c.title
+--     AND p.slug IS DISTINCT FROM c.slug
+--     AND NOT EXISTS (SELECT 1 FROM cards other WHERE other.slug = p.slug)
+--   GROUP BY c.id, p.title, p.slug
+--   ORDER BY c.title;
+--
+-- (card_slug_history, which the command also checks, arrives in 0007.)
@@ -0,0 +1,35 @@
+-- Unique card slugs, plus the slugs cards used to have so old URLs keep
+-- redirecting to the card's current one.
+
+-- Disambiguate existing duplicates the way saveCard does: the oldest card
+-- keeps the slug, later ones get their TMDB id (or id prefix) appended to the
+-- title part, e.g. "heat-1995" -> "heat-1995-949", "the-bear-2022/s2" ->
+-- "the-bear-2022-136315/s2".
+WITH ranked AS (
+  SELECT
+    id,
+    slug,
+    scope,
+    COALESCE(tmdb_id::text, left(id::text, 8)) AS suffix,
+    row_number() OVER (PARTITION BY slug ORDER BY created_at, id) AS rank
+  FROM cards
+  WHERE slug IS NOT NULL
+)
+UPDATE cards
+SET slug = CASE
+  WHEN ranked.scope = '' THEN ranked.slug || '-' || ranked.suffix
+  ELSE split_part(ranked.slug, '/', 1) || '-' || ranked.suffix || '/' || ranked.scope
+END
+FROM ranked
+WHERE cards.id = ranked.id AND ranked.rank > 1;
+
+DROP INDEX IF EXISTS cards_slug_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS cards_slug_key ON cards (slug);
+
+CREATE TABLE IF NOT EXISTS card_slug_history (
+  slug TEXT PRIMARY KEY,
+  card_id UUID NOT NULL REFERENCES cards (id) ON DELETE CASCADE,
+  replaced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS card_slug_history_card_id_idx ON card_slug_history (card_id);
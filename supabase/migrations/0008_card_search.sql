@@ -0,0 +1,55 @@
+-- Full-text search over cards (src/lib/card-search.ts). The document weights
+-- the title (A) over the calibration sentence (B), comparison titles and
+-- phrases (C) and the card prose (D). It's an expression index rather than a
+-- column, so the search_cards function must use the same expression.
+CREATE OR REPLACE FUNCTION card_search_vector(title TEXT, calibration_sentence TEXT, comparisons JSONB, card_content TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(calibration_sentence, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(concat_ws(' ', c ->> 'title', c ->> 'phrase'), ' ')
+      FROM jsonb_array_elements(CASE WHEN jsonb_typeof(comparisons) = 'array' THEN comparisons ELSE '[]'::jsonb END) AS c
+    ), '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(card_content, '')), 'D')
+$$;
+
+CREATE INDEX IF NOT EXISTS cards_search_idx
+  ON cards USING GIN (card_search_vector(title, calibration_sentence, comparisons, card_content));
+
+-- Cards matching any of the query's words, most relevant first, with a
+-- highlighted snippet (matches wrapped in ⟦ ⟧). Matching any word rather than
+-- all of them lets "comfort watch about grief" still find cards about grief;
+-- cards matching more words rank higher.
+CREATE OR REPLACE FUNCTION search_cards(query TEXT, max_results INTEGER DEFAULT 20)
+RETURNS TABLE (card JSONB, rank REAL, snippet TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT NULLIF(replace(plainto_tsquery('english', query)::text, '&', '|'), '')::tsquery AS tsq
+  ),
+  ranked AS (
+    SELECT c.*, ts_rank(card_search_vector(c.title, c.calibration_sentence, c.comparisons, c.card_content), q.tsq) AS rank, q.tsq
+    FROM cards c, q
+    WHERE q.tsq IS NOT NULL
+      AND card_search_vector(c.title, c.calibration_sentence, c.comparisons, c.card_content) @@ q.tsq
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT max_results
+  )
+  -- Headlines are slow, so only for the rows returned
+  SELECT
+    to_jsonb(r) - 'rank' - 'tsq' AS card,
+    r.rank,
+    ts_headline(
+      'english',
+      concat_ws(' ', r.calibration_sentence, r.card_content),
+      r.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM ranked r
+  ORDER BY r.rank DESC, r.created_at DESC;
+$$;
@@ -0,0 +1,13 @@
+-- Versus pages (/compare/<a>-vs-<b>) for pairs no card links to are written by
+-- a model on first view and kept here. card_a_id is the title shown first.
+
+CREATE TABLE IF NOT EXISTS card_versus (
+  card_a_id UUID NOT NULL REFERENCES cards (id) ON DELETE CASCADE,
+  card_b_id UUID NOT NULL REFERENCES cards (id) ON DELETE CASCADE,
+  shared TEXT[] NOT NULL,
+  contrasts JSONB NOT NULL,
+  verdict TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT card_versus_pkey PRIMARY KEY (card_a_id, card_b_id)
+);
@@ -0,0 +1,4 @@
+-- OG image template picked in the admin Cards tab (src/lib/og-templates.ts).
+-- NULL means the default: the classic layout in the dark theme.
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS og_layout TEXT;
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS og_theme TEXT;
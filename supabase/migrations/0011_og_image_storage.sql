@@ -0,0 +1,8 @@
+-- Pre-rendered OG images (src/lib/og-storage.ts). og_images maps each format
+-- to the content hash, storage path and public URL of the card's current render.
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS og_images JSONB;
+
+-- Paths are content-addressed, so the bucket is public and objects never change
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('og-images', 'og-images', true)
+ON CONFLICT (id) DO NOTHING;
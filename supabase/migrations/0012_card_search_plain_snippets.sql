@@ -0,0 +1,49 @@
+-- Search snippets without the card's markdown: ts_headline quoted card_content
+-- as stored, so snippets showed "**", "## " and "- ". card_plain_text strips
+-- the same markup as plainText in src/lib/card-search.ts.
+CREATE OR REPLACE FUNCTION card_plain_text(markdown TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(coalesce(markdown, ''), '^#+[ \t]*', '', 'gn'),
+        '[*_`>]+', '', 'g'
+      ),
+      '^[ \t]*[-•][ \t]+', '', 'gn'
+    ),
+    '\s+', ' ', 'g'
+  ))
+$$;
+
+CREATE OR REPLACE FUNCTION search_cards(query TEXT, max_results INTEGER DEFAULT 20)
+RETURNS TABLE (card JSONB, rank REAL, snippet TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT NULLIF(replace(plainto_tsquery('english', query)::text, '&', '|'), '')::tsquery AS tsq
+  ),
+  ranked AS (
+    SELECT c.*, ts_rank(card_search_vector(c.title, c.calibration_sentence, c.comparisons, c.card_content), q.tsq) AS rank, q.tsq
+    FROM cards c, q
+    WHERE q.tsq IS NOT NULL
+      AND card_search_vector(c.title, c.calibration_sentence, c.comparisons, c.card_content) @@ q.tsq
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT max_results
+  )
+  -- Headlines are slow, so only for the rows returned
+  SELECT
+    to_jsonb(r) - 'rank' - 'tsq' AS card,
+    r.rank,
+    ts_headline(
+      'english',
+      concat_ws(' ', r.calibration_sentence, card_plain_text(r.card_content)),
+      r.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM ranked r
+  ORDER BY r.rank DESC, r.created_at DESC;
+$$;
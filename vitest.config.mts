@@ -0,0 +1,14 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  // tsconfig keeps JSX for Next to compile; tests that render OG images need it transformed
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
+});